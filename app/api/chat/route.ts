@@ -1,19 +1,12 @@
 import { mastra } from "../../../mastra";
 import { createV4CompatibleResponse } from "@mastra/core/agent";
-
-interface UserContext {
-  name?: string;
-  location?: string;
-  language?: string;
-  farmType?: string;
-  experience?: string;
-  mainCrops?: string;
-  farmSize?: string;
-  latitude?: number;
-  longitude?: number;
-  cityName?: string;
-  stateName?: string;
-}
+import { createUserRuntimeContext, getUserContext, type UserContext } from "../../../mastra/services/user-context";
+import { createAnswerSafetyStream } from "../../../mastra/services/answer-safety-stream";
+import { createResearchCitationStream } from "../../../mastra/services/research-citation-stream";
+import { classifyIntent } from "../../../mastra/services/intent";
+import { routeIntent, setIntentRoute, summarizeRoute, type ToolRoute } from "../../../mastra/services/intent-router";
+import { setDiagnosisTurn, type DiagnosisTurn, type RankedCause } from "../../../mastra/services/crop-diagnosis";
+import type { RuntimeContext } from "@mastra/core/runtime-context";
 
 function buildUserContextSystemMessage(userContext: UserContext): string {
   // Only include defined fields
@@ -22,8 +15,92 @@ function buildUserContextSystemMessage(userContext: UserContext): string {
   return `USER CONTEXT\n${lines.join("\n")}\n---\nUse this factual profile to tailor agronomic, weather, and market advice.\nAdjust language to the user's preferred language if specified (language field).\nDo NOT redundantly ask for these details unless they are missing or clarification is truly needed.\nIf location is present, prioritize localized recommendations.\n`; 
 }
 
+type ChatMessage = { role: string; content: unknown };
+
+function lastUserMessage(messages: ChatMessage[]): ChatMessage | undefined {
+  return [...messages].reverse().find((m) => m.role === "user");
+}
+
+// Text of the farmer's latest message; image parts are skipped
+function lastUserText(messages: ChatMessage[]): string {
+  const last = lastUserMessage(messages);
+  if (!last) return "";
+  if (typeof last.content === "string") return last.content;
+  if (!Array.isArray(last.content)) return "";
+  return last.content
+    .filter((part: { type?: string; text?: string }) => part.type === "text" && typeof part.text === "string")
+    .map((part: { text: string }) => part.text)
+    .join(" ");
+}
+
+function lastUserSentImage(messages: ChatMessage[]): boolean {
+  const content = lastUserMessage(messages)?.content;
+  return Array.isArray(content) && content.some((part: { type?: string }) => part.type === "image");
+}
+
+// A reply about prices, weather or schemes is a new question, not an answer to the diagnosis
+function answersDiagnosis(route: ToolRoute): boolean {
+  return !route.intent.topics.some((topic) => topic === "market-price" || topic === "weather" || topic === "scheme");
+}
+
+/**
+ * Continue a diagnosis that is waiting for the farmer's answer, or start one for a disease
+ * or pest question. Failures are logged and the agent answers without the diagnosis.
+ */
+async function runCropDiagnosis(
+  messages: ChatMessage[],
+  route: ToolRoute,
+  runtimeContext: RuntimeContext,
+  pendingRunId?: string,
+): Promise<DiagnosisTurn | undefined> {
+  const workflow = mastra.getWorkflow("cropDiagnosisWorkflow");
+  const answer = lastUserText(messages);
+
+  try {
+    let run;
+    let result;
+    if (pendingRunId && answersDiagnosis(route)) {
+      run = await workflow.createRunAsync({ runId: pendingRunId });
+      result = await run.resume({ step: "clarify", resumeData: { answer }, runtimeContext });
+    } else if (route.intent.primaryTopic === "disease-pest") {
+      const userContext = getUserContext(runtimeContext);
+      run = await workflow.createRunAsync();
+      result = await run.start({
+        inputData: {
+          query: answer,
+          crop: route.intent.crop ?? undefined,
+          photoProvided: lastUserSentImage(messages),
+          latitude: userContext?.latitude,
+          longitude: userContext?.longitude,
+          location: userContext?.cityName,
+          stateName: userContext?.stateName,
+        },
+        runtimeContext,
+      });
+    } else {
+      return undefined;
+    }
+
+    if (result.status === "suspended") {
+      const { question, options, causes } = result.steps.clarify.suspendPayload as {
+        question: string;
+        options: string[];
+        causes: RankedCause[];
+      };
+      return { status: "needs-answer", runId: run.runId, question: { question, options }, causes };
+    }
+    if (result.status === "success") {
+      return { status: "planned", runId: run.runId, plan: result.result };
+    }
+    console.error("Crop diagnosis did not finish:", result.status === "failed" ? result.error : result.status);
+  } catch (error) {
+    console.error("Crop diagnosis error:", error);
+  }
+  return undefined;
+}
+
 export async function POST(req: Request) {
-  const { messages, userContext } = await req.json();
+  const { messages, userContext, diagnosisRunId } = await req.json();
 
   const enrichedMessages = Array.isArray(messages) ? [...messages] : [];
 
@@ -43,7 +120,36 @@ export async function POST(req: Request) {
   console.log(enrichedMessages);
 
   const myAgent = mastra.getAgent("kccAgent");
-  const stream = await myAgent.stream(enrichedMessages);
+  const runtimeContext = createUserRuntimeContext(
+    userContext && typeof userContext === 'object' ? (userContext as UserContext) : undefined
+  );
+
+  // Classify the question and decide the tools before the model runs, so every routing decision is traceable
+  const route = routeIntent(classifyIntent(lastUserText(enrichedMessages), getUserContext(runtimeContext)));
+  setIntentRoute(runtimeContext, route);
+  // Also sent as the X-Intent-Route header; logged only at debug level
+  mastra.getLogger().debug("Intent route", summarizeRoute(route));
+
+  // Disease and pest questions go through the structured diagnosis workflow first
+  const diagnosis = await runCropDiagnosis(
+    enrichedMessages,
+    route,
+    runtimeContext,
+    typeof diagnosisRunId === "string" ? diagnosisRunId : undefined,
+  );
+  if (diagnosis) setDiagnosisTurn(runtimeContext, diagnosis);
+
+  const stream = await myAgent.stream(enrichedMessages, { runtimeContext });
+
+  // Annotate banned/restricted agrochemicals in the answer before it reaches the farmer,
+  // and pass web research citations on as source-url parts
+  const guardedBody = stream.toUIMessageStreamResponse().body!
+    .pipeThrough(createAnswerSafetyStream())
+    .pipeThrough(createResearchCitationStream());
 
-  return createV4CompatibleResponse(stream.toUIMessageStreamResponse().body!);
+  const response = createV4CompatibleResponse(guardedBody);
+  response.headers.set("X-Intent-Route", encodeURIComponent(JSON.stringify(summarizeRoute(route))));
+  // The client sends this back with the farmer's reply to resume the diagnosis
+  if (diagnosis?.status === "needs-answer") response.headers.set("X-Diagnosis-Run", diagnosis.runId);
+  return response;
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { compareWithClimateNormals, ClimateNormalsError } from "../../../mastra/services/climate-normals"
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = searchParams.get("lat")
+    const lng = searchParams.get("lng")
+    const years = searchParams.get("years")
+
+    if (!lat || !lng) {
+      return NextResponse.json({ error: "lat and lng are required" }, { status: 400 })
+    }
+
+    const result = await compareWithClimateNormals({
+      latitude: parseFloat(lat),
+      longitude: parseFloat(lng),
+      baselineYears: years ? parseInt(years, 10) || undefined : undefined,
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Climate normals API error:", error)
+    if (error instanceof ClimateNormalsError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    return NextResponse.json({ error: "Failed to compare with climate normals" }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CRAWL_PAGES, loadMandiIndex, MAX_REFRESH_PAGES, refreshMandiIndex } from '../../../../mastra/services/mandi-index';
+import { MandiPriceError } from '../../../../mastra/services/mandi-price-service';
+
+// Hierarchical mandi index (state → district → market → commodities) for cascading filters
+export async function GET() {
+  try {
+    return NextResponse.json(await loadMandiIndex());
+  } catch (error) {
+    console.error('Error loading mandi index:', error);
+    return NextResponse.json(
+      { error: 'Failed to load mandi index', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Re-crawl the live feed into the runtime index, e.g. once a day from a scheduler.
+ * The shared secret MANDI_SNAPSHOT_TOKEN must be sent as a Bearer token; without it
+ * configured the route is disabled. `pages` is clamped to 1..MAX_REFRESH_PAGES.
+ */
+export async function POST(request: NextRequest) {
+  const token = process.env.MANDI_SNAPSHOT_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Set MANDI_SNAPSHOT_TOKEN to enable refreshing the mandi index' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const pagesParam = request.nextUrl.searchParams.get('pages');
+  const requestedPages = pagesParam ? parseInt(pagesParam, 10) || DEFAULT_CRAWL_PAGES : DEFAULT_CRAWL_PAGES;
+  const pages = Math.min(MAX_REFRESH_PAGES, Math.max(1, requestedPages));
+  try {
+    const { index, records, pages: crawled } = await refreshMandiIndex(pages);
+    return NextResponse.json({
+      generatedAt: index.generatedAt,
+      records,
+      pages: crawled,
+      states: index.states.length,
+      commodities: index.commodities.length,
+    });
+  } catch (error) {
+    console.error('Error refreshing mandi index:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh mandi index', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: error instanceof MandiPriceError ? error.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findNearestMandis } from '../../../../mastra/services/mandi-locator';
+
+function optionalNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const latitude = optionalNumber(searchParams.get('lat'));
+  const longitude = optionalNumber(searchParams.get('lng'));
+
+  if (latitude === undefined || longitude === undefined) {
+    return NextResponse.json({ error: 'lat and lng parameters are required' }, { status: 400 });
+  }
+
+  try {
+    const result = await findNearestMandis({
+      latitude,
+      longitude,
+      commodity: searchParams.get('commodity') || undefined,
+      limit: optionalNumber(searchParams.get('limit')),
+      transportCostPerKm: optionalNumber(searchParams.get('costPerKm')),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error finding nearest mandis:', error);
+    return NextResponse.json(
+      { error: 'Failed to find nearest mandis', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,167 +1,124 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-interface MandiPriceResponse {
-  records: Array<{
-    state: string;
-    district: string;
-    market: string;
-    commodity: string;
-    variety: string;
-    grade: string;
-    arrival_date: string;
-    min_price: number;
-    max_price: number;
-    modal_price: number;
-  }>;
-  total: number;
-  limit: number;
-  offset: number;
+import {
+  DEFAULT_MANDI_PRICE_LIMIT,
+  fetchAllMandiPrices,
+  fetchMandiPrices,
+  fetchSortedMandiPrices,
+  MANDI_PRICE_SORT_FIELDS,
+  MAX_MANDI_PRICE_LIMIT,
+  MandiPriceError,
+  sortPrices,
+  type MandiPriceSort,
+  type MandiPriceSortField,
+  type PriceData,
+} from '../../../mastra/services/mandi-price-service';
+import { resolveMandiQuery } from '../../../mastra/services/mandi-name-resolver';
+import { loadMandiIndex } from '../../../mastra/services/mandi-index';
+import { toCsv, toXlsx, type SpreadsheetCell } from '../../../mastra/services/spreadsheet';
+
+const EXPORT_COLUMNS: Array<[string, (price: PriceData) => SpreadsheetCell]> = [
+  ['State', p => p.state],
+  ['District', p => p.district],
+  ['Market', p => p.market],
+  ['Commodity', p => p.commodity],
+  ['Variety', p => p.variety],
+  ['Grade', p => p.grade],
+  ['Arrival Date', p => p.arrivalDate],
+  ['Min Price (Rs/quintal)', p => p.minPrice],
+  ['Max Price (Rs/quintal)', p => p.maxPrice],
+  ['Modal Price (Rs/quintal)', p => p.modalPrice],
+];
+
+function parseSort(searchParams: URLSearchParams): MandiPriceSort | undefined {
+  const field = searchParams.get('sort');
+  if (!field || !MANDI_PRICE_SORT_FIELDS.includes(field as MandiPriceSortField)) return undefined;
+  return { field: field as MandiPriceSortField, order: searchParams.get('order') === 'asc' ? 'asc' : 'desc' };
 }
 
-interface PriceData {
-  state: string;
-  district: string;
-  market: string;
-  commodity: string;
-  variety: string;
-  grade: string;
-  arrivalDate: string;
-  minPrice: number;
-  maxPrice: number;
-  modalPrice: number;
+function exportFileName(filters: { state?: string; commodity?: string }, extension: string): string {
+  const parts = ['mandi-prices', filters.state, filters.commodity, new Date().toISOString().slice(0, 10)]
+    .filter(Boolean)
+    .map(part => part!.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''));
+  return `${parts.join('-')}.${extension}`;
 }
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const commodity = searchParams.get('commodity');
-    const state = searchParams.get('state');
-    const district = searchParams.get('district');
-    const market = searchParams.get('market');
-    const variety = searchParams.get('variety');
-    const grade = searchParams.get('grade');
-    const limit = searchParams.get('limit') || '50';
-    const offset = searchParams.get('offset') || '0';
-
-    const API_KEY = process.env.MANDI_PRICE_API_KEY;
-    const BASE_URL = 'https://api.data.gov.in/resource/9ef84268-d588-465a-a308-a864a43d0070';
-
-    if (!API_KEY) {
-      return NextResponse.json(
-        { error: 'Mandi Price API key not configured', prices: [], totalRecords: 0 },
-        { status: 500 }
-      );
+    const limitParam = searchParams.get('limit');
+    const offsetParam = searchParams.get('offset');
+    const pageParam = searchParams.get('page');
+    const format = searchParams.get('format') || 'json';
+    const sort = parseSort(searchParams);
+
+    if (!['json', 'csv', 'xlsx'].includes(format)) {
+      return NextResponse.json({ error: 'format must be json, csv or xlsx' }, { status: 400 });
     }
 
-    // Build query parameters
-    const queryParams = new URLSearchParams({
-      'api-key': API_KEY,
-      'format': 'json',
-      'limit': limit,
-      'offset': offset,
+    const requestedLimit = limitParam ? parseInt(limitParam, 10) || DEFAULT_MANDI_PRICE_LIMIT : DEFAULT_MANDI_PRICE_LIMIT;
+    const limit = Math.min(MAX_MANDI_PRICE_LIMIT, Math.max(1, requestedLimit));
+    // page (1-based) is a convenience over offset; an explicit offset wins
+    const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : undefined;
+    const offset = Math.max(0, offsetParam ? parseInt(offsetParam, 10) || 0 : page ? (page - 1) * limit : 0);
+
+    await loadMandiIndex();
+    const { query: filters, resolvedNames } = resolveMandiQuery({
+      commodity: searchParams.get('commodity') || undefined,
+      state: searchParams.get('state') || undefined,
+      district: searchParams.get('district') || undefined,
+      market: searchParams.get('market') || undefined,
+      variety: searchParams.get('variety') || undefined,
+      grade: searchParams.get('grade') || undefined,
     });
 
-    // Add filters if provided
-    if (state) {
-      queryParams.append('filters[state.keyword]', state);
-    }
-    if (district) {
-      queryParams.append('filters[district]', district);
-    }
-    if (market) {
-      queryParams.append('filters[market]', market);
-    }
-    if (commodity) {
-      queryParams.append('filters[commodity]', commodity);
-    }
-    if (variety) {
-      queryParams.append('filters[variety]', variety);
-    }
-    if (grade) {
-      queryParams.append('filters[grade]', grade);
-    }
-
-    const url = `${BASE_URL}?${queryParams.toString()}`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`API request failed with status: ${response.status}`);
-    }
-
-    const data = await response.json() as MandiPriceResponse;
-
-    if (!data.records || data.records.length === 0) {
-      return NextResponse.json({
-        totalRecords: 0,
-        prices: [],
-        summary: {
-          averageMinPrice: 0,
-          averageMaxPrice: 0,
-          averageModalPrice: 0,
-          priceRange: 'No data available',
-          marketsCount: 0,
-          districtsCount: 0,
-        },
+    // Downloads cover every matching record, not just one page
+    if (format !== 'json') {
+      const all = await fetchAllMandiPrices(filters);
+      const prices = sort ? sortPrices(all.prices, sort) : all.prices;
+      const rows = [EXPORT_COLUMNS.map(([header]) => header), ...prices.map(price => EXPORT_COLUMNS.map(([, value]) => value(price)))];
+      const headers = {
+        'Content-Disposition': `attachment; filename="${exportFileName(filters, format)}"`,
+        'X-Total-Records': String(all.totalRecords),
+        'X-Truncated': String(all.truncated),
+      };
+
+      if (format === 'csv') {
+        return new NextResponse(toCsv(rows), { headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' } });
+      }
+      return new NextResponse(new Uint8Array(toXlsx(rows, 'Mandi prices')), {
+        headers: { ...headers, 'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
       });
     }
 
-    // Process and clean the data
-    const prices: PriceData[] = data.records.map(record => ({
-      state: record.state,
-      district: record.district,
-      market: record.market,
-      commodity: record.commodity,
-      variety: record.variety,
-      grade: record.grade,
-      arrivalDate: record.arrival_date,
-      minPrice: parseFloat(record.min_price?.toString() || '0'),
-      maxPrice: parseFloat(record.max_price?.toString() || '0'),
-      modalPrice: parseFloat(record.modal_price?.toString() || '0'),
-    }));
-
-    // Calculate summary statistics
-    const validPrices = prices.filter(p => p.minPrice > 0 && p.maxPrice > 0);
-    const uniqueMarkets = new Set(prices.map(p => p.market));
-    const uniqueDistricts = new Set(prices.map(p => p.district));
-
-    const summary = {
-      averageMinPrice: validPrices.length > 0 
-        ? Math.round(validPrices.reduce((sum, p) => sum + p.minPrice, 0) / validPrices.length)
-        : 0,
-      averageMaxPrice: validPrices.length > 0
-        ? Math.round(validPrices.reduce((sum, p) => sum + p.maxPrice, 0) / validPrices.length)
-        : 0,
-      averageModalPrice: validPrices.length > 0
-        ? Math.round(validPrices.reduce((sum, p) => sum + p.modalPrice, 0) / validPrices.length)
-        : 0,
-      priceRange: validPrices.length > 0
-        ? `${Math.min(...validPrices.map(p => p.minPrice))} - ${Math.max(...validPrices.map(p => p.maxPrice))}`
-        : 'No valid prices',
-      marketsCount: uniqueMarkets.size,
-      districtsCount: uniqueDistricts.size,
-    };
+    const query = { ...filters, limit, offset };
+    // Unsorted pages come straight from the feed, so nothing is left out
+    const result = sort ? await fetchSortedMandiPrices(query, sort) : { ...(await fetchMandiPrices(query)), truncated: false };
 
     return NextResponse.json({
-      totalRecords: data.total || prices.length,
-      prices,
-      summary,
+      ...result,
+      page: Math.floor(offset / limit) + 1,
+      pageSize: limit,
+      totalPages: Math.ceil(result.totalRecords / limit),
+      sort: sort || null,
+      resolvedNames,
     });
 
   } catch (error) {
     console.error('Error fetching mandi prices:', error);
+    if (error instanceof MandiPriceError && error.code === 'missing-api-key') {
+      return NextResponse.json(
+        { error: error.message, prices: [], totalRecords: 0 },
+        { status: error.status }
+      );
+    }
     return NextResponse.json(
-      { 
-        error: 'Failed to fetch mandi prices', 
-        prices: [], 
+      {
+        error: 'Failed to fetch mandi prices',
+        prices: [],
         totalRecords: 0,
         message: error instanceof Error ? error.message : 'Unknown error'
       },
-      { status: 500 }
+      { status: error instanceof MandiPriceError ? error.status : 500 }
     );
   }
 }
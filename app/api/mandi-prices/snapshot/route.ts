@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { collectMandiSnapshot, MandiPriceError } from '../../../../mastra/services/mandi-price-service';
+
+/**
+ * Collect today's prices into the history store. Call once a day per commodity from a
+ * scheduler, e.g. POST /api/mandi-prices/snapshot?commodity=Wheat&state=Punjab.
+ * The shared secret MANDI_SNAPSHOT_TOKEN must be sent as a Bearer token; without it
+ * configured the route is disabled.
+ */
+export async function POST(request: NextRequest) {
+  const token = process.env.MANDI_SNAPSHOT_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Set MANDI_SNAPSHOT_TOKEN to enable collecting mandi snapshots' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  try {
+    const result = await collectMandiSnapshot({
+      commodity: searchParams.get('commodity') || undefined,
+      state: searchParams.get('state') || undefined,
+      district: searchParams.get('district') || undefined,
+      market: searchParams.get('market') || undefined,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error collecting mandi snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to collect mandi prices', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: error instanceof MandiPriceError ? error.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMandiPriceTrend } from '../../../../mastra/services/mandi-price-history';
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const commodity = searchParams.get('commodity');
+
+  if (!commodity) {
+    return NextResponse.json({ error: 'commodity parameter is required' }, { status: 400 });
+  }
+
+  try {
+    const trend = await getMandiPriceTrend({
+      commodity,
+      state: searchParams.get('state') || undefined,
+      district: searchParams.get('district') || undefined,
+      market: searchParams.get('market') || undefined,
+      variety: searchParams.get('variety') || undefined,
+    });
+    return NextResponse.json(trend);
+  } catch (error) {
+    console.error('Error reading mandi price trend:', error);
+    return NextResponse.json(
+      { error: 'Failed to read mandi price history', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkPriceAlerts } from '../../../../mastra/services/price-alert-checker';
+
+/**
+ * Check every price alert subscription against today's mandi prices, for an external
+ * cron (the server also runs the check itself, see startPriceAlertSchedule). The shared
+ * secret MANDI_SNAPSHOT_TOKEN must be sent as a Bearer token; without it configured the
+ * route is disabled.
+ */
+export async function POST(request: NextRequest) {
+  const token = process.env.MANDI_SNAPSHOT_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: 'Set MANDI_SNAPSHOT_TOKEN to enable triggering price alert checks' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await checkPriceAlerts());
+  } catch (error) {
+    console.error('Error checking price alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to check price alerts', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
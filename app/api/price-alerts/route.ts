@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadMandiIndex } from '../../../mastra/services/mandi-index';
+import { resolveMandiQuery } from '../../../mastra/services/mandi-name-resolver';
+import {
+  createPriceAlertSubscription,
+  getPriceAlertStore,
+  MAX_SUBSCRIPTIONS_PER_SUBSCRIBER,
+  priceAlertSubscriptionInputSchema,
+  toPublicSubscription,
+} from '../../../mastra/services/price-alerts';
+
+// Subscriptions and inbox of one subscriber (an id the browser generates and keeps).
+// Phone numbers and push endpoints are never sent back.
+export async function GET(request: NextRequest) {
+  const subscriberId = request.nextUrl.searchParams.get('subscriberId');
+  if (!subscriberId) {
+    return NextResponse.json({ error: 'subscriberId is required' }, { status: 400 });
+  }
+
+  try {
+    const store = getPriceAlertStore();
+    const [subscriptions, alerts] = await Promise.all([
+      store.listSubscriptions(subscriberId),
+      store.listAlerts(subscriberId),
+    ]);
+    return NextResponse.json({
+      subscriptions: subscriptions.map(toPublicSubscription),
+      alerts,
+      unreadCount: alerts.filter(alert => !alert.readAt).length,
+    });
+  } catch (error) {
+    console.error('Error loading price alerts:', error);
+    return NextResponse.json({ error: 'Failed to load price alerts' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = priceAlertSubscriptionInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid subscription', issues: parsed.error.issues }, { status: 400 });
+    }
+
+    const store = getPriceAlertStore();
+    const existing = await store.listSubscriptions(parsed.data.subscriberId);
+    if (existing.length >= MAX_SUBSCRIPTIONS_PER_SUBSCRIBER) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SUBSCRIPTIONS_PER_SUBSCRIBER} price alerts per subscriber` },
+        { status: 409 }
+      );
+    }
+
+    // Store canonical mandi names so the checker's queries match the feed
+    await loadMandiIndex();
+    const { query: input, resolvedNames } = resolveMandiQuery(parsed.data);
+    const subscription = createPriceAlertSubscription(input);
+    await store.saveSubscription(subscription);
+    return NextResponse.json({ subscription: toPublicSubscription(subscription), resolvedNames }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating price alert:', error);
+    return NextResponse.json({ error: 'Failed to create price alert' }, { status: 500 });
+  }
+}
+
+// Mark inbox entries read: { subscriberId, ids? }; without ids every unread alert is marked
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    if (!body?.subscriberId || typeof body.subscriberId !== 'string') {
+      return NextResponse.json({ error: 'subscriberId is required' }, { status: 400 });
+    }
+    const ids = Array.isArray(body.ids) ? body.ids.filter((id: unknown): id is string => typeof id === 'string') : undefined;
+    const marked = await getPriceAlertStore().markAlertsRead(body.subscriberId, ids);
+    return NextResponse.json({ marked });
+  } catch (error) {
+    console.error('Error updating price alerts:', error);
+    return NextResponse.json({ error: 'Failed to update price alerts' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const subscriberId = searchParams.get('subscriberId');
+  const id = searchParams.get('id');
+  if (!subscriberId || !id) {
+    return NextResponse.json({ error: 'subscriberId and id are required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await getPriceAlertStore().deleteSubscription(subscriberId, id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Price alert not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting price alert:', error);
+    return NextResponse.json({ error: 'Failed to delete price alert' }, { status: 500 });
+  }
+}
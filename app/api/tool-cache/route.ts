@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { getToolCacheMetrics } from '../../../mastra/services/tool-cache';
+
+// Hit/miss counters per tool since the server started
+export async function GET() {
+  return NextResponse.json({ metrics: getToolCacheMetrics() });
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getWeatherAlerts } from "../../../mastra/services/weather-alerts"
+import { WeatherServiceError } from "../../../mastra/services/weather-service"
+import { normalizeMainCrops } from "../../../lib/crops"
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const lat = searchParams.get("lat")
+    const lng = searchParams.get("lng")
+
+    const result = await getWeatherAlerts({
+      location: searchParams.get("location") || undefined,
+      latitude: lat ? parseFloat(lat) : undefined,
+      longitude: lng ? parseFloat(lng) : undefined,
+      crops: normalizeMainCrops(searchParams.get("crops")),
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Weather alerts API error:", error)
+    if (error instanceof WeatherServiceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    return NextResponse.json({ error: "Failed to check weather alerts" }, { status: 500 })
+  }
+}
@@ -5,7 +5,9 @@ import { EnhancedChatMessages } from "@/components/enhanced-chat-messages"
 import { EnhancedChatInput } from "@/components/enhanced-chat-input"
 import { MobileHeader } from "@/components/mobile-header"
 import { WeatherSection } from "@/components/weather-section"
+import { WeatherAlerts } from "@/components/weather-alerts"
 import { MandiPriceTable } from "@/components/mandi-price-table"
+import { PriceAlertsInbox } from "@/components/price-alerts-inbox"
 // Market price section will be used in future features
 // import { MarketPriceSection } from "@/components/market-price-section"
 import { OnboardingFlow } from "@/components/onboarding-flow"
@@ -413,6 +415,13 @@ export default function Home() {
           <>
             <div className="flex-1 overflow-y-auto">
               <div className="space-y-4">
+                {/* Severe weather alerts - pinned above everything else */}
+                <WeatherAlerts
+                  location={selectedLocation}
+                  crops={userData?.mainCrops}
+                  className="px-4 pt-4 max-w-3xl mx-auto"
+                />
+
                 <WeatherSection 
                   location={selectedLocation || "Unknown Location"}
                   onGetAdvice={({ date }) => {
@@ -428,6 +437,11 @@ export default function Home() {
                 <div className="px-4">
                   <MandiPriceTable className="max-w-3xl mx-auto" />
                 </div>
+
+                {/* Price alerts inbox - alongside the market prices */}
+                <div className="px-4">
+                  <PriceAlertsInbox className="max-w-3xl mx-auto" />
+                </div>
                 
                 {/* Suggested queries block on home */}
                 <div className="px-4">
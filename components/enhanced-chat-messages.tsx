@@ -8,6 +8,7 @@ import { Bot, Leaf, User, CloudSun, IndianRupee, BookOpenText, Database, Loader2
 import { cn } from "@/lib/utils";
 import Image from "next/image";
 import { useTranslation } from "@/hooks/use-translation";
+import { Source, Sources, SourcesContent, SourcesTrigger } from "@/components/ai-elements/source";
 
 interface DisplayToolCall {
   id: string;
@@ -306,7 +307,9 @@ export function EnhancedChatMessages({
               });
             }
 
-            const filteredParts = message.parts.filter(p => p.type !== 'tool-call' && p.type !== 'tool-result');
+            const filteredParts = message.parts.filter(p => p.type !== 'tool-call' && p.type !== 'tool-result' && p.type !== 'source-url');
+            // Web research citations, listed once under the answer
+            const sourceParts = message.parts.filter(p => p.type === 'source-url' && p.url);
 
             return (
               <div key={message.id} className="space-y-2 min-w-0">
@@ -411,6 +414,16 @@ export function EnhancedChatMessages({
                             return null;
                         }
                       })}
+                      {sourceParts.length > 0 && (
+                        <Sources className="mt-3 mb-0">
+                          <SourcesTrigger count={sourceParts.length} />
+                          <SourcesContent>
+                            {sourceParts.map((part, i) => (
+                              <Source key={i} href={part.url} title={part.title || part.url} />
+                            ))}
+                          </SourcesContent>
+                        </Sources>
+                      )}
                     </Card>
                     <span className="text-xs text-muted-foreground px-1 break-words">
                       {formatTime(new Date())}
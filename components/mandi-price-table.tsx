@@ -6,9 +6,10 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Skeleton } from './ui/skeleton';
-import { RefreshCw, X, Search, TrendingUp, TrendingDown } from 'lucide-react';
+import { RefreshCw, X, Search, TrendingUp, TrendingDown, Download, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useTranslation } from '@/hooks/use-translation';
-import mandiIndex from '@/mastra/index/mandi-index.json';
+import bundledMandiIndex from '@/mastra/index/mandi-index.json';
+import { commoditiesFor, districtsFor, marketsFor, type MandiIndex } from '@/lib/mandi-index';
 
 interface PriceRecord {
   state: string;
@@ -27,6 +28,19 @@ interface MandiPriceTableProps {
   className?: string;
 }
 
+const PAGE_SIZE = 25;
+
+// Sort options as "field:order"; "default" keeps the feed's own order
+const SORT_OPTIONS = [
+  { value: 'default', label: 'Default order' },
+  { value: 'modalPrice:desc', label: 'Modal price: high to low' },
+  { value: 'modalPrice:asc', label: 'Modal price: low to high' },
+  { value: 'minPrice:asc', label: 'Min price: low to high' },
+  { value: 'maxPrice:desc', label: 'Max price: high to low' },
+  { value: 'arrivalDate:desc', label: 'Newest arrivals' },
+  { value: 'arrivalDate:asc', label: 'Oldest arrivals' },
+];
+
 export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = '' }) => {
   const { t } = useTranslation();
   const [prices, setPrices] = useState<PriceRecord[]>([]);
@@ -36,26 +50,95 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
   // Filter states
   const [selectedState, setSelectedState] = useState<string>('all');
   const [selectedDistrict, setSelectedDistrict] = useState<string>('all');
+  const [selectedMarket, setSelectedMarket] = useState<string>('all');
   const [selectedCommodity, setSelectedCommodity] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [isExpanded, setIsExpanded] = useState(false);
+  const [sortKey, setSortKey] = useState<string>('default');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [totalRecords, setTotalRecords] = useState(0);
+
+  const [mandiIndex, setMandiIndex] = useState<MandiIndex>(bundledMandiIndex as MandiIndex);
+
+  // Cascading filter values: districts of the chosen state, markets of the chosen district,
+  // and the commodities traded there
+  const scopeOf = (state: string, district = 'all', market = 'all') => ({
+    state: state !== 'all' ? state : undefined,
+    district: district !== 'all' ? district : undefined,
+    market: market !== 'all' ? market : undefined,
+  });
+  const scope = scopeOf(selectedState, selectedDistrict, selectedMarket);
+  const states = mandiIndex.states.map(state => state.name);
+  const districts = districtsFor(mandiIndex, scope.state);
+  const markets = marketsFor(mandiIndex, scope);
+  const commodities = commoditiesFor(mandiIndex, scope);
 
-  // Get unique values for filters
-  const states = mandiIndex.State || [];
-  const districts = mandiIndex.District || [];
-  const commodities = mandiIndex.Commodity || [];
+  // Keep the commodity only if it is still traded in the narrowed scope
+  const keepCommodityIn = (nextScope: ReturnType<typeof scopeOf>) => {
+    if (selectedCommodity !== 'all' && !commoditiesFor(mandiIndex, nextScope).includes(selectedCommodity)) {
+      setSelectedCommodity('all');
+    }
+  };
 
-  // Fetch mandi prices
-  const fetchMandiPrices = async () => {
+  const handleStateChange = (state: string) => {
+    setSelectedState(state);
+    setSelectedDistrict('all');
+    setSelectedMarket('all');
+    keepCommodityIn(scopeOf(state));
+  };
+
+  const handleDistrictChange = (district: string) => {
+    setSelectedDistrict(district);
+    setSelectedMarket('all');
+    keepCommodityIn(scopeOf(selectedState, district));
+  };
+
+  const handleMarketChange = (market: string) => {
+    setSelectedMarket(market);
+    keepCommodityIn(scopeOf(selectedState, selectedDistrict, market));
+  };
+
+  // Pick up the latest refreshed index from the server; the bundled copy is used until then
+  useEffect(() => {
+    fetch('/api/mandi-prices/index')
+      .then(response => (response.ok ? response.json() : null))
+      .then((index: MandiIndex | null) => {
+        if (index && Array.isArray(index.states)) setMandiIndex(index);
+      })
+      .catch(e => console.error('Failed to load mandi index:', e));
+  }, []);
+
+  // Filter and sort params shared by the page fetch and the CSV/XLSX downloads
+  const buildQueryParams = () => {
+    const params = new URLSearchParams();
+    if (selectedState && selectedState !== 'all') params.append('state', selectedState);
+    if (selectedDistrict && selectedDistrict !== 'all') params.append('district', selectedDistrict);
+    if (selectedMarket && selectedMarket !== 'all') params.append('market', selectedMarket);
+    if (selectedCommodity && selectedCommodity !== 'all') params.append('commodity', selectedCommodity);
+    if (sortKey !== 'default') {
+      const [field, order] = sortKey.split(':');
+      params.append('sort', field);
+      params.append('order', order);
+    }
+    return params;
+  };
+
+  const exportUrl = (format: 'csv' | 'xlsx') => {
+    const params = buildQueryParams();
+    params.append('format', format);
+    return `/api/mandi-prices?${params.toString()}`;
+  };
+
+  // Fetch one page of mandi prices
+  const fetchMandiPrices = async (targetPage = page) => {
     setIsLoading(true);
     setError(null);
     
     try {
-      const params = new URLSearchParams();
-      if (selectedState && selectedState !== 'all') params.append('state', selectedState);
-      if (selectedDistrict && selectedDistrict !== 'all') params.append('district', selectedDistrict);
-      if (selectedCommodity && selectedCommodity !== 'all') params.append('commodity', selectedCommodity);
-      params.append('limit', '50');
+      const params = buildQueryParams();
+      params.append('limit', String(PAGE_SIZE));
+      params.append('page', String(targetPage));
       
       const response = await fetch(`/api/mandi-prices?${params.toString()}`);
       
@@ -65,6 +148,9 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
       
       const data = await response.json();
       setPrices(data.prices || []);
+      setPage(data.page || targetPage);
+      setTotalPages(data.totalPages || 0);
+      setTotalRecords(data.totalRecords || 0);
       
       if (!data.prices || data.prices.length === 0) {
         setError('No price data found for selected filters');
@@ -72,6 +158,8 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load mandi prices');
       setPrices([]);
+      setTotalPages(0);
+      setTotalRecords(0);
     } finally {
       setIsLoading(false);
     }
@@ -94,16 +182,22 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
       }
       
       // Fetch initial data only if no location was set
-      fetchMandiPrices();
+      fetchMandiPrices(1);
     };
     
     loadInitialData();
   }, []);
 
-  // Auto-apply filters whenever they change
+  // Auto-apply filters and sorting whenever they change, starting again from the first page
   useEffect(() => {
-    fetchMandiPrices();
-  }, [selectedState, selectedDistrict, selectedCommodity]);
+    fetchMandiPrices(1);
+  }, [selectedState, selectedDistrict, selectedMarket, selectedCommodity, sortKey]);
+
+  const goToPage = (targetPage: number) => {
+    if (targetPage < 1 || (totalPages > 0 && targetPage > totalPages)) return;
+    setIsExpanded(true);
+    fetchMandiPrices(targetPage);
+  };
 
   // Filter prices based on search query
   const filteredPrices = prices.filter(price => {
@@ -123,11 +217,13 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
   const handleClearFilters = () => {
     setSelectedState('all');
     setSelectedDistrict('all');
+    setSelectedMarket('all');
     setSelectedCommodity('all');
     setSearchQuery('');
+    setSortKey('default');
   };
 
-  const hasActiveFilters = (selectedState !== 'all') || (selectedDistrict !== 'all') || (selectedCommodity !== 'all') || searchQuery;
+  const hasActiveFilters = (selectedState !== 'all') || (selectedDistrict !== 'all') || (selectedMarket !== 'all') || (selectedCommodity !== 'all') || searchQuery;
 
   // Show component if loading, has data, or has active filters
   const shouldShowComponent = isLoading || filteredPrices.length > 0 || hasActiveFilters;
@@ -196,7 +292,7 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
             <Button
               variant="ghost"
               size="sm"
-              onClick={fetchMandiPrices}
+              onClick={() => fetchMandiPrices()}
               className="h-7 px-2"
               disabled={isLoading}
               title="Refresh prices"
@@ -207,8 +303,8 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
         </div>
 
         {/* Filters */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mt-3">
-          <Select value={selectedState} onValueChange={setSelectedState}>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mt-3">
+          <Select value={selectedState} onValueChange={handleStateChange}>
             <SelectTrigger className="h-9 text-xs">
               <SelectValue placeholder="Select State" />
             </SelectTrigger>
@@ -222,7 +318,7 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
             </SelectContent>
           </Select>
 
-          <Select value={selectedDistrict} onValueChange={setSelectedDistrict}>
+          <Select value={selectedDistrict} onValueChange={handleDistrictChange}>
             <SelectTrigger className="h-9 text-xs">
               <SelectValue placeholder="Select District" />
             </SelectTrigger>
@@ -236,6 +332,20 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
             </SelectContent>
           </Select>
 
+          <Select value={selectedMarket} onValueChange={handleMarketChange}>
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue placeholder="Select Market" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Markets</SelectItem>
+              {markets.map((market) => (
+                <SelectItem key={market} value={market}>
+                  {market}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <Select value={selectedCommodity} onValueChange={setSelectedCommodity}>
             <SelectTrigger className="h-9 text-xs">
               <SelectValue placeholder="Select Commodity" />
@@ -261,6 +371,36 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
             />
           </div>
         </div>
+
+        {/* Sorting and downloads */}
+        <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+          <Select value={sortKey} onValueChange={setSortKey}>
+            <SelectTrigger className="h-8 w-56 text-xs">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="outline" size="sm" className="h-8 px-2 text-xs" title="Download all matching records as CSV">
+              <a href={exportUrl('csv')} download>
+                <Download className="w-3 h-3 mr-1" />
+                CSV
+              </a>
+            </Button>
+            <Button asChild variant="outline" size="sm" className="h-8 px-2 text-xs" title="Download all matching records as Excel">
+              <a href={exportUrl('xlsx')} download>
+                <Download className="w-3 h-3 mr-1" />
+                XLSX
+              </a>
+            </Button>
+          </div>
+        </div>
       </CardHeader>
 
       <CardContent className="relative">
@@ -276,7 +416,7 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
             <Button
               variant="outline"
               size="sm"
-              onClick={fetchMandiPrices}
+              onClick={() => fetchMandiPrices()}
               className="mt-2"
             >
               Try Again
@@ -408,10 +548,37 @@ export const MandiPriceTable: React.FC<MandiPriceTableProps> = ({ className = ''
               </div>
             )}
 
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="mt-3 flex items-center justify-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToPage(page - 1)}
+                  disabled={page <= 1 || isLoading}
+                  className="h-7 px-2 text-xs"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </Button>
+                <span className="text-xs text-gray-600">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => goToPage(page + 1)}
+                  disabled={page >= totalPages || isLoading}
+                  className="h-7 px-2 text-xs"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </Button>
+              </div>
+            )}
+
             {/* Summary */}
             {filteredPrices.length > 0 && (
               <div className="mt-3 pt-3 border-t border-emerald-200 text-[11px] text-gray-600 text-center">
-                Showing {displayedPrices.length} of {filteredPrices.length} records
+                Showing {displayedPrices.length} of {totalRecords || filteredPrices.length} records
                 {selectedState !== 'all' && ` in ${selectedState}`}
               </div>
             )}
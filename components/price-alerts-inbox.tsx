@@ -0,0 +1,276 @@
+"use client"
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Bell, BellRing, Check, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import bundledMandiIndex from '@/mastra/index/mandi-index.json';
+import type { MandiIndex } from '@/lib/mandi-index';
+import { useTranslation } from '@/hooks/use-translation';
+
+type ConditionType = 'above' | 'below' | 'percent-change';
+
+interface AlertSubscription {
+  id: string;
+  commodity: string;
+  state?: string;
+  district?: string;
+  market?: string;
+  condition: { type: ConditionType; price?: number; percent?: number };
+  lastPrice?: number;
+}
+
+interface InboxAlert {
+  id: string;
+  message: string;
+  arrivalDate: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+interface PriceAlertsInboxProps {
+  className?: string;
+}
+
+const SUBSCRIBER_ID_KEY = 'cropwise-alert-subscriber-id';
+
+// Alerts are tied to this browser until there are user accounts
+function getSubscriberId(): string {
+  let id = localStorage.getItem(SUBSCRIBER_ID_KEY);
+  if (!id) {
+    id = `subscriber-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+    localStorage.setItem(SUBSCRIBER_ID_KEY, id);
+  }
+  return id;
+}
+
+export const PriceAlertsInbox: React.FC<PriceAlertsInboxProps> = ({ className = '' }) => {
+  const { t } = useTranslation();
+  const [subscriberId, setSubscriberId] = useState<string | null>(null);
+  const [subscriptions, setSubscriptions] = useState<AlertSubscription[]>([]);
+  const [alerts, setAlerts] = useState<InboxAlert[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+
+  // New subscription form
+  const [commodity, setCommodity] = useState<string>('');
+  const [market, setMarket] = useState<string>('');
+  const [conditionType, setConditionType] = useState<ConditionType>('above');
+  const [threshold, setThreshold] = useState<string>('');
+  const [stateName, setStateName] = useState<string | undefined>(undefined);
+
+  const commodities = (bundledMandiIndex as MandiIndex).commodities;
+
+  const describeCondition = (condition: AlertSubscription['condition']) => {
+    if (condition.type === 'percent-change') return t('priceAlertConditionPercent', { percent: String(condition.percent) });
+    return t(condition.type === 'above' ? 'priceAlertConditionAbove' : 'priceAlertConditionBelow', { price: String(condition.price) });
+  };
+
+  useEffect(() => {
+    setSubscriberId(getSubscriberId());
+    try {
+      const locationData = localStorage.getItem('cropwise-selected-location');
+      if (locationData) setStateName(JSON.parse(locationData).stateName || undefined);
+    } catch (e) {
+      console.error('Failed to load location:', e);
+    }
+  }, []);
+
+  const loadAlerts = useCallback(async () => {
+    if (!subscriberId) return;
+    setIsLoading(true);
+    setLoadFailed(false);
+    try {
+      const response = await fetch(`/api/price-alerts?subscriberId=${encodeURIComponent(subscriberId)}`);
+      if (!response.ok) throw new Error(`Price alerts request failed with status ${response.status}`);
+      const data = await response.json();
+      setSubscriptions(data.subscriptions || []);
+      setAlerts(data.alerts || []);
+      setUnreadCount(data.unreadCount || 0);
+    } catch (err) {
+      console.error('Failed to load price alerts:', err);
+      setLoadFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [subscriberId]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const handleAdd = async () => {
+    const value = parseFloat(threshold);
+    if (!subscriberId || !commodity || !(value > 0)) return;
+    setError(null);
+    try {
+      const response = await fetch('/api/price-alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          subscriberId,
+          commodity,
+          market: market.trim() || undefined,
+          // Without a market the alert follows the farmer's state average
+          state: market.trim() ? undefined : stateName,
+          condition: conditionType === 'percent-change'
+            ? { type: conditionType, percent: value }
+            : { type: conditionType, price: value },
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || t('priceAlertCreateFailed'));
+      setThreshold('');
+      setMarket('');
+      setIsAdding(false);
+      await loadAlerts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('priceAlertCreateFailed'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!subscriberId) return;
+    await fetch(`/api/price-alerts?subscriberId=${encodeURIComponent(subscriberId)}&id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+    setSubscriptions(prev => prev.filter(subscription => subscription.id !== id));
+  };
+
+  const handleMarkAllRead = async () => {
+    if (!subscriberId || unreadCount === 0) return;
+    await fetch('/api/price-alerts', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ subscriberId }),
+    });
+    const now = new Date().toISOString();
+    setAlerts(prev => prev.map(alert => ({ ...alert, readAt: alert.readAt || now })));
+    setUnreadCount(0);
+  };
+
+  return (
+    <Card className={`${className} bg-card border-emerald-200/70`}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-semibold text-emerald-800 flex items-center gap-2">
+            {unreadCount > 0 ? <BellRing className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+            {t('priceAlerts')}
+            {unreadCount > 0 && <Badge className="bg-emerald-600">{t('priceAlertsNewCount', { count: String(unreadCount) })}</Badge>}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {unreadCount > 0 && (
+              <Button variant="ghost" size="sm" onClick={handleMarkAllRead} className="h-7 px-2 text-xs" title={t('priceAlertsMarkRead')}>
+                <Check className="w-3 h-3 mr-1" />
+                {t('priceAlertsRead')}
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setIsAdding(!isAdding)} className="h-7 px-2 text-xs" title={t('priceAlertsAdd')}>
+              <Plus className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={loadAlerts} className="h-7 px-2" disabled={isLoading} title={t('priceAlertsRefresh')}>
+              <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        {isAdding && (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2 mt-3">
+            <Select value={commodity} onValueChange={setCommodity}>
+              <SelectTrigger className="h-9 text-xs">
+                <SelectValue placeholder={t('priceAlertsCommodity')} />
+              </SelectTrigger>
+              <SelectContent>
+                {commodities.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="text"
+              placeholder={stateName ? t('priceAlertsMarketDefault', { state: stateName }) : t('priceAlertsMarketOptional')}
+              value={market}
+              onChange={(e) => setMarket(e.target.value)}
+              className="h-9 text-xs"
+            />
+            <Select value={conditionType} onValueChange={(value) => setConditionType(value as ConditionType)}>
+              <SelectTrigger className="h-9 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="above">{t('priceAlertAbove')}</SelectItem>
+                <SelectItem value="below">{t('priceAlertBelow')}</SelectItem>
+                <SelectItem value="percent-change">{t('priceAlertPercentChange')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              placeholder={conditionType === 'percent-change' ? t('priceAlertPercentPlaceholder') : t('priceAlertPricePlaceholder')}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="h-9 text-xs"
+            />
+            <Button size="sm" onClick={handleAdd} disabled={!commodity || !threshold} className="h-9 text-xs">
+              {t('priceAlertAddButton')}
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {(error || loadFailed) && <p className="text-xs text-red-600">{error || t('priceAlertsLoadFailed')}</p>}
+
+        {alerts.length === 0 ? (
+          <p className="text-center py-3 text-sm text-gray-500">
+            {subscriptions.length > 0 ? t('priceAlertsNoneYet') : t('priceAlertsEmpty')}
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {alerts.slice(0, 10).map((alert) => (
+              <li
+                key={alert.id}
+                className={`rounded-lg border p-2 text-xs ${alert.readAt ? 'border-gray-200 text-gray-600' : 'border-emerald-300 bg-emerald-50 text-gray-900'}`}
+              >
+                <p>{alert.message}</p>
+                <p className="mt-1 text-[10px] text-gray-500">
+                  {t('priceAlertArrivals', { date: alert.arrivalDate })} · {new Date(alert.createdAt).toLocaleString('en-IN', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {subscriptions.length > 0 && (
+          <div className="pt-3 border-t border-emerald-200">
+            <p className="text-[11px] font-semibold text-emerald-800 mb-2">{t('priceAlertsWatching')}</p>
+            <div className="flex flex-wrap gap-2">
+              {subscriptions.map((subscription) => (
+                <span
+                  key={subscription.id}
+                  className="inline-flex items-center gap-1 rounded-full border border-emerald-200 px-2 py-1 text-[11px] text-gray-700"
+                >
+                  {subscription.commodity} · {subscription.market || subscription.district || subscription.state || t('priceAlertAllIndia')} · {describeCondition(subscription.condition)}
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(subscription.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    title={t('priceAlertRemove')}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,114 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useSelectedLocation } from "@/hooks/use-selected-location"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle, CloudHail, CloudRain, Snowflake, ThermometerSun, Wind } from "lucide-react"
+import { useTranslation } from "@/hooks/use-translation"
+import type { WeatherAlert, WeatherAlertReport, WeatherHazard } from "@/mastra/services/weather-alerts"
+
+interface WeatherAlertsProps {
+  location?: string
+  crops?: string[]
+  className?: string
+}
+
+const HAZARD_ICONS: Record<WeatherHazard, typeof CloudRain> = {
+  heavyRainfall: CloudRain,
+  hailstorm: CloudHail,
+  heatWave: ThermometerSun,
+  coldWave: Snowflake,
+  strongGusts: Wind,
+}
+
+// Cards stay pinned while the forecast shows a hazard; nothing renders on quiet weeks
+export function WeatherAlerts({ location, crops = [], className }: WeatherAlertsProps) {
+  const { t } = useTranslation()
+  const { address } = useSelectedLocation()
+  const [alerts, setAlerts] = useState<WeatherAlert[]>([])
+  const cropsParam = crops.join(",")
+
+  useEffect(() => {
+    let cancelled = false
+    const fetchAlerts = async () => {
+      const params = new URLSearchParams()
+      try {
+        const locationData = JSON.parse(localStorage.getItem("cropwise-selected-location") || "null")
+        if (locationData?.lat && locationData?.lng) {
+          params.set("lat", String(locationData.lat))
+          params.set("lng", String(locationData.lng))
+        }
+      } catch {
+        // Fall back to the location name
+      }
+      if (!params.has("lat")) {
+        const name = address || location
+        if (!name) return
+        params.set("location", name)
+      }
+      if (cropsParam) params.set("crops", cropsParam)
+
+      try {
+        const response = await fetch(`/api/weather-alerts?${params.toString()}`)
+        if (!response.ok) throw new Error("Failed to fetch weather alerts")
+        const data: WeatherAlertReport = await response.json()
+        if (!cancelled) setAlerts(data.alerts)
+      } catch (err) {
+        console.error("Weather alerts fetch error:", err)
+        if (!cancelled) setAlerts([])
+      }
+    }
+    fetchAlerts()
+    return () => {
+      cancelled = true
+    }
+  }, [address, location, cropsParam])
+
+  if (alerts.length === 0) return null
+
+  const formatDates = (alert: WeatherAlert) => {
+    const format = (date: string) => new Date(date).toLocaleDateString(undefined, { day: "numeric", month: "short" })
+    return alert.startDate === alert.endDate ? format(alert.startDate) : `${format(alert.startDate)} – ${format(alert.endDate)}`
+  }
+
+  return (
+    <div className={`space-y-3 ${className || ""}`}>
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+        <AlertTriangle className="h-4 w-4 text-red-500" />
+        {t("weatherAlerts")}
+      </h2>
+      {alerts.map((alert) => {
+        const Icon = HAZARD_ICONS[alert.hazard]
+        const severe = alert.severity === "severe"
+        return (
+          <Card key={alert.id} className={`p-4 border ${severe ? "bg-red-50 border-red-200" : "bg-amber-50 border-amber-200"}`}>
+            <div className="flex items-start gap-3">
+              <Icon className={`h-6 w-6 flex-shrink-0 ${severe ? "text-red-600" : "text-amber-600"}`} />
+              <div className="flex-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-gray-900">{t(alert.hazard)}</span>
+                  <Badge variant={severe ? "destructive" : "secondary"}>{t(severe ? "alertSevere" : "alertWarning")}</Badge>
+                  <span className="text-xs text-gray-600">
+                    {formatDates(alert)}
+                    {alert.peak && ` · ${alert.peak.value} ${alert.peak.unit}`}
+                  </span>
+                </div>
+                {alert.affectedCrops.length > 0 && (
+                  <p className="mt-1 text-xs font-medium text-gray-700">
+                    {t("cropsAtRisk", { crops: alert.affectedCrops.join(", ") })}
+                  </p>
+                )}
+                <ul className="mt-2 list-disc pl-4 space-y-1 text-sm text-gray-700">
+                  {alert.actions.map((action) => (
+                    <li key={action}>{t(action)}</li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
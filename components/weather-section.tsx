@@ -4,39 +4,38 @@ import { useState, useEffect, useCallback } from "react"
 import { useSelectedLocation } from "@/hooks/use-selected-location"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
-import { Cloud, Wind, Droplets, Compass, Loader2, Sun, CloudSun, CloudRain, CloudDrizzle, CloudSnow, CloudLightning, CloudFog } from "lucide-react"
+import { Cloud, Wind, Droplets, Compass, Loader2, Sun, CloudSun, CloudRain, CloudDrizzle, CloudSnow, CloudLightning, CloudFog, Thermometer } from "lucide-react"
 // Location input will be used in future features
 // import { LocationInput } from "./location-input"
 import { useTranslation } from "@/hooks/use-translation"
+import { weatherConditionGroup, WEATHER_CONDITIONS, type WeatherCondition } from "@/lib/weather-conditions"
+import type { WeatherReport } from "@/mastra/services/weather-service"
+import type { ClimateComparison, ClimateSeason, RainfallCategory } from "@/mastra/services/climate-normals"
 
 interface WeatherSectionProps {
   location?: string // deprecated: kept for backward compatibility, ignored if selected-location exists
   onGetAdvice?: (payload: { date: string; index: number; label: string }) => void
 }
 
-interface WeatherData {
-  location: string
-  currentWeather: {
-    temperature: number
-    feelsLike: number
-    humidity: number
-    windSpeed: number
-    windGust: number
-    conditions: string
-  }
-  forecast: Array<{
-    date: string
-    maxTemp: number
-    minTemp: number
-    maxFeelsLike: number
-    minFeelsLike: number
-    precipitation: number
-    precipitationChance: number
-    maxWindSpeed: number
-    maxWindGust: number
-    conditions: string
-  }>
-}
+type WeatherData = WeatherReport
+
+const SEASON_KEYS = {
+  winter: "seasonWinter",
+  preMonsoon: "seasonPreMonsoon",
+  monsoon: "seasonMonsoon",
+  postMonsoon: "seasonPostMonsoon",
+} as const satisfies Record<ClimateSeason, string>
+
+const RAINFALL_CATEGORY_KEYS = {
+  largeExcess: "rainfallLargeExcess",
+  excess: "rainfallExcess",
+  normal: "normal",
+  deficient: "rainfallDeficient",
+  largeDeficient: "rainfallLargeDeficient",
+  noRain: "rainfallNoRain",
+} as const satisfies Record<RainfallCategory, string>
+
+const signed = (value: number, unit: string) => `${value > 0 ? "+" : ""}${value}${unit}`
 
 export function WeatherSection({ location: initialLocation, onGetAdvice }: WeatherSectionProps) {
   const { t } = useTranslation()
@@ -48,6 +47,7 @@ export function WeatherSection({ location: initialLocation, onGetAdvice }: Weath
   const [location, setLocation] = useState(initialLocation)
   const [cityName, setCityName] = useState<string>('')
   const [stateName, setStateName] = useState<string>('')
+  const [climate, setClimate] = useState<ClimateComparison | null>(null)
 
   const fetchWeather = useCallback(async () => {
     if (!location) return
@@ -107,6 +107,31 @@ export function WeatherSection({ location: initialLocation, onGetAdvice }: Weath
     if (effective) fetchWeather()
   }, [address, city, state, initialLocation, location, fetchWeather])
 
+  // Season-to-date comparison needs precise coordinates, so it only shows for a stored location
+  useEffect(() => {
+    let cancelled = false
+    const fetchClimate = async () => {
+      try {
+        const locationData = JSON.parse(localStorage.getItem('cropwise-selected-location') || 'null')
+        if (!locationData?.lat || !locationData?.lng) {
+          setClimate(null)
+          return
+        }
+        const response = await fetch(`/api/climate-normals?lat=${locationData.lat}&lng=${locationData.lng}`)
+        if (!response.ok) throw new Error("Failed to fetch climate normals")
+        const data = await response.json()
+        if (!cancelled) setClimate(data)
+      } catch (err) {
+        console.error("Climate normals fetch error:", err)
+        if (!cancelled) setClimate(null)
+      }
+    }
+    fetchClimate()
+    return () => {
+      cancelled = true
+    }
+  }, [address])
+
   // Listen for localStorage changes to update weather automatically
   // Storage listener handled by useSelectedLocation
 
@@ -126,22 +151,25 @@ export function WeatherSection({ location: initialLocation, onGetAdvice }: Weath
 
   const currentDayWeather = weatherData?.forecast[selectedDay] || weatherData?.currentWeather
 
-  // Map condition keys (from API) to icons
-  const getConditionIcon = (key?: string) => {
-    if (!key) return <Cloud className="h-8 w-8 text-emerald-500" />
-    const k = key.toLowerCase()
-    if (k.includes('thunder')) return <CloudLightning className="h-8 w-8 text-yellow-500" />
-    if (k.includes('violent')) return <CloudLightning className="h-8 w-8 text-yellow-600" />
-    if (k.includes('hail')) return <CloudLightning className="h-8 w-8 text-yellow-500" />
-    if (k.includes('snow') || k.includes('freezing')) return <CloudSnow className="h-8 w-8 text-sky-500" />
-    if (k.includes('drizzle')) return <CloudDrizzle className="h-8 w-8 text-sky-500" />
-    if (k.includes('shower')) return <CloudRain className="h-8 w-8 text-blue-500" />
-    if (k.includes('rain')) return <CloudRain className="h-8 w-8 text-blue-500" />
-    if (k.includes('fog')) return <CloudFog className="h-8 w-8 text-gray-500" />
-    if (k.includes('clear')) return <Sun className="h-8 w-8 text-amber-400" />
-    if (k.includes('partly') || k.includes('mainly')) return <CloudSun className="h-8 w-8 text-amber-300" />
-    if (k.includes('overcast') || k.includes('cloud')) return <Cloud className="h-8 w-8 text-gray-500" />
-    return <Cloud className="h-8 w-8 text-emerald-500" />
+  // Conditions arrive as condition keys; icons and text are picked only here
+  const getConditionIcon = (condition?: WeatherCondition) => {
+    if (!condition) return <Cloud className="h-8 w-8 text-emerald-500" />
+    switch (weatherConditionGroup(condition)) {
+      case 'thunderstorm': return <CloudLightning className="h-8 w-8 text-yellow-500" />
+      case 'snow': return <CloudSnow className="h-8 w-8 text-sky-500" />
+      case 'drizzle': return <CloudDrizzle className="h-8 w-8 text-sky-500" />
+      case 'rain': return <CloudRain className="h-8 w-8 text-blue-500" />
+      case 'fog': return <CloudFog className="h-8 w-8 text-gray-500" />
+      case 'clear': return <Sun className="h-8 w-8 text-amber-400" />
+      case 'partlyCloudy': return <CloudSun className="h-8 w-8 text-amber-300" />
+      case 'cloudy': return <Cloud className="h-8 w-8 text-gray-500" />
+      default: return <Cloud className="h-8 w-8 text-emerald-500" />
+    }
+  }
+
+  const getConditionLabel = (condition?: WeatherCondition) => {
+    if (!condition) return ''
+    return t(WEATHER_CONDITIONS.includes(condition) ? condition : 'unknownCondition')
   }
 
   if (loading) {
@@ -212,34 +240,7 @@ export function WeatherSection({ location: initialLocation, onGetAdvice }: Weath
                 </span>
               </div>
               <span className="text-gray-600 text-sm font-medium capitalize">
-                {(() => {
-                  const key = selectedDay === 0 ? weatherData?.currentWeather.conditions : currentDayWeather?.conditions;
-                  if (!key) return '';
-                  
-                  // Create a mapping function to handle weather conditions
-                  const getWeatherTranslation = (condition: string): string => {
-                    // Convert condition to lowercase and check for known patterns
-                    const lowerCondition = condition.toLowerCase();
-                    
-                    // Map common weather conditions to translation keys
-                    if (lowerCondition.includes('clear')) return t('clearSky');
-                    if (lowerCondition.includes('rain') && lowerCondition.includes('light')) return t('lightRain');
-                    if (lowerCondition.includes('rain') && lowerCondition.includes('heavy')) return t('heavyRain');
-                    if (lowerCondition.includes('rain')) return t('moderateRain');
-                    if (lowerCondition.includes('cloud') && lowerCondition.includes('partly')) return t('partlyCloudy');
-                    if (lowerCondition.includes('cloud')) return t('cloudy');
-                    if (lowerCondition.includes('overcast')) return t('overcast');
-                    if (lowerCondition.includes('fog')) return t('foggy');
-                    if (lowerCondition.includes('drizzle')) return t('lightDrizzle');
-                    if (lowerCondition.includes('snow')) return t('slightSnow');
-                    if (lowerCondition.includes('thunder')) return t('thunderstorm');
-                    
-                    // Fallback to the original condition string if no translation found
-                    return condition;
-                  };
-                  
-                  return getWeatherTranslation(key);
-                })()}
+                {getConditionLabel(selectedDay === 0 ? weatherData?.currentWeather.conditions : currentDayWeather?.conditions)}
               </span>
             </div>
           </div>
@@ -298,6 +299,51 @@ export function WeatherSection({ location: initialLocation, onGetAdvice }: Weath
           </div>
         </div>
       </Card>
+
+      {/* Season so far vs multi-year normal */}
+      {climate && (
+        <Card className="p-5 bg-white border shadow-sm">
+          <div className="flex items-baseline justify-between gap-2 mb-3">
+            <h3 className="font-semibold text-gray-900 tracking-tight">{t("seasonSoFar")}</h3>
+            <span className="text-xs text-gray-500">
+              {t(SEASON_KEYS[climate.season.name])} · {climate.season.startDate} – {climate.season.throughDate}
+            </span>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="rounded-lg border border-blue-100 bg-blue-50/60 p-3">
+              <div className="flex items-center gap-2 text-[10px] font-medium text-blue-700 tracking-wide uppercase">
+                <CloudRain className="h-4 w-4" />
+                {t("rainfall")}
+              </div>
+              <div className="mt-1 flex items-baseline gap-2">
+                <span className="text-2xl font-bold">{Math.round(climate.rainfall.seasonToDate)} mm</span>
+                <span className="text-xs text-gray-500">{t("normal")}: {Math.round(climate.rainfall.normal)} mm</span>
+              </div>
+              {climate.rainfall.departurePercent !== null && climate.rainfall.category && (
+                <div className={`mt-1 text-sm font-medium ${climate.rainfall.departurePercent <= -20 ? "text-red-600" : climate.rainfall.departurePercent >= 20 ? "text-blue-700" : "text-emerald-600"}`}>
+                  {signed(climate.rainfall.departurePercent, "%")} · {t(RAINFALL_CATEGORY_KEYS[climate.rainfall.category])}
+                </div>
+              )}
+            </div>
+            {climate.temperature.mean !== null && climate.temperature.normalMean !== null && climate.temperature.departure !== null && (
+              <div className="rounded-lg border border-orange-100 bg-orange-50/60 p-3">
+                <div className="flex items-center gap-2 text-[10px] font-medium text-orange-700 tracking-wide uppercase">
+                  <Thermometer className="h-4 w-4" />
+                  {t("avgTemperature")}
+                </div>
+                <div className="mt-1 flex items-baseline gap-2">
+                  <span className="text-2xl font-bold">{climate.temperature.mean}°C</span>
+                  <span className="text-xs text-gray-500">{t("normal")}: {climate.temperature.normalMean}°C</span>
+                </div>
+                <div className={`mt-1 text-sm font-medium ${climate.temperature.departure >= 1 ? "text-orange-600" : climate.temperature.departure <= -1 ? "text-sky-600" : "text-emerald-600"}`}>
+                  {signed(climate.temperature.departure, "°C")}
+                </div>
+              </div>
+            )}
+          </div>
+          <p className="mt-3 text-xs text-gray-500">{t("comparedWithYearAverage", { years: String(climate.baseline.years) })}</p>
+        </Card>
+      )}
     </div>
   )
 }
@@ -134,9 +134,13 @@ export const useChatAPI = () => {
         console.warn('Unable to load user context / location for chat request', e);
       }
 
+      // A diagnosis question in the last answer is resumed with this message
+      const pendingDiagnosisRunId = [...messages].reverse().find(msg => msg.role === 'assistant')?.diagnosisRunId;
+
       const requestBody = {
         messages: conversationHistory,
-        ...(userContext ? { userContext } : {})
+        ...(userContext ? { userContext } : {}),
+        ...(pendingDiagnosisRunId ? { diagnosisRunId: pendingDiagnosisRunId } : {})
       };
 
       console.log('Sending conversation to /api/chat:', requestBody);
@@ -154,6 +158,7 @@ export const useChatAPI = () => {
       }
 
       setStatus('streaming');
+      const diagnosisRunId = response.headers.get('X-Diagnosis-Run') || undefined;
 
       if (response.body) {
         const reader = response.body.getReader();
@@ -162,6 +167,7 @@ export const useChatAPI = () => {
         let assistantMessageId = `assistant-${Date.now()}`;
         let currentToolCalls: ToolCall[] = [];
         let currentReasoning: string[] = [];
+        const currentSources: Array<{ url: string; title: string }> = [];
 
         try {
           while (true) {
@@ -267,6 +273,12 @@ export const useChatAPI = () => {
                         }
                         break;
                       
+                      case 'h': // Source cited by web research
+                        if (parsed.url && !currentSources.some(s => s.url === parsed.url)) {
+                          currentSources.push({ url: parsed.url, title: parsed.title || parsed.url });
+                        }
+                        break;
+                      
                       case 'e': // Step end
                         if (parsed.finishReason) {
                           setStreamingState(prev => ({
@@ -326,11 +338,21 @@ export const useChatAPI = () => {
               });
             }
 
+            // Citations go after the answer they support
+            currentSources.forEach(source => {
+              messageParts.push({
+                type: 'source-url',
+                url: source.url,
+                title: source.title
+              });
+            });
+
             const assistantMsg: ChatMessage = {
               id: assistantMessageId,
               role: 'assistant',
               content: fullResponse,
-              parts: messageParts
+              parts: messageParts,
+              ...(diagnosisRunId ? { diagnosisRunId } : {})
             };
 
             updateMessages([...messagesWithUser, assistantMsg]);
@@ -8,6 +8,7 @@ export interface ChatMessage {
   type: 'text' | 'reasoning' | 'source-url' | 'tool-call' | 'tool-result' | 'image' | 'suggested-queries';
     text?: string;
     url?: string;
+    title?: string; // for source-url
     toolName?: string;
     toolArgs?: any;
     toolResult?: any;
@@ -17,6 +18,8 @@ export interface ChatMessage {
     imageType?: string;
   queries?: string[]; // for suggested-queries
   }>;
+  // Set when the assistant asked a crop diagnosis question; sent back with the farmer's reply
+  diagnosisRunId?: string;
 }
 
 export interface ToolCall {
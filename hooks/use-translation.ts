@@ -1,21 +1,9 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { LANGUAGES, type Language } from "@/lib/languages"
 
-export type Language = "en" | "hi" | "bn" | "mr" | "te" | "ta" | "gu" | "ur" | "kn" | "or"
-
-export const LANGUAGES = {
-  en: "English",
-  hi: "हिंदी",
-  bn: "বাংলা",
-  mr: "मराठी",
-  te: "తెలుగు",
-  ta: "தமிழ்",
-  gu: "ગુજરાતી",
-  ur: "اردو",
-  kn: "ಕನ್ನಡ",
-  or: "ଓଡ଼ିଆ",
-}
+export { LANGUAGES, type Language }
 
 const translations = {
   // App Header
@@ -874,6 +862,792 @@ const translations = {
     or: "ଅଜଣା",
   },
 
+  // Climate normals
+  seasonSoFar: {
+    en: "Season so far",
+    hi: "अब तक का मौसम",
+    bn: "এখন পর্যন্ত মৌসুম",
+    mr: "आतापर्यंतचा हंगाम",
+    te: "ఇప్పటివరకు సీజన్",
+    ta: "இதுவரை பருவம்",
+    gu: "અત્યાર સુધીની ઋતુ",
+    ur: "اب تک کا موسم",
+    kn: "ಇಲ್ಲಿಯವರೆಗಿನ ಋತು",
+    or: "ଏପର୍ଯ୍ୟନ୍ତ ଋତୁ",
+  },
+  seasonWinter: {
+    en: "Winter",
+    hi: "सर्दी",
+    bn: "শীতকাল",
+    mr: "हिवाळा",
+    te: "శీతాకాలం",
+    ta: "குளிர்காலம்",
+    gu: "શિયાળો",
+    ur: "سردی",
+    kn: "ಚಳಿಗಾಲ",
+    or: "ଶୀତ ଋତୁ",
+  },
+  seasonPreMonsoon: {
+    en: "Pre-monsoon",
+    hi: "मानसून-पूर्व",
+    bn: "প্রাক-বর্ষা",
+    mr: "मान्सूनपूर्व",
+    te: "రుతుపవనాల ముందు",
+    ta: "பருவமழைக்கு முன்",
+    gu: "ચોમાસા પહેલાં",
+    ur: "قبل از مانسون",
+    kn: "ಮುಂಗಾರು ಪೂರ್ವ",
+    or: "ପ୍ରାକ୍-ମୌସୁମୀ",
+  },
+  seasonMonsoon: {
+    en: "Monsoon",
+    hi: "मानसून",
+    bn: "বর্ষা",
+    mr: "पावसाळा",
+    te: "వర్షాకాలం",
+    ta: "பருவமழை",
+    gu: "ચોમાસું",
+    ur: "مانسون",
+    kn: "ಮುಂಗಾರು",
+    or: "ବର୍ଷା ଋତୁ",
+  },
+  seasonPostMonsoon: {
+    en: "Post-monsoon",
+    hi: "मानसून-पश्चात",
+    bn: "বর্ষা-পরবর্তী",
+    mr: "मान्सूनोत्तर",
+    te: "రుతుపవనాల తర్వాత",
+    ta: "பருவமழைக்குப் பின்",
+    gu: "ચોમાસા પછી",
+    ur: "بعد از مانسون",
+    kn: "ಹಿಂಗಾರು",
+    or: "ମୌସୁମୀ ପରବର୍ତ୍ତୀ",
+  },
+  avgTemperature: {
+    en: "Avg temperature",
+    hi: "औसत तापमान",
+    bn: "গড় তাপমাত্রা",
+    mr: "सरासरी तापमान",
+    te: "సగటు ఉష్ణోగ్రత",
+    ta: "சராசரி வெப்பநிலை",
+    gu: "સરેરાશ તાપમાન",
+    ur: "اوسط درجہ حرارت",
+    kn: "ಸರಾಸರಿ ತಾಪಮಾನ",
+    or: "ହାରାହାରି ତାପମାତ୍ରା",
+  },
+  comparedWithYearAverage: {
+    en: "Compared with the {years}-year average for the same dates",
+    hi: "समान तिथियों के {years} वर्ष के औसत से तुलना",
+    bn: "একই তারিখের {years} বছরের গড়ের সাথে তুলনা",
+    mr: "त्याच तारखांच्या {years} वर्षांच्या सरासरीशी तुलना",
+    te: "అవే తేదీల {years} సంవత్సరాల సగటుతో పోలిక",
+    ta: "அதே தேதிகளின் {years} ஆண்டு சராசரியுடன் ஒப்பீடு",
+    gu: "સમાન તારીખોની {years} વર્ષની સરેરાશ સાથે સરખામણી",
+    ur: "انہی تاریخوں کی {years} سالہ اوسط سے موازنہ",
+    kn: "ಅದೇ ದಿನಾಂಕಗಳ {years} ವರ್ಷಗಳ ಸರಾಸರಿಯೊಂದಿಗೆ ಹೋಲಿಕೆ",
+    or: "ସମାନ ତାରିଖର {years} ବର୍ଷର ହାରାହାରି ସହ ତୁଳନା",
+  },
+  rainfallLargeExcess: {
+    en: "Large excess",
+    hi: "अत्यधिक",
+    bn: "অতিরিক্ত বেশি",
+    mr: "अतिजास्त",
+    te: "అత్యధికం",
+    ta: "மிக அதிகம்",
+    gu: "અતિ વધુ",
+    ur: "بہت زیادہ",
+    kn: "ಅತಿ ಹೆಚ್ಚು",
+    or: "ଅତ୍ୟଧିକ",
+  },
+  rainfallExcess: {
+    en: "Excess",
+    hi: "अधिक",
+    bn: "বেশি",
+    mr: "जास्त",
+    te: "అధికం",
+    ta: "அதிகம்",
+    gu: "વધુ",
+    ur: "زیادہ",
+    kn: "ಹೆಚ್ಚು",
+    or: "ଅଧିକ",
+  },
+  normal: {
+    en: "Normal",
+    hi: "सामान्य",
+    bn: "স্বাভাবিক",
+    mr: "सामान्य",
+    te: "సాధారణం",
+    ta: "இயல்பு",
+    gu: "સામાન્ય",
+    ur: "معمول",
+    kn: "ಸಾಮಾನ್ಯ",
+    or: "ସାଧାରଣ",
+  },
+  rainfallDeficient: {
+    en: "Deficient",
+    hi: "कम",
+    bn: "ঘাটতি",
+    mr: "कमी",
+    te: "లోటు",
+    ta: "குறைவு",
+    gu: "ઓછો",
+    ur: "کم",
+    kn: "ಕೊರತೆ",
+    or: "ଅଭାବ",
+  },
+  rainfallLargeDeficient: {
+    en: "Large deficient",
+    hi: "बहुत कम",
+    bn: "অনেক ঘাটতি",
+    mr: "खूप कमी",
+    te: "తీవ్ర లోటు",
+    ta: "மிகக் குறைவு",
+    gu: "ખૂબ ઓછો",
+    ur: "بہت کم",
+    kn: "ತೀವ್ರ ಕೊರತೆ",
+    or: "ଅତି ଅଭାବ",
+  },
+  rainfallNoRain: {
+    en: "No rain",
+    hi: "कोई वर्षा नहीं",
+    bn: "বৃষ্টি নেই",
+    mr: "पाऊस नाही",
+    te: "వర్షం లేదు",
+    ta: "மழை இல்லை",
+    gu: "વરસાદ નથી",
+    ur: "کوئی بارش نہیں",
+    kn: "ಮಳೆ ಇಲ್ಲ",
+    or: "ବର୍ଷା ନାହିଁ",
+  },
+
+  // Weather alerts
+  weatherAlerts: {
+    en: "Weather alerts",
+    hi: "मौसम चेतावनी",
+    bn: "আবহাওয়া সতর্কতা",
+    mr: "हवामान इशारे",
+    te: "వాతావరణ హెచ్చరికలు",
+    ta: "வானிலை எச்சரிக்கைகள்",
+    gu: "હવામાન ચેતવણી",
+    ur: "موسمی انتباہات",
+    kn: "ಹವಾಮಾನ ಎಚ್ಚರಿಕೆಗಳು",
+    or: "ପାଣିପାଗ ସତର୍କତା",
+  },
+  alertWarning: {
+    en: "Warning",
+    hi: "चेतावनी",
+    bn: "সতর্কতা",
+    mr: "इशारा",
+    te: "హెచ్చరిక",
+    ta: "எச்சரிக்கை",
+    gu: "ચેતવણી",
+    ur: "انتباہ",
+    kn: "ಎಚ್ಚರಿಕೆ",
+    or: "ସତର୍କତା",
+  },
+  alertSevere: {
+    en: "Severe",
+    hi: "गंभीर",
+    bn: "গুরুতর",
+    mr: "गंभीर",
+    te: "తీవ్రం",
+    ta: "கடுமையானது",
+    gu: "ગંભીર",
+    ur: "شدید",
+    kn: "ತೀವ್ರ",
+    or: "ଗୁରୁତର",
+  },
+  cropsAtRisk: {
+    en: "Crops at risk: {crops}",
+    hi: "जोखिम में फसलें: {crops}",
+    bn: "ঝুঁকিতে থাকা ফসল: {crops}",
+    mr: "धोक्यातील पिके: {crops}",
+    te: "ప్రమాదంలో ఉన్న పంటలు: {crops}",
+    ta: "ஆபத்தில் உள்ள பயிர்கள்: {crops}",
+    gu: "જોખમમાં પાક: {crops}",
+    ur: "خطرے میں فصلیں: {crops}",
+    kn: "ಅಪಾಯದಲ್ಲಿರುವ ಬೆಳೆಗಳು: {crops}",
+    or: "ବିପଦରେ ଥିବା ଫସଲ: {crops}",
+  },
+  heavyRainfall: {
+    en: "Heavy rainfall",
+    hi: "भारी वर्षा",
+    bn: "ভারী বৃষ্টিপাত",
+    mr: "मुसळधार पाऊस",
+    te: "భారీ వర్షపాతం",
+    ta: "கனமழை",
+    gu: "ભારે વરસાદ",
+    ur: "شدید بارش",
+    kn: "ಭಾರೀ ಮಳೆ",
+    or: "ପ୍ରବଳ ବର୍ଷା",
+  },
+  hailstorm: {
+    en: "Hailstorm",
+    hi: "ओलावृष्टि",
+    bn: "শিলাবৃষ্টি",
+    mr: "गारपीट",
+    te: "వడగళ్ల వాన",
+    ta: "ஆலங்கட்டி மழை",
+    gu: "કરા સાથે વાવાઝોડું",
+    ur: "ژالہ باری",
+    kn: "ಆಲಿಕಲ್ಲು ಮಳೆ",
+    or: "କୁଆପଥର ବର୍ଷା",
+  },
+  heatWave: {
+    en: "Heat wave",
+    hi: "लू",
+    bn: "তাপপ্রবাহ",
+    mr: "उष्णतेची लाट",
+    te: "వడగాలులు",
+    ta: "வெப்ப அலை",
+    gu: "ગરમીનું મોજું",
+    ur: "لو",
+    kn: "ಬಿಸಿಗಾಳಿ",
+    or: "ଗ୍ରୀଷ୍ମ ପ୍ରବାହ",
+  },
+  coldWave: {
+    en: "Cold wave",
+    hi: "शीत लहर",
+    bn: "শৈত্যপ্রবাহ",
+    mr: "थंडीची लाट",
+    te: "చలిగాలులు",
+    ta: "குளிர் அலை",
+    gu: "ઠંડીનું મોજું",
+    ur: "سرد لہر",
+    kn: "ಶೀತ ಅಲೆ",
+    or: "ଶୀତଲହରୀ",
+  },
+  strongGusts: {
+    en: "Strong winds",
+    hi: "तेज़ हवाएँ",
+    bn: "ঝোড়ো হাওয়া",
+    mr: "जोरदार वारे",
+    te: "బలమైన గాలులు",
+    ta: "பலத்த காற்று",
+    gu: "તેજ પવન",
+    ur: "تیز ہوائیں",
+    kn: "ಬಲವಾದ ಗಾಳಿ",
+    or: "ପ୍ରବଳ ପବନ",
+  },
+  clearFieldDrains: {
+    en: "Clear field drains so water does not stand in the field",
+    hi: "खेत की नालियाँ साफ करें ताकि पानी खेत में न रुके",
+    bn: "মাঠের নালা পরিষ্কার রাখুন যাতে জমিতে জল না জমে",
+    mr: "शेतातील चर साफ करा म्हणजे पाणी साचणार नाही",
+    te: "పొలంలో నీరు నిలవకుండా కాలువలు శుభ్రం చేయండి",
+    ta: "வயலில் நீர் தேங்காதபடி வடிகால்களை சுத்தம் செய்யுங்கள்",
+    gu: "ખેતરમાં પાણી ન ભરાય તે માટે નીકો સાફ કરો",
+    ur: "کھیت کی نالیاں صاف کریں تاکہ پانی کھیت میں نہ رکے",
+    kn: "ಹೊಲದಲ್ಲಿ ನೀರು ನಿಲ್ಲದಂತೆ ಕಾಲುವೆಗಳನ್ನು ಸ್ವಚ್ಛಗೊಳಿಸಿ",
+    or: "ଜମିରେ ପାଣି ନ ଜମିବା ପାଇଁ ନାଳ ସଫା କରନ୍ତୁ",
+  },
+  postponeSprayAndFertilizer: {
+    en: "Postpone spraying and fertilizer until the weather settles",
+    hi: "मौसम ठीक होने तक छिड़काव और खाद डालना टालें",
+    bn: "আবহাওয়া স্বাভাবিক না হওয়া পর্যন্ত স্প্রে ও সার দেওয়া স্থগিত রাখুন",
+    mr: "हवामान स्थिर होईपर्यंत फवारणी आणि खत देणे पुढे ढकला",
+    te: "వాతావరణం కుదురుకునే వరకు పిచికారీ, ఎరువులు వాయిదా వేయండి",
+    ta: "வானிலை சீராகும் வரை தெளிப்பு மற்றும் உரமிடுதலை ஒத்திவையுங்கள்",
+    gu: "હવામાન સુધરે ત્યાં સુધી છંટકાવ અને ખાતર મુલતવી રાખો",
+    ur: "موسم ٹھیک ہونے تک اسپرے اور کھاد ڈالنا ملتوی کریں",
+    kn: "ಹವಾಮಾನ ಸರಿಯಾಗುವವರೆಗೆ ಸಿಂಪಡಣೆ ಮತ್ತು ಗೊಬ್ಬರ ಮುಂದೂಡಿ",
+    or: "ପାଣିପାଗ ସ୍ଥିର ହେବା ପର୍ଯ୍ୟନ୍ତ ସ୍ପ୍ରେ ଓ ସାର ପ୍ରୟୋଗ ସ୍ଥଗିତ ରଖନ୍ତୁ",
+  },
+  harvestMatureCropEarly: {
+    en: "Harvest mature crop early and store it under cover",
+    hi: "पकी फसल जल्दी काटें और ढककर रखें",
+    bn: "পাকা ফসল আগেই কেটে ঢাকা জায়গায় রাখুন",
+    mr: "तयार पीक लवकर काढा आणि झाकून ठेवा",
+    te: "పక్వానికి వచ్చిన పంటను ముందే కోసి కప్పి ఉంచండి",
+    ta: "முதிர்ந்த பயிரை முன்கூட்டியே அறுவடை செய்து மூடி வையுங்கள்",
+    gu: "પાકેલો પાક વહેલો લણી ઢાંકીને રાખો",
+    ur: "پکی فصل جلد کاٹ کر ڈھک کر رکھیں",
+    kn: "ಬಲಿತ ಬೆಳೆಯನ್ನು ಬೇಗ ಕಟಾವು ಮಾಡಿ ಮುಚ್ಚಿ ಇಡಿ",
+    or: "ପାଚିଲା ଫସଲ ଶୀଘ୍ର କାଟି ଘୋଡ଼ାଇ ରଖନ୍ତୁ",
+  },
+  stakeVegetablePlants: {
+    en: "Stake vegetable plants and keep produce off wet ground",
+    hi: "सब्जी के पौधों को सहारा दें और उपज को गीली ज़मीन से ऊपर रखें",
+    bn: "সবজি গাছে খুঁটি দিন এবং ফসল ভেজা মাটি থেকে তুলে রাখুন",
+    mr: "भाजीपाला रोपांना आधार द्या आणि माल ओल्या जमिनीपासून वर ठेवा",
+    te: "కూరగాయ మొక్కలకు ఊతం ఇచ్చి, దిగుబడిని తడి నేలకు దూరంగా ఉంచండి",
+    ta: "காய்கறிச் செடிகளுக்கு முட்டுக் கொடுத்து விளைபொருளை ஈரத் தரையிலிருந்து விலக்கி வையுங்கள்",
+    gu: "શાકભાજીના છોડને ટેકો આપો અને ઉપજને ભીની જમીનથી દૂર રાખો",
+    ur: "سبزیوں کے پودوں کو سہارا دیں اور پیداوار کو گیلی زمین سے اوپر رکھیں",
+    kn: "ತರಕಾರಿ ಗಿಡಗಳಿಗೆ ಆಸರೆ ನೀಡಿ, ಫಸಲನ್ನು ಒದ್ದೆ ನೆಲದಿಂದ ದೂರವಿಡಿ",
+    or: "ପନିପରିବା ଗଛକୁ ଖୁଣ୍ଟ ଦିଅନ୍ତୁ ଓ ଫସଲକୁ ଓଦା ମାଟିରୁ ଉପରେ ରଖନ୍ତୁ",
+  },
+  drainWaterloggedRows: {
+    en: "Drain waterlogged rows quickly; standing water rots roots",
+    hi: "जलभराव वाली कतारों से पानी जल्दी निकालें; रुका पानी जड़ें सड़ाता है",
+    bn: "জলাবদ্ধ সারি থেকে দ্রুত জল বের করুন; জমা জলে শিকড় পচে",
+    mr: "पाणी साचलेल्या ओळींतून लवकर निचरा करा; साचलेले पाणी मुळे कुजवते",
+    te: "నీరు నిలిచిన సాళ్ల నుంచి త్వరగా నీరు తీసివేయండి; నిలిచిన నీరు వేర్లను కుళ్లిస్తుంది",
+    ta: "நீர் தேங்கிய வரிசைகளில் இருந்து விரைவாக வடியுங்கள்; தேங்கிய நீர் வேர்களை அழுகச் செய்யும்",
+    gu: "પાણી ભરાયેલી હારોમાંથી ઝડપથી પાણી કાઢો; ભરાયેલું પાણી મૂળ સડાવે છે",
+    ur: "پانی بھری قطاروں سے جلد پانی نکالیں؛ کھڑا پانی جڑیں گلا دیتا ہے",
+    kn: "ನೀರು ನಿಂತ ಸಾಲುಗಳಿಂದ ಬೇಗ ನೀರು ಬಸಿಯಿರಿ; ನಿಂತ ನೀರು ಬೇರು ಕೊಳೆಸುತ್ತದೆ",
+    or: "ଜଳବନ୍ଦୀ ଧାଡ଼ିରୁ ଶୀଘ୍ର ପାଣି ବାହାର କରନ୍ତୁ; ଜମା ପାଣି ଚେର ସଢ଼ାଏ",
+  },
+  shelterAnimalsAndTools: {
+    en: "Keep animals and farm tools under shelter",
+    hi: "पशुओं और कृषि औज़ारों को छत के नीचे रखें",
+    bn: "পশু ও কৃষি যন্ত্রপাতি ছাউনির নিচে রাখুন",
+    mr: "जनावरे आणि शेती अवजारे निवाऱ्यात ठेवा",
+    te: "పశువులను, వ్యవసాయ పనిముట్లను షెడ్డులో ఉంచండి",
+    ta: "கால்நடைகளையும் விவசாயக் கருவிகளையும் கூரையின் கீழ் வையுங்கள்",
+    gu: "પશુઓ અને ખેત ઓજારોને છાપરા નીચે રાખો",
+    ur: "مویشیوں اور زرعی اوزاروں کو چھت کے نیچے رکھیں",
+    kn: "ಜಾನುವಾರು ಮತ್ತು ಕೃಷಿ ಉಪಕರಣಗಳನ್ನು ಆಶ್ರಯದಲ್ಲಿ ಇಡಿ",
+    or: "ଗୋରୁଗାଈ ଓ କୃଷି ଉପକରଣକୁ ଛାତ ତଳେ ରଖନ୍ତୁ",
+  },
+  coverOrchardsWithHailNets: {
+    en: "Cover fruit trees with hail nets where possible",
+    hi: "जहाँ संभव हो फलदार पेड़ों को ओला-रोधी जाल से ढकें",
+    bn: "সম্ভব হলে ফলগাছ শিলা-প্রতিরোধী জাল দিয়ে ঢাকুন",
+    mr: "शक्य असल्यास फळझाडांवर गारपीट-रोधक जाळी टाका",
+    te: "వీలైతే పండ్ల చెట్లను వడగళ్ల వలలతో కప్పండి",
+    ta: "முடிந்தால் பழ மரங்களை ஆலங்கட்டி வலைகளால் மூடுங்கள்",
+    gu: "શક્ય હોય ત્યાં ફળઝાડને કરા-રોધક જાળીથી ઢાંકો",
+    ur: "جہاں ممکن ہو پھلدار درختوں کو اولوں سے بچاؤ والے جال سے ڈھکیں",
+    kn: "ಸಾಧ್ಯವಾದರೆ ಹಣ್ಣಿನ ಮರಗಳನ್ನು ಆಲಿಕಲ್ಲು ಬಲೆಗಳಿಂದ ಮುಚ್ಚಿ",
+    or: "ସମ୍ଭବ ହେଲେ ଫଳ ଗଛକୁ କୁଆପଥର ଜାଲରେ ଘୋଡ଼ାନ୍ତୁ",
+  },
+  coverNurseries: {
+    en: "Cover nurseries and seedlings with mats or sheets",
+    hi: "नर्सरी और पौध को चटाई या चादर से ढकें",
+    bn: "নার্সারি ও চারা মাদুর বা চাদর দিয়ে ঢাকুন",
+    mr: "रोपवाटिका आणि रोपे चटई किंवा कापडाने झाका",
+    te: "నారుమడులను, మొలకలను చాపలు లేదా షీట్లతో కప్పండి",
+    ta: "நாற்றங்கால் மற்றும் நாற்றுகளை பாய் அல்லது தாள்களால் மூடுங்கள்",
+    gu: "ધરુવાડિયું અને રોપાઓને સાદડી કે કપડાથી ઢાંકો",
+    ur: "نرسری اور پنیری کو چٹائی یا چادر سے ڈھکیں",
+    kn: "ನರ್ಸರಿ ಮತ್ತು ಸಸಿಗಳನ್ನು ಚಾಪೆ ಅಥವಾ ಹಾಳೆಗಳಿಂದ ಮುಚ್ಚಿ",
+    or: "ନର୍ସରୀ ଓ ଚାରାକୁ ମସିଣା ବା ଚାଦରରେ ଘୋଡ଼ାନ୍ତୁ",
+  },
+  irrigateMorningOrEvening: {
+    en: "Irrigate in the early morning or evening and avoid midday field work",
+    hi: "सुबह जल्दी या शाम को सिंचाई करें और दोपहर में खेत का काम न करें",
+    bn: "ভোরে বা সন্ধ্যায় সেচ দিন এবং দুপুরে মাঠের কাজ এড়িয়ে চলুন",
+    mr: "पहाटे किंवा संध्याकाळी पाणी द्या आणि दुपारी शेतात काम टाळा",
+    te: "తెల్లవారుజామున లేదా సాయంత్రం నీరు పెట్టండి, మధ్యాహ్నం పొలం పని మానుకోండి",
+    ta: "அதிகாலை அல்லது மாலையில் நீர் பாய்ச்சுங்கள்; நண்பகலில் வயல் வேலையைத் தவிருங்கள்",
+    gu: "વહેલી સવારે કે સાંજે પિયત આપો અને બપોરે ખેતરનું કામ ટાળો",
+    ur: "صبح سویرے یا شام کو آبپاشی کریں اور دوپہر میں کھیت کا کام نہ کریں",
+    kn: "ಬೆಳಗಿನ ಜಾವ ಅಥವಾ ಸಂಜೆ ನೀರು ಹಾಯಿಸಿ, ಮಧ್ಯಾಹ್ನ ಹೊಲದ ಕೆಲಸ ತಪ್ಪಿಸಿ",
+    or: "ଭୋରରୁ ବା ସନ୍ଧ୍ୟାରେ ଜଳସେଚନ କରନ୍ତୁ ଓ ମଧ୍ୟାହ୍ନରେ ଜମି କାମ ଏଡ଼ାନ୍ତୁ",
+  },
+  mulchToSaveMoisture: {
+    en: "Mulch with straw or crop residue to keep soil moisture",
+    hi: "मिट्टी की नमी बचाने के लिए पुआल या फसल अवशेष से मल्चिंग करें",
+    bn: "মাটির আর্দ্রতা ধরে রাখতে খড় বা ফসলের অবশিষ্ট দিয়ে মালচিং করুন",
+    mr: "जमिनीतील ओलावा टिकवण्यासाठी पाचट किंवा पिकांच्या अवशेषांचे आच्छादन करा",
+    te: "నేలలో తేమ నిలవడానికి గడ్డి లేదా పంట వ్యర్థాలతో మల్చింగ్ చేయండి",
+    ta: "மண் ஈரத்தைக் காக்க வைக்கோல் அல்லது பயிர்க் கழிவுகளால் மூடாக்கு இடுங்கள்",
+    gu: "જમીનનો ભેજ જાળવવા પરાળ કે પાકના અવશેષોથી આવરણ કરો",
+    ur: "مٹی کی نمی بچانے کے لیے بھوسے یا فصل کی باقیات سے ملچنگ کریں",
+    kn: "ಮಣ್ಣಿನ ತೇವಾಂಶ ಉಳಿಸಲು ಹುಲ್ಲು ಅಥವಾ ಬೆಳೆ ಉಳಿಕೆಯಿಂದ ಹೊದಿಕೆ ಹಾಕಿ",
+    or: "ମାଟିର ଆର୍ଦ୍ରତା ରଖିବା ପାଇଁ ନଡ଼ା ବା ଫସଲ ଅବଶେଷରେ ମଲଚିଂ କରନ୍ତୁ",
+  },
+  irrigateAtGrainFilling: {
+    en: "Give light, frequent irrigation during flowering and grain filling",
+    hi: "फूल आने और दाना भरने के समय हल्की और बार-बार सिंचाई करें",
+    bn: "ফুল আসা ও দানা পূর্ণ হওয়ার সময় হালকা ও ঘন ঘন সেচ দিন",
+    mr: "फुलोरा आणि दाणे भरण्याच्या काळात हलके व वारंवार पाणी द्या",
+    te: "పూత, గింజ నిండే దశలో తేలికగా, తరచుగా నీరు పెట్టండి",
+    ta: "பூக்கும் மற்றும் மணி பிடிக்கும் பருவத்தில் லேசாக, அடிக்கடி நீர் பாய்ச்சுங்கள்",
+    gu: "ફૂલ અને દાણા ભરાવાના સમયે હળવું અને વારંવાર પિયત આપો",
+    ur: "پھول آنے اور دانہ بھرنے کے وقت ہلکی اور بار بار آبپاشی کریں",
+    kn: "ಹೂಬಿಡುವ ಮತ್ತು ಕಾಳು ತುಂಬುವ ಹಂತದಲ್ಲಿ ಹಗುರವಾಗಿ, ಆಗಾಗ ನೀರು ಹಾಯಿಸಿ",
+    or: "ଫୁଲ ଓ ଦାନା ଭରିବା ସମୟରେ ହାଲୁକା ଓ ବାରମ୍ବାର ଜଳସେଚନ କରନ୍ତୁ",
+  },
+  eveningIrrigationAgainstFrost: {
+    en: "Give a light irrigation in the evening to protect against frost",
+    hi: "पाले से बचाव के लिए शाम को हल्की सिंचाई करें",
+    bn: "তুষারপাত থেকে বাঁচাতে সন্ধ্যায় হালকা সেচ দিন",
+    mr: "दवापासून बचावासाठी संध्याकाळी हलके पाणी द्या",
+    te: "మంచు నుంచి రక్షణకు సాయంత్రం తేలికపాటి నీరు పెట్టండి",
+    ta: "உறைபனியிலிருந்து காக்க மாலையில் லேசாக நீர் பாய்ச்சுங்கள்",
+    gu: "હિમથી બચાવવા સાંજે હળવું પિયત આપો",
+    ur: "پالے سے بچاؤ کے لیے شام کو ہلکی آبپاشی کریں",
+    kn: "ಹಿಮದಿಂದ ರಕ್ಷಿಸಲು ಸಂಜೆ ಹಗುರವಾಗಿ ನೀರು ಹಾಯಿಸಿ",
+    or: "ତୁଷାରରୁ ରକ୍ଷା ପାଇଁ ସନ୍ଧ୍ୟାରେ ହାଲୁକା ଜଳସେଚନ କରନ୍ତୁ",
+  },
+  smokeFieldEdgesOnColdNights: {
+    en: "Make smoke along field edges on the coldest nights",
+    hi: "सबसे ठंडी रातों में खेत की मेड़ों पर धुआँ करें",
+    bn: "সবচেয়ে ঠান্ডা রাতে মাঠের আলে ধোঁয়া দিন",
+    mr: "सर्वात थंड रात्री शेताच्या बांधावर धूर करा",
+    te: "అత్యంత చలి రాత్రుల్లో పొలం గట్ల వెంట పొగ పెట్టండి",
+    ta: "கடும் குளிர் இரவுகளில் வயல் வரப்புகளில் புகை மூட்டுங்கள்",
+    gu: "સૌથી ઠંડી રાતોમાં ખેતરના શેઢે ધુમાડો કરો",
+    ur: "سب سے ٹھنڈی راتوں میں کھیت کی مینڈوں پر دھواں کریں",
+    kn: "ಅತಿ ಚಳಿಯ ರಾತ್ರಿಗಳಲ್ಲಿ ಹೊಲದ ಬದುಗಳಲ್ಲಿ ಹೊಗೆ ಹಾಕಿ",
+    or: "ଅଧିକ ଥଣ୍ଡା ରାତିରେ ଜମି ହିଡ଼ରେ ଧୂଆଁ କରନ୍ତୁ",
+  },
+  coverYoungTrees: {
+    en: "Shade or wrap young trees with straw or sheets",
+    hi: "छोटे पेड़ों को पुआल या चादर से ढकें या छाया दें",
+    bn: "কচি গাছ খড় বা চাদর দিয়ে ঢেকে বা ছায়া দিয়ে রাখুন",
+    mr: "लहान झाडांना पाचट किंवा कापडाने झाका किंवा सावली द्या",
+    te: "చిన్న చెట్లకు గడ్డి లేదా షీట్లతో నీడ ఇవ్వండి లేదా చుట్టండి",
+    ta: "இளம் மரங்களுக்கு வைக்கோல் அல்லது தாள்களால் நிழல் கொடுங்கள் அல்லது சுற்றுங்கள்",
+    gu: "નાના ઝાડને પરાળ કે કપડાથી છાંયો આપો અથવા વીંટો",
+    ur: "چھوٹے درختوں کو بھوسے یا چادر سے ڈھکیں یا سایہ دیں",
+    kn: "ಎಳೆಯ ಮರಗಳಿಗೆ ಹುಲ್ಲು ಅಥವಾ ಹಾಳೆಗಳಿಂದ ನೆರಳು ನೀಡಿ ಅಥವಾ ಸುತ್ತಿ",
+    or: "ଛୋଟ ଗଛକୁ ନଡ଼ା ବା ଚାଦରରେ ଛାଇ ଦିଅନ୍ତୁ ବା ଘୋଡ଼ାନ୍ତୁ",
+  },
+  secureSheds: {
+    en: "Tie down sheds, polyhouses and stored produce",
+    hi: "शेड, पॉलीहाउस और रखी उपज को मज़बूती से बाँधें",
+    bn: "শেড, পলিহাউস ও মজুত ফসল শক্ত করে বেঁধে রাখুন",
+    mr: "शेड, पॉलीहाऊस आणि साठवलेला माल घट्ट बांधा",
+    te: "షెడ్లు, పాలీహౌస్‌లు, నిల్వ దిగుబడిని గట్టిగా కట్టండి",
+    ta: "கொட்டகைகள், பசுமைக்குடில்கள் மற்றும் சேமித்த விளைபொருளை இறுக்கிக் கட்டுங்கள்",
+    gu: "શેડ, પોલીહાઉસ અને સંગ્રહિત ઉપજને મજબૂત બાંધો",
+    ur: "شیڈ، پولی ہاؤس اور ذخیرہ شدہ پیداوار کو مضبوطی سے باندھیں",
+    kn: "ಶೆಡ್, ಪಾಲಿಹೌಸ್ ಮತ್ತು ಸಂಗ್ರಹಿಸಿದ ಫಸಲನ್ನು ಗಟ್ಟಿಯಾಗಿ ಕಟ್ಟಿ",
+    or: "ସେଡ୍, ପଲିହାଉସ ଓ ସଂରକ୍ଷିତ ଫସଲକୁ ଶକ୍ତ କରି ବାନ୍ଧନ୍ତୁ",
+  },
+  earthUpTallCrops: {
+    en: "Earth up tall crops like sugarcane and maize to prevent lodging",
+    hi: "गन्ना और मक्का जैसी ऊँची फसलों पर मिट्टी चढ़ाएँ ताकि वे गिरें नहीं",
+    bn: "আখ ও ভুট্টার মতো লম্বা ফসলের গোড়ায় মাটি দিন যাতে হেলে না পড়ে",
+    mr: "ऊस आणि मका यांसारख्या उंच पिकांना भर द्या म्हणजे ती लोळणार नाहीत",
+    te: "చెరకు, మొక్కజొన్న వంటి పొడవైన పంటలు పడిపోకుండా మట్టి ఎగదోయండి",
+    ta: "கரும்பு, மக்காச்சோளம் போன்ற உயரமான பயிர்கள் சாயாமல் இருக்க மண் அணையுங்கள்",
+    gu: "શેરડી અને મકાઈ જેવા ઊંચા પાક ઢળી ન પડે તે માટે પાળા ચઢાવો",
+    ur: "گنے اور مکئی جیسی اونچی فصلوں پر مٹی چڑھائیں تاکہ وہ گریں نہیں",
+    kn: "ಕಬ್ಬು, ಮೆಕ್ಕೆಜೋಳದಂತಹ ಎತ್ತರದ ಬೆಳೆಗಳು ಬೀಳದಂತೆ ಮಣ್ಣು ಏರಿಸಿ",
+    or: "ଆଖୁ ଓ ମକା ଭଳି ଉଚ୍ଚ ଫସଲ ନ ଢଳିବା ପାଇଁ ମାଟି ଟେକନ୍ତୁ",
+  },
+  propUpFruitBranches: {
+    en: "Prop up fruit-laden branches and stake young trees",
+    hi: "फलों से लदी डालियों को सहारा दें और छोटे पेड़ों को खूँटे से बाँधें",
+    bn: "ফলভর্তি ডালে ঠেকনা দিন এবং কচি গাছে খুঁটি দিন",
+    mr: "फळांनी लगडलेल्या फांद्यांना टेकू द्या आणि लहान झाडांना आधार द्या",
+    te: "కాయలతో నిండిన కొమ్మలకు ఊతం ఇవ్వండి, చిన్న చెట్లకు కర్రలు కట్టండి",
+    ta: "காய்கள் நிறைந்த கிளைகளுக்கு முட்டுக் கொடுத்து இளம் மரங்களுக்குக் கம்பு கட்டுங்கள்",
+    gu: "ફળથી લદાયેલી ડાળીઓને ટેકો આપો અને નાના ઝાડને થાંભલે બાંધો",
+    ur: "پھلوں سے لدی شاخوں کو سہارا دیں اور چھوٹے درختوں کو کھونٹے سے باندھیں",
+    kn: "ಹಣ್ಣು ತುಂಬಿದ ಕೊಂಬೆಗಳಿಗೆ ಆಸರೆ ನೀಡಿ, ಎಳೆಯ ಮರಗಳಿಗೆ ಕಂಬ ಕಟ್ಟಿ",
+    or: "ଫଳ ଭରା ଡାଳକୁ ଠେକା ଦିଅନ୍ତୁ ଓ ଛୋଟ ଗଛକୁ ଖୁଣ୍ଟରେ ବାନ୍ଧନ୍ତୁ",
+  },
+
+  // Price alerts
+  priceAlerts: {
+    en: "Price Alerts",
+    hi: "भाव अलर्ट",
+    bn: "দামের সতর্কতা",
+    mr: "भाव सूचना",
+    te: "ధర హెచ్చరికలు",
+    ta: "விலை எச்சரிக்கைகள்",
+    gu: "ભાવ ચેતવણી",
+    ur: "قیمت کے الرٹ",
+    kn: "ಬೆಲೆ ಎಚ್ಚರಿಕೆಗಳು",
+    or: "ଦର ସତର୍କତା",
+  },
+  priceAlertsNewCount: {
+    en: "{count} new",
+    hi: "{count} नए",
+    bn: "{count}টি নতুন",
+    mr: "{count} नवीन",
+    te: "{count} కొత్తవి",
+    ta: "{count} புதியவை",
+    gu: "{count} નવા",
+    ur: "{count} نئے",
+    kn: "{count} ಹೊಸದು",
+    or: "{count}ଟି ନୂଆ",
+  },
+  priceAlertsMarkRead: {
+    en: "Mark all as read",
+    hi: "सभी को पढ़ा हुआ करें",
+    bn: "সব পড়া হয়েছে চিহ্নিত করুন",
+    mr: "सर्व वाचले म्हणून चिन्हांकित करा",
+    te: "అన్నీ చదివినట్లు గుర్తించండి",
+    ta: "அனைத்தையும் படித்ததாகக் குறிக்கவும்",
+    gu: "બધા વાંચેલા તરીકે ચિહ્નિત કરો",
+    ur: "سب کو پڑھا ہوا نشان زد کریں",
+    kn: "ಎಲ್ಲವನ್ನೂ ಓದಿದಂತೆ ಗುರುತಿಸಿ",
+    or: "ସବୁକୁ ପଢ଼ାଯାଇଛି ବୋଲି ଚିହ୍ନିତ କରନ୍ତୁ",
+  },
+  priceAlertsRead: {
+    en: "Read",
+    hi: "पढ़ लिया",
+    bn: "পড়া হয়েছে",
+    mr: "वाचले",
+    te: "చదివాను",
+    ta: "படித்தது",
+    gu: "વાંચ્યું",
+    ur: "پڑھ لیا",
+    kn: "ಓದಿದೆ",
+    or: "ପଢ଼ିଲି",
+  },
+  priceAlertsAdd: {
+    en: "Add price alert",
+    hi: "भाव अलर्ट जोड़ें",
+    bn: "দামের সতর্কতা যোগ করুন",
+    mr: "भाव सूचना जोडा",
+    te: "ధర హెచ్చరికను జోడించండి",
+    ta: "விலை எச்சரிக்கையைச் சேர்க்கவும்",
+    gu: "ભાવ ચેતવણી ઉમેરો",
+    ur: "قیمت کا الرٹ شامل کریں",
+    kn: "ಬೆಲೆ ಎಚ್ಚರಿಕೆ ಸೇರಿಸಿ",
+    or: "ଦର ସତର୍କତା ଯୋଡ଼ନ୍ତୁ",
+  },
+  priceAlertsRefresh: {
+    en: "Refresh alerts",
+    hi: "अलर्ट ताज़ा करें",
+    bn: "সতর্কতা রিফ্রেশ করুন",
+    mr: "सूचना रिफ्रेश करा",
+    te: "హెచ్చరికలను రిఫ్రెష్ చేయండి",
+    ta: "எச்சரிக்கைகளைப் புதுப்பிக்கவும்",
+    gu: "ચેતવણી રિફ્રેશ કરો",
+    ur: "الرٹ تازہ کریں",
+    kn: "ಎಚ್ಚರಿಕೆಗಳನ್ನು ರಿಫ್ರೆಶ್ ಮಾಡಿ",
+    or: "ସତର୍କତା ରିଫ୍ରେସ୍ କରନ୍ତୁ",
+  },
+  priceAlertsCommodity: {
+    en: "Commodity",
+    hi: "फसल",
+    bn: "ফসল",
+    mr: "शेतमाल",
+    te: "పంట",
+    ta: "விளைபொருள்",
+    gu: "જણસ",
+    ur: "جنس",
+    kn: "ಬೆಳೆ",
+    or: "ଫସଲ",
+  },
+  priceAlertsMarketDefault: {
+    en: "Market (default: {state})",
+    hi: "मंडी (डिफ़ॉल्ट: {state})",
+    bn: "মন্ডি (ডিফল্ট: {state})",
+    mr: "बाजार समिती (डिफॉल्ट: {state})",
+    te: "మార్కెట్ (డిఫాల్ట్: {state})",
+    ta: "சந்தை (இயல்பு: {state})",
+    gu: "માર્કેટ (ડિફૉલ્ટ: {state})",
+    ur: "منڈی (ڈیفالٹ: {state})",
+    kn: "ಮಾರುಕಟ್ಟೆ (ಡೀಫಾಲ್ಟ್: {state})",
+    or: "ମଣ୍ଡି (ଡିଫଲ୍ଟ: {state})",
+  },
+  priceAlertsMarketOptional: {
+    en: "Market (optional)",
+    hi: "मंडी (वैकल्पिक)",
+    bn: "মন্ডি (ঐচ্ছিক)",
+    mr: "बाजार समिती (पर्यायी)",
+    te: "మార్కెట్ (ఐచ్ఛికం)",
+    ta: "சந்தை (விருப்பம்)",
+    gu: "માર્કેટ (વૈકલ્પિક)",
+    ur: "منڈی (اختیاری)",
+    kn: "ಮಾರುಕಟ್ಟೆ (ಐಚ್ಛಿಕ)",
+    or: "ମଣ୍ଡି (ଇଚ୍ଛାଧୀନ)",
+  },
+  priceAlertAbove: {
+    en: "Price above",
+    hi: "भाव इससे ऊपर",
+    bn: "দাম এর বেশি",
+    mr: "भाव यापेक्षा जास्त",
+    te: "ధర దీనికి మించితే",
+    ta: "விலை இதற்கு மேல்",
+    gu: "ભાવ આનાથી વધુ",
+    ur: "قیمت اس سے زیادہ",
+    kn: "ಬೆಲೆ ಇದಕ್ಕಿಂತ ಹೆಚ್ಚು",
+    or: "ଦର ଏହାଠାରୁ ଅଧିକ",
+  },
+  priceAlertBelow: {
+    en: "Price below",
+    hi: "भाव इससे नीचे",
+    bn: "দাম এর কম",
+    mr: "भाव यापेक्षा कमी",
+    te: "ధర దీనికంటే తక్కువైతే",
+    ta: "விலை இதற்குக் கீழ்",
+    gu: "ભાવ આનાથી ઓછો",
+    ur: "قیمت اس سے کم",
+    kn: "ಬೆಲೆ ಇದಕ್ಕಿಂತ ಕಡಿಮೆ",
+    or: "ଦର ଏହାଠାରୁ କମ୍",
+  },
+  priceAlertPercentChange: {
+    en: "Changes by %",
+    hi: "% बदलने पर",
+    bn: "% পরিবর্তন হলে",
+    mr: "% बदलल्यास",
+    te: "% మారితే",
+    ta: "% மாறினால்",
+    gu: "% બદલાય તો",
+    ur: "% بدلنے پر",
+    kn: "% ಬದಲಾದರೆ",
+    or: "% ବଦଳିଲେ",
+  },
+  priceAlertPercentPlaceholder: {
+    en: "Percent",
+    hi: "प्रतिशत",
+    bn: "শতাংশ",
+    mr: "टक्के",
+    te: "శాతం",
+    ta: "சதவீதம்",
+    gu: "ટકા",
+    ur: "فیصد",
+    kn: "ಶೇಕಡಾ",
+    or: "ପ୍ରତିଶତ",
+  },
+  priceAlertPricePlaceholder: {
+    en: "₹ per quintal",
+    hi: "₹ प्रति क्विंटल",
+    bn: "₹ প্রতি কুইন্টাল",
+    mr: "₹ प्रति क्विंटल",
+    te: "₹ క్వింటాల్‌కు",
+    ta: "₹ ஒரு குவிண்டாலுக்கு",
+    gu: "₹ પ્રતિ ક્વિન્ટલ",
+    ur: "₹ فی کوئنٹل",
+    kn: "₹ ಪ್ರತಿ ಕ್ವಿಂಟಲ್‌ಗೆ",
+    or: "₹ ପ୍ରତି କ୍ୱିଣ୍ଟାଲ",
+  },
+  priceAlertAddButton: {
+    en: "Add Alert",
+    hi: "अलर्ट जोड़ें",
+    bn: "সতর্কতা যোগ করুন",
+    mr: "सूचना जोडा",
+    te: "హెచ్చరిక జోడించండి",
+    ta: "எச்சரிக்கை சேர்",
+    gu: "ચેતવણી ઉમેરો",
+    ur: "الرٹ شامل کریں",
+    kn: "ಎಚ್ಚರಿಕೆ ಸೇರಿಸಿ",
+    or: "ସତର୍କତା ଯୋଡ଼ନ୍ତୁ",
+  },
+  priceAlertsNoneYet: {
+    en: "No alerts yet. One will show here when a price meets your condition.",
+    hi: "अभी कोई अलर्ट नहीं। भाव आपकी शर्त पूरी करते ही यहाँ अलर्ट दिखेगा।",
+    bn: "এখনও কোনো সতর্কতা নেই। দাম আপনার শর্ত পূরণ করলে এখানে দেখা যাবে।",
+    mr: "अजून सूचना नाही. भाव तुमची अट पूर्ण करताच येथे सूचना दिसेल.",
+    te: "ఇంకా హెచ్చరికలు లేవు. ధర మీ షరతును చేరగానే ఇక్కడ కనిపిస్తుంది.",
+    ta: "இன்னும் எச்சரிக்கைகள் இல்லை. விலை உங்கள் நிபந்தனையை எட்டியதும் இங்கே தோன்றும்.",
+    gu: "હજુ કોઈ ચેતવણી નથી. ભાવ તમારી શરત પૂરી કરશે ત્યારે અહીં દેખાશે.",
+    ur: "ابھی کوئی الرٹ نہیں۔ قیمت آپ کی شرط پوری کرتے ہی یہاں الرٹ دکھے گا۔",
+    kn: "ಇನ್ನೂ ಎಚ್ಚರಿಕೆಗಳಿಲ್ಲ. ಬೆಲೆ ನಿಮ್ಮ ಷರತ್ತು ತಲುಪಿದಾಗ ಇಲ್ಲಿ ಕಾಣಿಸುತ್ತದೆ.",
+    or: "ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ସତର୍କତା ନାହିଁ। ଦର ଆପଣଙ୍କ ସର୍ତ୍ତ ପୂରଣ କଲେ ଏଠାରେ ଦେଖାଯିବ।",
+  },
+  priceAlertsEmpty: {
+    en: "Add an alert to hear when prices move.",
+    hi: "भाव बदलने पर खबर पाने के लिए अलर्ट जोड़ें।",
+    bn: "দাম বদলালে জানতে একটি সতর্কতা যোগ করুন।",
+    mr: "भाव बदलल्यावर कळण्यासाठी सूचना जोडा.",
+    te: "ధరలు మారినప్పుడు తెలుసుకోవడానికి హెచ్చరికను జోడించండి.",
+    ta: "விலை மாறும்போது அறிய ஒரு எச்சரிக்கையைச் சேர்க்கவும்.",
+    gu: "ભાવ બદલાય ત્યારે જાણવા ચેતવણી ઉમેરો.",
+    ur: "قیمت بدلنے پر خبر پانے کے لیے الرٹ شامل کریں۔",
+    kn: "ಬೆಲೆ ಬದಲಾದಾಗ ತಿಳಿಯಲು ಎಚ್ಚರಿಕೆ ಸೇರಿಸಿ.",
+    or: "ଦର ବଦଳିଲେ ଜାଣିବା ପାଇଁ ସତର୍କତା ଯୋଡ଼ନ୍ତୁ।",
+  },
+  priceAlertArrivals: {
+    en: "Arrivals of {date}",
+    hi: "{date} की आवक",
+    bn: "{date} তারিখের আমদানি",
+    mr: "{date} ची आवक",
+    te: "{date} నాటి రాక",
+    ta: "{date} வரத்து",
+    gu: "{date}ની આવક",
+    ur: "{date} کی آمد",
+    kn: "{date} ರ ಆವಕ",
+    or: "{date}ର ଆମଦାନୀ",
+  },
+  priceAlertsWatching: {
+    en: "Watching",
+    hi: "निगरानी में",
+    bn: "নজরে আছে",
+    mr: "लक्ष ठेवले आहे",
+    te: "గమనిస్తున్నవి",
+    ta: "கண்காணிப்பில்",
+    gu: "નજર હેઠળ",
+    ur: "نگرانی میں",
+    kn: "ಗಮನಿಸುತ್ತಿರುವವು",
+    or: "ନଜରରେ",
+  },
+  priceAlertAllIndia: {
+    en: "All India",
+    hi: "पूरा भारत",
+    bn: "সারা ভারত",
+    mr: "संपूर्ण भारत",
+    te: "అఖిల భారతం",
+    ta: "அனைத்து இந்தியா",
+    gu: "સમગ્ર ભારત",
+    ur: "پورا بھارت",
+    kn: "ಅಖಿಲ ಭಾರತ",
+    or: "ସମଗ୍ର ଭାରତ",
+  },
+  priceAlertRemove: {
+    en: "Remove alert",
+    hi: "अलर्ट हटाएँ",
+    bn: "সতর্কতা সরান",
+    mr: "सूचना काढा",
+    te: "హెచ్చరికను తొలగించండి",
+    ta: "எச்சரிக்கையை நீக்கவும்",
+    gu: "ચેતવણી દૂર કરો",
+    ur: "الرٹ ہٹائیں",
+    kn: "ಎಚ್ಚರಿಕೆ ತೆಗೆದುಹಾಕಿ",
+    or: "ସତର୍କତା ହଟାନ୍ତୁ",
+  },
+  priceAlertConditionAbove: {
+    en: "above ₹{price}/Q",
+    hi: "₹{price}/क्विं. से ऊपर",
+    bn: "₹{price}/কুই. এর বেশি",
+    mr: "₹{price}/क्विं. पेक्षा जास्त",
+    te: "₹{price}/క్విం. మించితే",
+    ta: "₹{price}/குவி. மேல்",
+    gu: "₹{price}/ક્વિ. થી વધુ",
+    ur: "₹{price}/کوئنٹل سے زیادہ",
+    kn: "₹{price}/ಕ್ವಿಂ. ಮೇಲೆ",
+    or: "₹{price}/କ୍ୱି. ଠାରୁ ଅଧିକ",
+  },
+  priceAlertConditionBelow: {
+    en: "below ₹{price}/Q",
+    hi: "₹{price}/क्विं. से नीचे",
+    bn: "₹{price}/কুই. এর কম",
+    mr: "₹{price}/क्विं. पेक्षा कमी",
+    te: "₹{price}/క్విం. కంటే తక్కువ",
+    ta: "₹{price}/குவி. கீழ்",
+    gu: "₹{price}/ક્વિ. થી ઓછો",
+    ur: "₹{price}/کوئنٹل سے کم",
+    kn: "₹{price}/ಕ್ವಿಂ. ಕೆಳಗೆ",
+    or: "₹{price}/କ୍ୱି. ଠାରୁ କମ୍",
+  },
+  priceAlertConditionPercent: {
+    en: "moves ±{percent}%",
+    hi: "±{percent}% बदलने पर",
+    bn: "±{percent}% বদলালে",
+    mr: "±{percent}% बदलल्यास",
+    te: "±{percent}% మారితే",
+    ta: "±{percent}% மாறினால்",
+    gu: "±{percent}% બદલાય તો",
+    ur: "±{percent}% بدلنے پر",
+    kn: "±{percent}% ಬದಲಾದರೆ",
+    or: "±{percent}% ବଦଳିଲେ",
+  },
+  priceAlertsLoadFailed: {
+    en: "Failed to load price alerts",
+    hi: "भाव अलर्ट लोड नहीं हो सके",
+    bn: "দামের সতর্কতা লোড করা যায়নি",
+    mr: "भाव सूचना लोड झाल्या नाहीत",
+    te: "ధర హెచ్చరికలను లోడ్ చేయలేకపోయాం",
+    ta: "விலை எச்சரிக்கைகளை ஏற்ற முடியவில்லை",
+    gu: "ભાવ ચેતવણી લોડ થઈ નહીં",
+    ur: "قیمت کے الرٹ لوڈ نہیں ہو سکے",
+    kn: "ಬೆಲೆ ಎಚ್ಚರಿಕೆಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ",
+    or: "ଦର ସତର୍କତା ଲୋଡ୍ ହୋଇପାରିଲା ନାହିଁ",
+  },
+  priceAlertCreateFailed: {
+    en: "Failed to create price alert",
+    hi: "भाव अलर्ट नहीं बन सका",
+    bn: "দামের সতর্কতা তৈরি করা যায়নি",
+    mr: "भाव सूचना तयार झाली नाही",
+    te: "ధర హెచ్చరికను సృష్టించలేకపోయాం",
+    ta: "விலை எச்சரிக்கையை உருவாக்க முடியவில்லை",
+    gu: "ભાવ ચેતવણી બની નહીં",
+    ur: "قیمت کا الرٹ نہیں بن سکا",
+    kn: "ಬೆಲೆ ಎಚ್ಚರಿಕೆ ರಚಿಸಲಾಗಲಿಲ್ಲ",
+    or: "ଦର ସତର୍କତା ତିଆରି ହୋଇପାରିଲା ନାହିଁ",
+  },
+
   // Onboarding - Language Selection
   "onboarding.language.title": {
     en: "Choose Your Language",
@@ -0,0 +1,15 @@
+// App languages and their native names, shared by the UI and the server-side agent code
+export type Language = 'en' | 'hi' | 'bn' | 'mr' | 'te' | 'ta' | 'gu' | 'ur' | 'kn' | 'or';
+
+export const LANGUAGES: Record<Language, string> = {
+  en: 'English',
+  hi: 'हिंदी',
+  bn: 'বাংলা',
+  mr: 'मराठी',
+  te: 'తెలుగు',
+  ta: 'தமிழ்',
+  gu: 'ગુજરાતી',
+  ur: 'اردو',
+  kn: 'ಕನ್ನಡ',
+  or: 'ଓଡ଼ିଆ',
+};
@@ -0,0 +1,163 @@
+// Hierarchical mandi index (state → district → market → commodities), shared by the
+// price table and the agent. Generated by scripts/build-mandi-index.ts.
+export interface MandiIndexMarket {
+  name: string;
+  // Commodities seen at this market; empty when the market has not been crawled yet
+  commodities: string[];
+}
+
+export interface MandiIndexDistrict {
+  name: string;
+  markets: MandiIndexMarket[];
+}
+
+export interface MandiIndexState {
+  name: string;
+  districts: MandiIndexDistrict[];
+}
+
+export interface MandiIndex {
+  generatedAt: string | null;
+  source: string;
+  states: MandiIndexState[];
+  commodities: string[];
+  varieties: string[];
+}
+
+// Flat value lists, keyed like the data.gov.in fields
+export interface FlatMandiIndex {
+  State: string[];
+  District: string[];
+  Market: string[];
+  Commodity: string[];
+  Variety: string[];
+}
+
+// One price record's facets; empty district/market/commodity values are allowed
+export interface MandiIndexRecord {
+  state: string;
+  district: string;
+  market: string;
+  commodity: string;
+  variety?: string;
+}
+
+export interface MandiIndexScope {
+  state?: string;
+  district?: string;
+  market?: string;
+}
+
+const byName = (a: string, b: string) => a.localeCompare(b);
+
+function uniqueSorted(values: Iterable<string>): string[] {
+  return [...new Set([...values].map(v => v.trim()).filter(Boolean))].sort(byName);
+}
+
+function sameName(a: string, b?: string): boolean {
+  return !b || a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function buildMandiIndex(records: MandiIndexRecord[], source: string, generatedAt = new Date()): MandiIndex {
+  const tree = new Map<string, Map<string, Map<string, Set<string>>>>();
+  const varieties = new Set<string>();
+
+  for (const record of records) {
+    if (!record.state) continue;
+    const districts = tree.get(record.state) || new Map<string, Map<string, Set<string>>>();
+    tree.set(record.state, districts);
+    if (record.variety) varieties.add(record.variety);
+    if (!record.district) continue;
+
+    const markets = districts.get(record.district) || new Map<string, Set<string>>();
+    districts.set(record.district, markets);
+    if (!record.market) continue;
+
+    const commodities = markets.get(record.market) || new Set<string>();
+    markets.set(record.market, commodities);
+    if (record.commodity) commodities.add(record.commodity);
+  }
+
+  const states = [...tree].sort(([a], [b]) => byName(a, b)).map(([state, districts]) => ({
+    name: state,
+    districts: [...districts].sort(([a], [b]) => byName(a, b)).map(([district, markets]) => ({
+      name: district,
+      markets: [...markets].sort(([a], [b]) => byName(a, b)).map(([market, commodities]) => ({
+        name: market,
+        commodities: uniqueSorted(commodities),
+      })),
+    })),
+  }));
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    source,
+    states,
+    commodities: uniqueSorted(records.map(r => r.commodity)),
+    varieties: uniqueSorted(varieties),
+  };
+}
+
+export function flattenMandiIndex(index: MandiIndex): FlatMandiIndex {
+  const districts = index.states.flatMap(s => s.districts);
+  return {
+    State: index.states.map(s => s.name),
+    District: uniqueSorted(districts.map(d => d.name)),
+    Market: uniqueSorted(districts.flatMap(d => d.markets.map(m => m.name))),
+    Commodity: index.commodities,
+    Variety: index.varieties,
+  };
+}
+
+export function districtsFor(index: MandiIndex, state?: string): string[] {
+  return uniqueSorted(index.states.filter(s => sameName(s.name, state)).flatMap(s => s.districts.map(d => d.name)));
+}
+
+export function marketsFor(index: MandiIndex, scope: Omit<MandiIndexScope, 'market'> = {}): string[] {
+  return uniqueSorted(index.states
+    .filter(s => sameName(s.name, scope.state))
+    .flatMap(s => s.districts.filter(d => sameName(d.name, scope.district)))
+    .flatMap(d => d.markets.map(m => m.name)));
+}
+
+/**
+ * Commodities traded within a scope. Falls back to every known commodity when
+ * the markets in scope have not been crawled yet, so filters never come up empty.
+ */
+export function commoditiesFor(index: MandiIndex, scope: MandiIndexScope = {}): string[] {
+  const traded = uniqueSorted(index.states
+    .filter(s => sameName(s.name, scope.state))
+    .flatMap(s => s.districts.filter(d => sameName(d.name, scope.district)))
+    .flatMap(d => d.markets.filter(m => sameName(m.name, scope.market)))
+    .flatMap(m => m.commodities));
+  return traded.length > 0 ? traded : index.commodities;
+}
+
+/**
+ * Fold freshly crawled records into an existing index. A day's feed only covers
+ * markets that reported that day, so markets already known are kept.
+ */
+export function mergeMandiIndex(base: MandiIndex, records: MandiIndexRecord[], source: string, generatedAt = new Date()): MandiIndex {
+  // Placeholder records keep states, districts and markets that have nothing below them
+  const known: MandiIndexRecord[] = base.states.flatMap(state => {
+    if (state.districts.length === 0) return [{ state: state.name, district: '', market: '', commodity: '' }];
+    return state.districts.flatMap(district => {
+      if (district.markets.length === 0) return [{ state: state.name, district: district.name, market: '', commodity: '' }];
+      return district.markets.flatMap(market =>
+        (market.commodities.length > 0 ? market.commodities : ['']).map(commodity => ({
+          state: state.name,
+          district: district.name,
+          market: market.name,
+          commodity,
+        })),
+      );
+    });
+  });
+
+  const merged = buildMandiIndex([...known, ...records], source, generatedAt);
+  return {
+    ...merged,
+    commodities: uniqueSorted([...base.commodities, ...merged.commodities]),
+    varieties: uniqueSorted([...base.varieties, ...merged.varieties]),
+  };
+}
@@ -0,0 +1,86 @@
+// Weather conditions shared by the weather service, the agent and the UI. Values double
+// as translation keys (hooks/use-translation.ts), so only the UI turns them into text.
+export const WEATHER_CONDITIONS = [
+  'clearSky',
+  'mainlyClear',
+  'partlyCloudy',
+  'overcast',
+  'foggy',
+  'rimeFog',
+  'lightDrizzle',
+  'moderateDrizzle',
+  'denseDrizzle',
+  'lightFreezingDrizzle',
+  'denseFreezingDrizzle',
+  'slightRain',
+  'moderateRain',
+  'heavyRain',
+  'lightFreezingRain',
+  'heavyFreezingRain',
+  'slightSnow',
+  'moderateSnow',
+  'heavySnow',
+  'snowGrains',
+  'slightRainShowers',
+  'moderateRainShowers',
+  'violentRainShowers',
+  'slightSnowShowers',
+  'heavySnowShowers',
+  'thunderstorm',
+  'thunderstormSlightHail',
+  'thunderstormHeavyHail',
+  'unknownCondition',
+] as const;
+
+export type WeatherCondition = typeof WEATHER_CONDITIONS[number];
+
+// WMO weather interpretation codes, as used by Open-Meteo
+const WMO_CONDITIONS: Record<number, WeatherCondition> = {
+  0: 'clearSky',
+  1: 'mainlyClear',
+  2: 'partlyCloudy',
+  3: 'overcast',
+  45: 'foggy',
+  48: 'rimeFog',
+  51: 'lightDrizzle',
+  53: 'moderateDrizzle',
+  55: 'denseDrizzle',
+  56: 'lightFreezingDrizzle',
+  57: 'denseFreezingDrizzle',
+  61: 'slightRain',
+  63: 'moderateRain',
+  65: 'heavyRain',
+  66: 'lightFreezingRain',
+  67: 'heavyFreezingRain',
+  71: 'slightSnow',
+  73: 'moderateSnow',
+  75: 'heavySnow',
+  77: 'snowGrains',
+  80: 'slightRainShowers',
+  81: 'moderateRainShowers',
+  82: 'violentRainShowers',
+  85: 'slightSnowShowers',
+  86: 'heavySnowShowers',
+  95: 'thunderstorm',
+  96: 'thunderstormSlightHail',
+  99: 'thunderstormHeavyHail',
+};
+
+export function weatherConditionFromCode(code: number): WeatherCondition {
+  return WMO_CONDITIONS[code] || 'unknownCondition';
+}
+
+export type WeatherConditionGroup = 'clear' | 'partlyCloudy' | 'cloudy' | 'fog' | 'drizzle' | 'rain' | 'snow' | 'thunderstorm' | 'unknown';
+
+// Coarse grouping for icons and styling
+export function weatherConditionGroup(condition: WeatherCondition): WeatherConditionGroup {
+  if (condition.startsWith('thunderstorm') || condition === 'violentRainShowers') return 'thunderstorm';
+  if (condition.includes('Snow') || condition.includes('Freezing') || condition === 'snowGrains') return 'snow';
+  if (condition.includes('Drizzle')) return 'drizzle';
+  if (condition.includes('Rain')) return 'rain';
+  if (condition === 'foggy' || condition === 'rimeFog') return 'fog';
+  if (condition === 'clearSky') return 'clear';
+  if (condition === 'mainlyClear' || condition === 'partlyCloudy') return 'partlyCloudy';
+  if (condition === 'overcast') return 'cloudy';
+  return 'unknown';
+}
@@ -0,0 +1,68 @@
+import { Agent } from '@mastra/core/agent';
+import { mandiPriceTool } from '../tools/mandi-price-tool';
+import { mandiPriceTrendTool } from '../tools/mandi-price-trend-tool';
+import { mandiPriceForecastTool } from '../tools/mandi-price-forecast-tool';
+import { nearestMandisTool } from '../tools/nearest-mandis-tool';
+import { loadMandiIndex } from '../services/mandi-index';
+import { describeUserContext, getUserContext } from '../services/user-context';
+import type { MandiIndex } from '../../lib/mandi-index';
+import { getAgentModel } from '../services/model-provider';
+import { SPECIALIST_REPORT_RULES, type SpecialistAgentOptions } from './specialist';
+
+export const marketAnalystTools = {
+  mandiPriceTool,
+  mandiPriceTrendTool,
+  mandiPriceForecastTool,
+  nearestMandisTool,
+};
+
+// Every state with its districts, plus markets and their commodities for the farmer's own state
+function describeMandiIndex(index: MandiIndex, stateName?: string): string {
+  const lines = index.states.map(state =>
+    `- ${state.name}: ${state.districts.map(district => district.name).join(', ') || '(no districts yet)'}`);
+
+  const homeState = stateName && index.states.find(state => state.name.toLowerCase() === stateName.trim().toLowerCase());
+  if (homeState) {
+    lines.push('', `Markets in ${homeState.name} (district → market [commodities traded]):`);
+    for (const district of homeState.districts) {
+      for (const market of district.markets) {
+        lines.push(`- ${district.name} → ${market.name}${market.commodities.length > 0 ? ` [${market.commodities.join(', ')}]` : ''}`);
+      }
+    }
+  }
+
+  lines.push('', `Commodities: ${index.commodities.join(', ')}`, `Varieties: ${index.varieties.join(', ')}`);
+  return lines.join('\n');
+}
+
+export function createMarketAnalystAgent({ tools = marketAnalystTools, model }: SpecialistAgentOptions = {}) {
+  return new Agent({
+    name: 'Market Analyst',
+    description: 'Mandi prices, price trends and outlooks, and where to sell',
+    instructions: async ({ runtimeContext }) => `
+   You are the market analyst of a farming assistant for Indian farmers. You answer one market question at a time using mandi (APMC) price data.
+
+   FARMER:
+${describeUserContext(getUserContext(runtimeContext))}
+
+   MANDI PRICES:
+   - BEFORE calling mandiPriceTool, use ONLY the mandi index values below for filtering. If no exact city is found, select the nearest available district of that state. mandiPriceTool also maps local-language and misspelled names (e.g. "धान", "chawal", "pyaz") onto the index itself; if it returns no data, retry once with a value from resolvedNames alternatives.
+   - ALWAYS use English crop names when calling the tools (e.g., "wheat", "rice", "tomato")
+   - Before judging a price as good or poor, call mandiPriceTrendTool for the same commodity and market/district; base the call on its 7/30/90-day percent change, same week last year and volatility
+   - If mandiPriceTrendTool returns hasHistory: false, say price history is not available yet and do not guess a trend
+   - For "should I sell now or hold?" questions, also call mandiPriceForecastTool. Report its range (lower80-upper80) rather than a single number, and say that it is an estimate
+   - If mandiPriceForecastTool returns status "insufficient-history", say a price outlook is not possible yet; never make up future prices
+   - For "where should I sell" or "nearest mandi" questions, call nearestMandisTool with the commodity (it uses the farmer's location from context). Compare markets by netPrice (price after transport), not modal price alone, and give the distance
+   - If nearestMandisTool reports the location is missing, say the farmer's village or nearest town is needed
+   - End with a plain call: "good price now", "wait for better prices" or "not enough data to say"
+${SPECIALIST_REPORT_RULES}
+   MANDI INDEX (state: districts; then district → market [commodities] for the farmer's state). Filter by district or market (city) first—district names have the best availability—and only pick a district that belongs to the state in question. When a market lists its commodities, only ask it for one of those. For "list all commodity prices in [location]", return all available commodity prices for that market or district:
+${describeMandiIndex(await loadMandiIndex(), getUserContext(runtimeContext)?.stateName)}
+`,
+    // The configured model chain unless a test passes its own
+    model: model ?? getAgentModel,
+    tools,
+  });
+}
+
+export const marketAnalystAgent = createMarketAnalystAgent();
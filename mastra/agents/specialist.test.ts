@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockLanguageModelV2 } from 'ai/test';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createUserRuntimeContext } from '../services/user-context';
+import { createDelegateTool } from '../tools/delegate-tool';
+import { createCropDoctorAgent } from './crop-doctor-agent';
+import { createWeatherPlannerAgent } from './weather-planner-agent';
+import { createMarketAnalystAgent } from './market-analyst-agent';
+
+const usage = { inputTokens: 10, outputTokens: 10, totalTokens: 20 };
+
+// Calls one tool on the first turn, then answers with the given text
+function mockModel(toolName: string, input: Record<string, unknown>, text: string) {
+  const model: MockLanguageModelV2 = new MockLanguageModelV2({
+    doGenerate: async () => model.doGenerateCalls.length === 1
+      ? {
+        content: [{ type: 'tool-call', toolCallId: 'call-1', toolName, input: JSON.stringify(input) }],
+        finishReason: 'tool-calls',
+        usage,
+        warnings: [],
+      }
+      : { content: [{ type: 'text', text }], finishReason: 'stop', usage, warnings: [] },
+  });
+  return model;
+}
+
+// A tool that records its inputs and returns a fixed result
+function stubTool<T>(id: string, result: T) {
+  const calls: unknown[] = [];
+  const tool = createTool({
+    id,
+    description: `Stub ${id}`,
+    inputSchema: z.object({}).passthrough(),
+    execute: async ({ context }) => {
+      calls.push(context);
+      return result;
+    },
+  });
+  return { tool, calls };
+}
+
+function systemPrompt(model: MockLanguageModelV2): string {
+  return model.doGenerateCalls[0].prompt
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n');
+}
+
+const farmer = createUserRuntimeContext({ stateName: 'Maharashtra', cityName: 'Nashik', mainCrops: ['Onion'] });
+
+describe('crop doctor', () => {
+  it('answers from the stubbed KCC tool and sees the farmer profile', async () => {
+    const kcc = stubTool('query-kcc-database', { relevantResults: [{ answer: 'Spray mancozeb 2.5 g/l', relevanceScore: 0.8 }] });
+    const model = mockModel('kccDatabaseTool', { query: 'onion purple blotch' }, 'Likely purple blotch. Spray mancozeb 2.5 g/l.');
+    const agent = createCropDoctorAgent({ tools: { kccDatabaseTool: kcc.tool }, model });
+
+    const result = await agent.generate('Onion leaves have purple spots', { runtimeContext: farmer });
+
+    assert.deepEqual(kcc.calls, [{ query: 'onion purple blotch' }]);
+    assert.equal(result.text, 'Likely purple blotch. Spray mancozeb 2.5 g/l.');
+    assert.match(systemPrompt(model), /Maharashtra/);
+    assert.match(systemPrompt(model), /REPORT FORMAT/);
+  });
+});
+
+describe('weather planner', () => {
+  it('uses only the tools it is given', async () => {
+    const weather = stubTool('get-weather', { forecast: [{ date: '2026-10-20', agronomy: { spray: { bestWindow: '07:00-10:00' } } }] });
+    const model = mockModel('weatherTool', { location: 'Nashik' }, 'Spray tomorrow 7-10 AM.');
+    const agent = createWeatherPlannerAgent({ tools: { weatherTool: weather.tool }, model });
+
+    const result = await agent.generate('When can I spray tomorrow?', { runtimeContext: farmer });
+
+    assert.equal(weather.calls.length, 1);
+    assert.equal(result.text, 'Spray tomorrow 7-10 AM.');
+    assert.deepEqual(model.doGenerateCalls[0].tools?.map(tool => tool.name), ['weatherTool']);
+  });
+});
+
+describe('market analyst', () => {
+  it('calls the stubbed mandi tool with the mandi index in its prompt', async () => {
+    const mandi = stubTool('get-mandi-prices', { prices: [{ market: 'Lasalgaon', modalPrice: 1800 }], hasData: true });
+    const model = mockModel('mandiPriceTool', { commodity: 'Onion', district: 'Nashik' }, 'Onion is ₹1800/quintal at Lasalgaon.');
+    const agent = createMarketAnalystAgent({ tools: { mandiPriceTool: mandi.tool }, model });
+
+    const result = await agent.generate('Onion price in Nashik today', { runtimeContext: farmer });
+
+    assert.deepEqual(mandi.calls, [{ commodity: 'Onion', district: 'Nashik' }]);
+    assert.equal(result.text, 'Onion is ₹1800/quintal at Lasalgaon.');
+    assert.match(systemPrompt(model), /MANDI INDEX/);
+  });
+});
+
+describe('createDelegateTool', () => {
+  it('returns the findings and the tools the specialist used', async () => {
+    const kcc = stubTool('query-kcc-database', { relevantResults: [] });
+    const agent = createCropDoctorAgent({
+      tools: { kccDatabaseTool: kcc.tool },
+      model: mockModel('kccDatabaseTool', { query: 'wheat yellow rust' }, 'Yellow rust; spray propiconazole.'),
+    });
+    const delegate = createDelegateTool({ id: 'ask-crop-doctor', description: 'test', agent });
+
+    const output = await delegate.execute!({ context: { task: 'Wheat leaves have yellow stripes' }, runtimeContext: farmer });
+
+    assert.deepEqual(output, {
+      status: 'ok',
+      specialist: 'Crop Doctor',
+      findings: 'Yellow rust; spray propiconazole.',
+      toolsUsed: ['kccDatabaseTool'],
+    });
+  });
+
+  it('reports a failed specialist instead of throwing', async () => {
+    const model = new MockLanguageModelV2({ doGenerate: async () => { throw new Error('model unavailable'); } });
+    const agent = createCropDoctorAgent({ tools: {}, model });
+    const delegate = createDelegateTool({ id: 'ask-crop-doctor', description: 'test', agent });
+
+    const output = await delegate.execute!({ context: { task: 'Wheat leaves have yellow stripes' }, runtimeContext: farmer });
+
+    assert.equal(output.status, 'failed');
+    assert.deepEqual(output.toolsUsed, []);
+  });
+});
@@ -0,0 +1,19 @@
+import type { MastraLanguageModel, ToolsInput } from '@mastra/core/agent';
+
+/**
+ * Overrides for building a specialist agent. Tests pass stub tools and a mock model
+ * so a specialist can run without live mandi, weather or KCC services.
+ */
+export interface SpecialistAgentOptions<TTools extends ToolsInput = ToolsInput> {
+  tools?: TTools;
+  model?: MastraLanguageModel;
+}
+
+// Shared closing rules: specialists report to the supervisor, not to the farmer
+export const SPECIALIST_REPORT_RULES = `
+   REPORT FORMAT:
+   - You report to the main farming assistant, which writes the farmer's answer. Reply in simple English, even if the task quotes another language.
+   - Start with the direct finding in one or two sentences, then up to five short bullets with the numbers, dates and places behind it.
+   - Only report what your tools returned. If a tool had no data or failed, say so plainly; never make up prices, forecasts or doses.
+   - Do not greet, do not add a closing line and do not mention tool names.
+`;
@@ -3,10 +3,17 @@ import { Mastra } from '@mastra/core/mastra';
 import { PinoLogger } from '@mastra/loggers';
 
 import { kccAgent } from './agents/kcc-agent';
+import { cropDoctorAgent } from './agents/crop-doctor-agent';
+import { weatherPlannerAgent } from './agents/weather-planner-agent';
+import { marketAnalystAgent } from './agents/market-analyst-agent';
+import { cropDiagnosisWorkflow } from './workflows/crop-diagnosis-workflow';
+import { WorkflowSnapshotStore } from './services/workflow-snapshot-store';
 
 export const mastra = new Mastra({
-  workflows: {},
-  agents: { kccAgent },
+  workflows: { cropDiagnosisWorkflow },
+  agents: { kccAgent, cropDoctorAgent, weatherPlannerAgent, marketAnalystAgent },
+  // Keeps suspended workflow runs (e.g. a diagnosis waiting for the farmer's answer) between requests
+  storage: new WorkflowSnapshotStore(),
   aiSdkCompat: 'v4',
   logger: new PinoLogger({
     name: 'Mastra',
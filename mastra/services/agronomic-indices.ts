@@ -0,0 +1,286 @@
+// Farming indices derived from an hourly/daily forecast: spray and other field-operation
+// windows, growing degree days, heat/frost flags and disease-favourable humidity
+
+export interface HourlyWeather {
+  time: string; // local ISO time, e.g. 2025-08-18T06:00
+  temperature: number;
+  humidity: number;
+  precipitation: number;
+  precipitationChance: number;
+  windSpeed: number;
+}
+
+export interface SprayWindow {
+  start: string; // HH:MM
+  end: string;
+  hours: number;
+}
+
+export const FIELD_OPERATIONS = ['spraying', 'irrigation', 'harvesting', 'drying'] as const;
+export type FieldOperation = typeof FIELD_OPERATIONS[number];
+
+export interface OperationWindow extends SprayWindow {
+  date: string;
+  day: 'today' | 'tomorrow';
+}
+
+export interface OperationWindows {
+  operation: FieldOperation;
+  windows: OperationWindow[];
+  // Longest window, earliest first on ties
+  best: OperationWindow | null;
+}
+
+export interface CropDegreeDays {
+  crop: string;
+  baseTemp: number;
+  gdd: number;
+}
+
+export interface AgronomicIndices {
+  spray: {
+    suitable: boolean;
+    suitableHours: number;
+    windows: SprayWindow[];
+    bestWindow: SprayWindow | null;
+  };
+  growingDegreeDays: CropDegreeDays[];
+  // FAO-56 reference evapotranspiration, mm/day
+  et0: number | null;
+  heatStress: boolean;
+  frostRisk: boolean;
+  diseaseFavourable: boolean;
+  // Hours with relative humidity at or above LEAF_WETNESS_HUMIDITY, or with rain
+  leafWetnessHours: number;
+}
+
+export const SPRAY_THRESHOLDS = {
+  // Drift rises above ~15 km/h; below ~3 km/h inversions can carry fine droplets
+  minWindKmh: 3,
+  maxWindKmh: 15,
+  minHumidity: 40,
+  maxHumidity: 90,
+  rainFreeHours: 6,
+  maxRainChance: 30,
+  firstHour: 6,
+  lastHour: 18,
+};
+
+// Per-operation hour filters. An hour qualifies when it is inside [firstHour, lastHour),
+// passes suits(), and neither it nor the next lookAheadHours bring rain.
+interface OperationRule {
+  firstHour: number;
+  lastHour: number;
+  lookAheadHours: number;
+  maxRainChance: number;
+  suits: (hour: HourlyWeather) => boolean;
+}
+
+const OPERATION_RULES: Record<FieldOperation, OperationRule> = {
+  spraying: {
+    firstHour: SPRAY_THRESHOLDS.firstHour,
+    lastHour: SPRAY_THRESHOLDS.lastHour,
+    lookAheadHours: SPRAY_THRESHOLDS.rainFreeHours,
+    maxRainChance: SPRAY_THRESHOLDS.maxRainChance,
+    suits: hour => hour.windSpeed >= SPRAY_THRESHOLDS.minWindKmh && hour.windSpeed <= SPRAY_THRESHOLDS.maxWindKmh
+      && hour.humidity >= SPRAY_THRESHOLDS.minHumidity && hour.humidity <= SPRAY_THRESHOLDS.maxHumidity,
+  },
+  // Cool, calm hours lose least water to evaporation; skip irrigation if rain is due within 12h
+  irrigation: {
+    firstHour: 5,
+    lastHour: 20,
+    lookAheadHours: 12,
+    maxRainChance: 40,
+    suits: hour => hour.temperature <= 32 && hour.windSpeed <= 20 && (hourOf(hour.time) < 10 || hourOf(hour.time) >= 16),
+  },
+  // Grain and produce should come in dry: low humidity, no rain during or just after
+  harvesting: {
+    firstHour: 7,
+    lastHour: 18,
+    lookAheadHours: 3,
+    maxRainChance: 30,
+    suits: hour => hour.humidity <= 80 && hour.windSpeed <= 30,
+  },
+  // Sun drying of grain, chillies, hay etc. needs warm, dry air for the following hours
+  drying: {
+    firstHour: 9,
+    lastHour: 17,
+    lookAheadHours: 6,
+    maxRainChance: 20,
+    suits: hour => hour.humidity <= 65 && hour.temperature >= 20,
+  },
+};
+
+export const HEAT_STRESS_TEMP = 35;
+export const FROST_RISK_TEMP = 2;
+const LEAF_WETNESS_HUMIDITY = 90;
+// Most fungal leaf diseases need roughly 10+ wet hours at moderate temperatures
+const DISEASE_WETNESS_HOURS = 10;
+const DISEASE_MIN_TEMP = 15;
+const DISEASE_MAX_TEMP = 30;
+
+// Base and upper cut-off temperatures (°C) for growing degree days
+const CROP_TEMPERATURES: Record<string, { base: number; upper: number }> = {
+  rice: { base: 10, upper: 35 },
+  wheat: { base: 0, upper: 30 },
+  maize: { base: 10, upper: 30 },
+  barley: { base: 0, upper: 30 },
+  bajra: { base: 10, upper: 35 },
+  jowar: { base: 10, upper: 35 },
+  sugarcane: { base: 12, upper: 35 },
+  cotton: { base: 15.5, upper: 35 },
+  jute: { base: 10, upper: 35 },
+  tea: { base: 12.5, upper: 30 },
+  coffee: { base: 10, upper: 30 },
+  pulses: { base: 5, upper: 30 },
+  mustard: { base: 5, upper: 30 },
+  groundnut: { base: 10, upper: 35 },
+  soybean: { base: 10, upper: 30 },
+  sunflower: { base: 7, upper: 30 },
+  potato: { base: 7, upper: 30 },
+  onion: { base: 6, upper: 30 },
+  tomato: { base: 10, upper: 30 },
+  mango: { base: 15, upper: 35 },
+};
+const DEFAULT_CROP_TEMPERATURE = { base: 10, upper: 30 };
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// "Bajra (Pearl Millet)" → bajra; unknown crops get the common 10 °C base
+export function cropTemperatures(crop: string): { base: number; upper: number } {
+  const key = crop.toLowerCase().replace(/\(.*?\)/g, '').trim();
+  return CROP_TEMPERATURES[key]
+    || Object.entries(CROP_TEMPERATURES).find(([name]) => key.includes(name))?.[1]
+    || DEFAULT_CROP_TEMPERATURE;
+}
+
+// Averaging method with both temperatures clamped to [base, upper]
+export function growingDegreeDays(maxTemp: number, minTemp: number, crop: string): CropDegreeDays {
+  const { base, upper } = cropTemperatures(crop);
+  const clamp = (t: number) => Math.min(Math.max(t, base), upper);
+  return { crop, baseTemp: base, gdd: round((clamp(maxTemp) + clamp(minTemp)) / 2 - base) };
+}
+
+function hourOf(time: string): number {
+  return Number(time.slice(11, 13));
+}
+
+/**
+ * Runs of consecutive hours on the given date that suit a field operation. Rain is
+ * checked over the look-ahead as well, so pass the hours that follow the date too.
+ */
+export function operationWindows(hours: HourlyWeather[], date: string, operation: FieldOperation): SprayWindow[] {
+  const rule = OPERATION_RULES[operation];
+  const windows: SprayWindow[] = [];
+  let current: SprayWindow | null = null;
+
+  hours.forEach((hour, index) => {
+    if (!hour.time.startsWith(date)) return;
+    const hourOfDay = hourOf(hour.time);
+    const ahead = hours.slice(index, index + rule.lookAheadHours + 1);
+    const suitable = hourOfDay >= rule.firstHour && hourOfDay < rule.lastHour
+      && rule.suits(hour)
+      && ahead.every(h => h.precipitation < 0.1 && h.precipitationChance <= rule.maxRainChance);
+
+    if (suitable) {
+      const end = `${String(hourOfDay + 1).padStart(2, '0')}:00`;
+      if (current) {
+        current.end = end;
+        current.hours++;
+      } else {
+        current = { start: hour.time.slice(11, 16), end, hours: 1 };
+        windows.push(current);
+      }
+    } else {
+      current = null;
+    }
+  });
+
+  return windows;
+}
+
+// Daylight hours with wind in range, humidity in band and no rain for the next rainFreeHours
+export function sprayWindows(hours: HourlyWeather[], date: string): SprayWindow[] {
+  return operationWindows(hours, date, 'spraying');
+}
+
+function longest<T extends SprayWindow>(windows: T[]): T | null {
+  return windows.reduce<T | null>((best, window) => (!best || window.hours > best.hours ? window : best), null);
+}
+
+/**
+ * Windows today and tomorrow that suit the operation. Expects hours starting at the
+ * current hour (see upcomingHours), so today's windows never lie in the past.
+ */
+export function bestOperationWindows(hours: HourlyWeather[], operation: FieldOperation): OperationWindows {
+  const dates = [...new Set(hours.map(hour => hour.time.slice(0, 10)))].slice(0, 2);
+  const windows = dates.flatMap((date, index) => operationWindows(hours, date, operation).map(window => ({
+    ...window,
+    date,
+    day: index === 0 ? 'today' as const : 'tomorrow' as const,
+  })));
+  return { operation, windows, best: longest(windows) };
+}
+
+/**
+ * Hourly rows from the current hour on. Open-Meteo's hourly series starts at local
+ * midnight, and its current.time is in the same local time.
+ */
+export function upcomingHours(hours: HourlyWeather[], currentTime: string, count: number): HourlyWeather[] {
+  const currentHour = currentTime.slice(0, 13);
+  const start = hours.findIndex(hour => hour.time.slice(0, 13) >= currentHour);
+  return start < 0 ? [] : hours.slice(start, start + count);
+}
+
+export function computeAgronomicIndices(
+  day: { date: string; maxTemp: number; minTemp: number; et0?: number | null },
+  hours: HourlyWeather[],
+  crops: string[],
+): AgronomicIndices {
+  const windows = sprayWindows(hours, day.date);
+  const dayHours = hours.filter(hour => hour.time.startsWith(day.date));
+  const leafWetnessHours = dayHours.filter(hour => hour.humidity >= LEAF_WETNESS_HUMIDITY || hour.precipitation >= 0.1).length;
+  const meanTemp = (day.maxTemp + day.minTemp) / 2;
+
+  return {
+    spray: {
+      suitable: windows.length > 0,
+      suitableHours: windows.reduce((sum, window) => sum + window.hours, 0),
+      windows,
+      bestWindow: longest(windows),
+    },
+    growingDegreeDays: crops.map(crop => growingDegreeDays(day.maxTemp, day.minTemp, crop)),
+    et0: day.et0 === undefined || day.et0 === null ? null : round(day.et0),
+    heatStress: day.maxTemp >= HEAT_STRESS_TEMP,
+    frostRisk: day.minTemp <= FROST_RISK_TEMP,
+    diseaseFavourable: leafWetnessHours >= DISEASE_WETNESS_HOURS && meanTemp >= DISEASE_MIN_TEMP && meanTemp <= DISEASE_MAX_TEMP,
+    leafWetnessHours,
+  };
+}
+
+export const DEFAULT_HOURLY_HOURS = 48;
+export const MAX_HOURLY_HOURS = 72;
+
+export interface HourlyOutlook {
+  hours: HourlyWeather[];
+  bestWindows: OperationWindows[];
+}
+
+// Hourly forecast from now plus today/tomorrow windows for one operation, or all of them
+export function hourlyOutlook(
+  hours: HourlyWeather[],
+  currentTime: string,
+  options: { hours?: number; operation?: FieldOperation } = {},
+): HourlyOutlook {
+  const count = Math.min(options.hours || DEFAULT_HOURLY_HOURS, MAX_HOURLY_HOURS);
+  // Windows need rain look-ahead past tomorrow evening, so they see every remaining hour
+  const remaining = upcomingHours(hours, currentTime, hours.length);
+  const operations = options.operation ? [options.operation] : [...FIELD_OPERATIONS];
+  return {
+    hours: remaining.slice(0, count),
+    bestWindows: operations.map(operation => bestOperationWindows(remaining, operation)),
+  };
+}
@@ -0,0 +1,127 @@
+import {
+  annotateRestrictedAgrochemicals,
+  findRestrictedSpans,
+  logSafetyIntervention,
+  LONGEST_RESTRICTED_TERM,
+  type SafetyFinding,
+} from './pesticide-safety';
+
+interface TextPartState {
+  pending: string;
+  annotated: Set<string>;
+}
+
+type StreamPart = { type?: string; id?: string; delta?: string };
+
+/**
+ * Guard a UI message SSE stream (as produced by `toUIMessageStreamResponse`) against
+ * banned or restricted agrochemicals in the agent's answer.
+ *
+ * Text deltas are held back by the length of the longest restricted name, so a name
+ * split across chunks is still caught; every other event passes through untouched.
+ */
+export function createAnswerSafetyStream(reference?: string): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const parts = new Map<string, TextPartState>();
+  const findings: SafetyFinding[] = [];
+  let buffer = '';
+
+  const emit = (controller: TransformStreamDefaultController<Uint8Array>, line: string) => {
+    controller.enqueue(encoder.encode(`${line}\n`));
+  };
+
+  const emitDelta = (controller: TransformStreamDefaultController<Uint8Array>, id: string, delta: string) => {
+    if (!delta) return;
+    emit(controller, `data: ${JSON.stringify({ type: 'text-delta', id, delta })}`);
+    emit(controller, '');
+  };
+
+  const release = (state: TextPartState, text: string) => {
+    const result = annotateRestrictedAgrochemicals(text, state.annotated);
+    findings.push(...result.findings);
+    return result.text;
+  };
+
+  const handleLine = (controller: TransformStreamDefaultController<Uint8Array>, line: string) => {
+    if (!line.startsWith('data: ')) {
+      emit(controller, line);
+      return;
+    }
+
+    let part: StreamPart;
+    try {
+      part = JSON.parse(line.slice('data: '.length));
+    } catch {
+      emit(controller, line);
+      return;
+    }
+
+    if (part.type === 'text-delta' && part.id && typeof part.delta === 'string') {
+      const state = parts.get(part.id) || { pending: '', annotated: new Set<string>() };
+      parts.set(part.id, state);
+      state.pending += part.delta;
+
+      // Only release text that cannot be the start of a restricted name still arriving
+      const cut = findSafeCut(state.pending);
+      if (cut > 0) {
+        emitDelta(controller, part.id, release(state, state.pending.slice(0, cut)));
+        state.pending = state.pending.slice(cut);
+      }
+      return;
+    }
+
+    if (part.type === 'text-end' && part.id) {
+      const state = parts.get(part.id);
+      if (state) {
+        emitDelta(controller, part.id, release(state, state.pending));
+        state.pending = '';
+      }
+    }
+
+    emit(controller, line);
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        handleLine(controller, line);
+      }
+    },
+    flush(controller) {
+      buffer += decoder.decode();
+      if (buffer) handleLine(controller, buffer);
+
+      // Text parts that never saw a text-end
+      for (const [id, state] of parts) {
+        emitDelta(controller, id, release(state, state.pending));
+      }
+
+      if (findings.length > 0) {
+        logSafetyIntervention({
+          source: 'agent-answer',
+          action: 'annotated',
+          reference,
+          findings: findings.map(({ name, status, matchedText }) => ({ name, status, matchedText })),
+        });
+      }
+    },
+  });
+}
+
+// Cut at a word boundary at least one restricted-name length before the end of the text,
+// and never inside a (multi-word) restricted name
+function findSafeCut(text: string): number {
+  let cut = text.length - (LONGEST_RESTRICTED_TERM + 1);
+  if (cut <= 0) return 0;
+  while (cut > 0 && /[\p{L}\p{N}]/u.test(text[cut - 1]) && /[\p{L}\p{N}]/u.test(text[cut])) {
+    cut--;
+  }
+  for (const span of findRestrictedSpans(text)) {
+    if (span.start < cut && cut < span.end) cut = span.start;
+  }
+  return cut;
+}
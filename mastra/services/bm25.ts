@@ -0,0 +1,121 @@
+// Minimal BM25 implementation used for offline KCC search and lexical re-ranking
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is',
+  'it', 'my', 'of', 'on', 'or', 'please', 'should', 'tell', 'that', 'the', 'this', 'to', 'what', 'when', 'which',
+  'with', 'about', 'asked', 'farmer', 'information', 'regarding', 'query',
+]);
+
+const K1 = 1.2;
+const B = 0.75;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export interface Bm25Document {
+  termFrequencies: Record<string, number>;
+  length: number;
+}
+
+export interface SerializedBm25Index {
+  documents: Bm25Document[];
+  documentFrequencies: Record<string, number>;
+  averageLength: number;
+}
+
+export interface Bm25Match {
+  index: number;
+  score: number;
+  // Share of the query's IDF weight found in the document (0..1)
+  coverage: number;
+}
+
+export class Bm25Index {
+  private constructor(private readonly data: SerializedBm25Index) {}
+
+  static build(texts: string[]): Bm25Index {
+    const documentFrequencies: Record<string, number> = {};
+    let totalLength = 0;
+
+    const documents = texts.map(text => {
+      const tokens = tokenize(text);
+      const termFrequencies: Record<string, number> = {};
+      for (const token of tokens) {
+        termFrequencies[token] = (termFrequencies[token] || 0) + 1;
+      }
+      for (const term of Object.keys(termFrequencies)) {
+        documentFrequencies[term] = (documentFrequencies[term] || 0) + 1;
+      }
+      totalLength += tokens.length;
+      return { termFrequencies, length: tokens.length };
+    });
+
+    return new Bm25Index({
+      documents,
+      documentFrequencies,
+      averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    });
+  }
+
+  static fromJSON(data: SerializedBm25Index): Bm25Index {
+    return new Bm25Index(data);
+  }
+
+  toJSON(): SerializedBm25Index {
+    return this.data;
+  }
+
+  get size(): number {
+    return this.data.documents.length;
+  }
+
+  idf(term: string): number {
+    const n = this.data.documents.length;
+    const df = this.data.documentFrequencies[term] || 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+
+  scoreDocument(queryTerms: string[], index: number): Bm25Match {
+    const doc = this.data.documents[index];
+    const avgLength = this.data.averageLength || 1;
+    let score = 0;
+    let matchedWeight = 0;
+    let totalWeight = 0;
+
+    for (const term of new Set(queryTerms)) {
+      const idf = this.idf(term);
+      totalWeight += idf;
+      const tf = doc?.termFrequencies[term] || 0;
+      if (tf === 0) continue;
+      matchedWeight += idf;
+      score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (doc.length / avgLength)));
+    }
+
+    return { index, score, coverage: totalWeight > 0 ? matchedWeight / totalWeight : 0 };
+  }
+
+  search(query: string, limit: number, accept?: (index: number) => boolean): Bm25Match[] {
+    const queryTerms = tokenize(query);
+    if (queryTerms.length === 0) return [];
+
+    const matches: Bm25Match[] = [];
+    for (let i = 0; i < this.data.documents.length; i++) {
+      if (accept && !accept(i)) continue;
+      const match = this.scoreDocument(queryTerms, i);
+      if (match.score > 0) matches.push(match);
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+// Score arbitrary texts against a query, using the texts themselves as the corpus
+export function scoreTexts(query: string, texts: string[]): Bm25Match[] {
+  const index = Bm25Index.build(texts);
+  const queryTerms = tokenize(query);
+  return texts.map((_, i) => index.scoreDocument(queryTerms, i));
+}
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ClimateNormalsError,
+  compareWithClimateNormals,
+  FixtureClimateArchiveProvider,
+  OpenMeteoArchiveProvider,
+  rainfallCategory,
+} from './climate-normals';
+
+describe('compareWithClimateNormals with the recorded Open-Meteo archive', () => {
+  it('reports the season-to-date rainfall departure against the baseline years', async () => {
+    const comparison = await compareWithClimateNormals(
+      { latitude: 19.9975, longitude: 73.7898 },
+      new FixtureClimateArchiveProvider(),
+    );
+
+    assert.deepEqual(comparison.season, { name: 'monsoon', startDate: '2025-06-01', throughDate: '2025-08-18', days: 79 });
+    assert.deepEqual(comparison.baseline, { firstYear: 2015, lastYear: 2024, years: 10 });
+
+    const { rainfall } = comparison;
+    assert.equal(rainfall.seasonToDate, 374.3);
+    assert.equal(rainfall.normal, 505.2);
+    assert.equal(rainfall.departurePercent, -25.9);
+    assert.equal(rainfall.category, 'deficient');
+    assert.equal(rainfall.rainyDays, 33);
+    assert.equal(comparison.provider, 'fixture');
+  });
+});
+
+describe('rainfallCategory', () => {
+  it('uses the IMD departure bands', () => {
+    assert.deepEqual(
+      [65, 30, 10, -19, -25.9, -70, -100].map(rainfallCategory),
+      ['largeExcess', 'excess', 'normal', 'normal', 'deficient', 'largeDeficient', 'noRain'],
+    );
+  });
+});
+
+describe('OpenMeteoArchiveProvider', () => {
+  it('turns a failed request into a 502 ClimateNormalsError', async () => {
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = async () => {
+      throw new TypeError('fetch failed');
+    };
+    try {
+      await assert.rejects(
+        new OpenMeteoArchiveProvider().dailyHistory({ latitude: 20, longitude: 73.8, startDate: '2025-06-01', endDate: '2025-08-18' }),
+        (error: unknown) => error instanceof ClimateNormalsError && error.status === 502 && /fetch failed/.test(error.message),
+      );
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+  });
+});
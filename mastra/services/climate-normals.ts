@@ -0,0 +1,304 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// One day of observed (reanalysis) weather
+export interface ArchiveDay {
+  date: string; // YYYY-MM-DD
+  precipitation: number;
+  maxTemp: number;
+  minTemp: number;
+}
+
+/**
+ * Source of historical daily weather. Open-Meteo's ERA5 archive is the default; the
+ * fixture provider replays recorded seasons so the tool and panel work offline.
+ */
+export interface ClimateArchiveProvider {
+  readonly name: string;
+  // "Today" for this provider; recorded data has its own fixed date
+  currentDate(): Promise<string>;
+  dailyHistory(request: { latitude: number; longitude: number; startDate: string; endDate: string }): Promise<ArchiveDay[]>;
+}
+
+// IMD seasons
+export type ClimateSeason = 'winter' | 'preMonsoon' | 'monsoon' | 'postMonsoon';
+
+// IMD rainfall categories by percent departure from normal
+export type RainfallCategory = 'largeExcess' | 'excess' | 'normal' | 'deficient' | 'largeDeficient' | 'noRain';
+
+export interface ClimateComparison {
+  latitude: number;
+  longitude: number;
+  season: {
+    name: ClimateSeason;
+    startDate: string;
+    throughDate: string;
+    days: number;
+  };
+  baseline: {
+    firstYear: number;
+    lastYear: number;
+    years: number;
+  };
+  rainfall: {
+    seasonToDate: number; // mm
+    normal: number; // mm, baseline average over the same dates
+    departurePercent: number | null;
+    category: RainfallCategory | null;
+    rainyDays: number;
+    normalRainyDays: number;
+  };
+  temperature: {
+    mean: number | null; // °C
+    normalMean: number | null;
+    departure: number | null; // °C
+    meanMax: number | null;
+    normalMeanMax: number | null;
+    meanMin: number | null;
+    normalMeanMin: number | null;
+  };
+  provider: string;
+}
+
+export class ClimateNormalsError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ClimateNormalsError';
+  }
+}
+
+export const DEFAULT_BASELINE_YEARS = 10;
+export const MAX_BASELINE_YEARS = 30;
+// ERA5 reanalysis reaches the archive with about five days' delay
+const ARCHIVE_LAG_DAYS = 5;
+// IMD counts a day with 2.5 mm or more as a rainy day
+const RAINY_DAY_MM = 2.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Season start as MM-DD, in calendar order
+const SEASON_STARTS: Array<[ClimateSeason, string]> = [
+  ['winter', '01-01'],
+  ['preMonsoon', '03-01'],
+  ['monsoon', '06-01'],
+  ['postMonsoon', '10-01'],
+];
+
+export function seasonFor(date: string): { name: ClimateSeason; startMonthDay: string } {
+  const monthDay = date.slice(5);
+  const [name, startMonthDay] = [...SEASON_STARTS].reverse().find(([, start]) => monthDay >= start)!;
+  return { name, startMonthDay };
+}
+
+export function rainfallCategory(departurePercent: number): RainfallCategory {
+  if (departurePercent <= -100) return 'noRain';
+  if (departurePercent <= -60) return 'largeDeficient';
+  if (departurePercent <= -20) return 'deficient';
+  if (departurePercent < 20) return 'normal';
+  if (departurePercent < 60) return 'excess';
+  return 'largeExcess';
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+interface OpenMeteoArchiveResponse {
+  daily: {
+    time: string[];
+    precipitation_sum: Array<number | null>;
+    temperature_2m_max: Array<number | null>;
+    temperature_2m_min: Array<number | null>;
+  };
+}
+
+// Days the archive has not filled in yet come back as nulls and are dropped
+export function parseOpenMeteoArchive(data: OpenMeteoArchiveResponse): ArchiveDay[] {
+  return data.daily.time.flatMap((date, index) => {
+    const precipitation = data.daily.precipitation_sum[index];
+    const maxTemp = data.daily.temperature_2m_max[index];
+    const minTemp = data.daily.temperature_2m_min[index];
+    if (precipitation === null || maxTemp === null || minTemp === null) return [];
+    return [{ date, precipitation, maxTemp, minTemp }];
+  });
+}
+
+// DNS failures, resets and timeouts surface as an upstream error, like a bad status
+async function fetchArchive(url: string): Promise<Response> {
+  try {
+    return await fetch(url);
+  } catch (error) {
+    throw new ClimateNormalsError(
+      `Open-Meteo archive request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      502,
+    );
+  }
+}
+
+export class OpenMeteoArchiveProvider implements ClimateArchiveProvider {
+  readonly name = 'open-meteo-archive';
+
+  async currentDate() {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  async dailyHistory({ latitude, longitude, startDate, endDate }: { latitude: number; longitude: number; startDate: string; endDate: string }) {
+    const archiveUrl = `https://archive-api.open-meteo.com/v1/archive?latitude=${latitude}&longitude=${longitude}&start_date=${startDate}&end_date=${endDate}&daily=precipitation_sum,temperature_2m_max,temperature_2m_min&timezone=auto`;
+    const response = await fetchArchive(archiveUrl);
+    if (!response.ok) {
+      throw new ClimateNormalsError(`Open-Meteo archive returned status ${response.status}`, 502);
+    }
+    return parseOpenMeteoArchive((await response.json()) as OpenMeteoArchiveResponse);
+  }
+}
+
+interface ClimateFixture {
+  asOf: string;
+  archive: OpenMeteoArchiveResponse;
+}
+
+export const DEFAULT_CLIMATE_FIXTURE_PATH = path.join(process.cwd(), 'mastra', 'fixtures', 'open-meteo-archive.json');
+
+// Recorded archive seasons for one location, served for any coordinates
+export class FixtureClimateArchiveProvider implements ClimateArchiveProvider {
+  readonly name = 'fixture';
+  private fixture: Promise<ClimateFixture> | null = null;
+
+  constructor(private readonly source: string | ClimateFixture = DEFAULT_CLIMATE_FIXTURE_PATH) {}
+
+  private load(): Promise<ClimateFixture> {
+    if (!this.fixture) {
+      const source = this.source;
+      this.fixture = typeof source === 'string'
+        ? fs.readFile(source, 'utf8').then(text => JSON.parse(text) as ClimateFixture)
+        : Promise.resolve(source);
+    }
+    return this.fixture;
+  }
+
+  async currentDate() {
+    return (await this.load()).asOf;
+  }
+
+  async dailyHistory({ startDate, endDate }: { startDate: string; endDate: string }) {
+    return parseOpenMeteoArchive((await this.load()).archive).filter(day => day.date >= startDate && day.date <= endDate);
+  }
+}
+
+let provider: ClimateArchiveProvider | null = null;
+
+// Provider selected by CLIMATE_PROVIDER: "open-meteo" (default) or "fixture" (CLIMATE_FIXTURE_PATH)
+export function getClimateArchiveProvider(): ClimateArchiveProvider {
+  if (!provider) {
+    const selected = (process.env.CLIMATE_PROVIDER || 'open-meteo').trim().toLowerCase();
+    provider = selected === 'fixture'
+      ? new FixtureClimateArchiveProvider(process.env.CLIMATE_FIXTURE_PATH || DEFAULT_CLIMATE_FIXTURE_PATH)
+      : new OpenMeteoArchiveProvider();
+  }
+  return provider;
+}
+
+export function setClimateArchiveProvider(next: ClimateArchiveProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Season-to-date rainfall and temperature at a location against the average of the
+ * same calendar span over the previous baselineYears years.
+ */
+export async function compareWithClimateNormals(
+  query: { latitude: number; longitude: number; baselineYears?: number },
+  archiveProvider = getClimateArchiveProvider(),
+): Promise<ClimateComparison> {
+  const { latitude, longitude } = query;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    throw new ClimateNormalsError('latitude and longitude are required', 400);
+  }
+  const baselineYears = Math.min(Math.max(Math.round(query.baselineYears || DEFAULT_BASELINE_YEARS), 1), MAX_BASELINE_YEARS);
+
+  const throughDate = addDays(await archiveProvider.currentDate(), -ARCHIVE_LAG_DAYS);
+  const season = seasonFor(throughDate);
+  const throughYear = Number(throughDate.slice(0, 4));
+  const throughMonthDay = throughDate.slice(5);
+  const firstYear = throughYear - baselineYears;
+
+  const history = await archiveProvider.dailyHistory({
+    latitude,
+    longitude,
+    startDate: `${firstYear}-${season.startMonthDay}`,
+    endDate: throughDate,
+  });
+
+  const inSeason = history.filter(day => {
+    const monthDay = day.date.slice(5);
+    return monthDay >= season.startMonthDay && monthDay <= throughMonthDay;
+  });
+  const current = inSeason.filter(day => day.date.startsWith(`${throughYear}-`));
+  const baselineByYear = new Map<number, ArchiveDay[]>();
+  for (const day of inSeason) {
+    const year = Number(day.date.slice(0, 4));
+    if (year >= throughYear) continue;
+    baselineByYear.set(year, [...(baselineByYear.get(year) || []), day]);
+  }
+
+  if (current.length === 0 || baselineByYear.size === 0) {
+    throw new ClimateNormalsError('Not enough archive data for this location and season yet', 404);
+  }
+
+  const baselineSeasons = [...baselineByYear.values()];
+  const sum = (days: ArchiveDay[]) => days.reduce((total, day) => total + day.precipitation, 0);
+  const rainyDays = (days: ArchiveDay[]) => days.filter(day => day.precipitation >= RAINY_DAY_MM).length;
+
+  const seasonToDate = sum(current);
+  const normal = average(baselineSeasons.map(sum))!;
+  const departurePercent = normal > 0 ? round(((seasonToDate - normal) / normal) * 100) : null;
+
+  const meanOf = (days: ArchiveDay[], value: (day: ArchiveDay) => number) => average(days.map(value));
+  const baselineDays = baselineSeasons.flat();
+  const dayMean = (day: ArchiveDay) => (day.maxTemp + day.minTemp) / 2;
+  const mean = meanOf(current, dayMean);
+  const normalMean = meanOf(baselineDays, dayMean);
+  const rounded = (value: number | null) => (value === null ? null : round(value));
+
+  return {
+    latitude,
+    longitude,
+    season: {
+      name: season.name,
+      startDate: `${throughYear}-${season.startMonthDay}`,
+      throughDate,
+      days: current.length,
+    },
+    baseline: {
+      firstYear: Math.min(...baselineByYear.keys()),
+      lastYear: Math.max(...baselineByYear.keys()),
+      years: baselineByYear.size,
+    },
+    rainfall: {
+      seasonToDate: round(seasonToDate),
+      normal: round(normal),
+      departurePercent,
+      category: departurePercent === null ? null : rainfallCategory(departurePercent),
+      rainyDays: rainyDays(current),
+      normalRainyDays: round(average(baselineSeasons.map(rainyDays))!),
+    },
+    temperature: {
+      mean: rounded(mean),
+      normalMean: rounded(normalMean),
+      departure: mean !== null && normalMean !== null ? round(mean - normalMean) : null,
+      meanMax: rounded(meanOf(current, day => day.maxTemp)),
+      normalMeanMax: rounded(meanOf(baselineDays, day => day.maxTemp)),
+      meanMin: rounded(meanOf(current, day => day.minTemp)),
+      normalMeanMin: rounded(meanOf(baselineDays, day => day.minTemp)),
+    },
+    provider: archiveProvider.name,
+  };
+}
@@ -0,0 +1,509 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import type { DailyForecast } from './weather-service';
+
+/**
+ * Rule-based scoring behind the crop diagnosis workflow (mastra/workflows/crop-diagnosis-workflow.ts).
+ * Candidate causes come from a small catalogue and are ranked by how well they explain the
+ * reported symptoms, how strongly past KCC answers mention them, and whether the coming
+ * weather favours them.
+ */
+export const CROP_STAGES = ['nursery', 'vegetative', 'flowering', 'fruiting', 'maturity'] as const;
+export type CropStage = typeof CROP_STAGES[number];
+
+export const SYMPTOMS = [
+  'yellowing',
+  'leaf-spots',
+  'wilting',
+  'leaf-curl',
+  'holes',
+  'rot',
+  'powdery-growth',
+  'stunting',
+  'drying',
+  'insects-seen',
+  'webbing',
+  'mosaic',
+  'fruit-damage',
+] as const;
+export type Symptom = typeof SYMPTOMS[number];
+
+export type CauseKind = 'fungal' | 'bacterial' | 'viral' | 'insect' | 'mite' | 'nutrient' | 'water';
+
+interface CauseProfile {
+  id: string;
+  name: string;
+  kind: CauseKind;
+  // Crops the cause is common on; any crop when absent
+  crops?: string[];
+  symptoms: Symptom[];
+  // Words that show a KCC record is about this cause
+  kccTerms: string[];
+  favouredBy?: 'wet' | 'hot-dry';
+  // The sign that tells this cause apart, asked about when confidence is low
+  sign: string;
+  signTerms: string[];
+  actions: string[];
+  recheckDays: number;
+}
+
+export interface DiagnosisCase {
+  query: string;
+  crop: string | null;
+  stage: CropStage | null;
+  symptoms: Symptom[];
+  photoProvided: boolean;
+  latitude?: number;
+  longitude?: number;
+  location?: string;
+  stateName?: string;
+  districtName?: string;
+}
+
+// The parts of a KCC tool result the diagnosis uses
+export interface KccEvidence {
+  id: string;
+  queryText: string;
+  answer: string;
+  relevanceScore: number;
+  summary: string;
+  dosages: Array<{ activeIngredient: string; text: string; intervalDays?: { min: number; max: number }; waitingPeriodDays?: number }>;
+  safetyFlags: Array<{ name: string; status: 'banned' | 'restricted'; saferAlternatives: string[] }>;
+}
+
+export interface DiagnosisWeather {
+  available: boolean;
+  location?: string;
+  // Days in the forecast whose humidity and leaf wetness favour fungal and bacterial disease
+  diseaseFavourableDays: number;
+  hotDryDays: number;
+  sprayWindow: { date: string; start: string; end: string } | null;
+}
+
+export interface RankedCause {
+  id: string;
+  name: string;
+  kind: CauseKind;
+  confidence: number;
+  matchedSymptoms: Symptom[];
+  // KCC record that mentions this cause best, if any
+  kccEvidenceId: string | null;
+  weatherFit: 'favourable' | 'unfavourable' | 'neutral';
+}
+
+export interface ClarifyingQuestion {
+  question: string;
+  options: string[];
+}
+
+export interface TreatmentPlan {
+  crop: string | null;
+  stage: CropStage | null;
+  likelyCause: RankedCause | null;
+  alternatives: RankedCause[];
+  confidence: 'high' | 'medium' | 'low';
+  actions: string[];
+  products: KccEvidence['dosages'];
+  safetyFlags: KccEvidence['safetyFlags'];
+  kccAdvice: { answer: string; summary: string; relevanceScore: number } | null;
+  sprayTiming: string | null;
+  weatherRisk: string | null;
+  recheckInDays: number;
+  photoProvided: boolean;
+  clarification: { question: string; answer: string } | null;
+}
+
+// Below this the workflow asks the farmer one clarifying question
+export const CLARIFY_CONFIDENCE = 0.6;
+// Two causes closer than this are too close to call without asking
+const CLARIFY_MARGIN = 0.15;
+const HIGH_CONFIDENCE = 0.75;
+const MAX_CAUSES = 3;
+// Confidence added to a cause whose distinguishing sign the farmer confirms
+const CONFIRMED_SIGN_BOOST = 0.3;
+
+const CONFIDENCE_WEIGHTS = {
+  symptoms: 0.5,
+  kcc: 0.3,
+  weather: 0.2,
+};
+// Confidence multiplier for a cause that is not usually seen on the farmer's crop
+const OTHER_CROP_FACTOR = 0.5;
+
+const SYMPTOM_TERMS: Record<Symptom, string[]> = {
+  'yellowing': ['yellow', 'pale', 'chlorosis', 'peela', 'peeli', 'पीला', 'पीली', 'पीले', 'পাতা হলুদ', 'पिवळ'],
+  'leaf-spots': ['spot', 'lesion', 'blotch', 'daag', 'dhabba', 'धब्बे', 'धब्बा', 'दाग', 'দাগ', 'ठिपके'],
+  'wilting': ['wilt', 'droop', 'murjha', 'मुरझा', 'मर रहे', 'ঢলে'],
+  'leaf-curl': ['curl', 'crinkl', 'mud rahe', 'मुड़', 'मुड', 'कुकड़', 'কুঁকড়ে'],
+  'holes': ['hole', 'chewed', 'eaten', 'ched', 'छेद', 'खा रहे', 'ছিদ্র'],
+  'rot': ['rot ', 'rotting', 'rotten', 'decay', 'soft stem', 'सड़', 'सड', 'পচ', 'कुज'],
+  'powdery-growth': ['powder', 'white coating', 'white growth', 'mildew', 'safed', 'सफेद पाउडर', 'सफेद परत'],
+  'stunting': ['stunt', 'not growing', 'small plant', 'badh nahi', 'बढ़ नहीं', 'बौना'],
+  'drying': ['drying', 'dried', 'burnt', 'scorch', 'sukh', 'सूख', 'সুকিয়ে', 'शुकत'],
+  'insects-seen': ['insect', 'aphid', 'whitefly', 'white fly', 'jassid', 'thrips', 'caterpillar', 'larva', 'worm', 'bug', 'keet', 'keeda', 'illi', 'makkhi', 'कीट', 'कीड़', 'इल्ली', 'मक्खी', 'পোকা'],
+  'webbing': ['web', 'mite', 'jaala', 'जाला', 'मकड़ी'],
+  'mosaic': ['mosaic', 'mottl', 'patchy green', 'chitkabra', 'चितकबर'],
+  'fruit-damage': ['fruit drop', 'fruit rot', 'bored fruit', 'boll', 'pod damage', 'phal gir', 'फल गिर', 'फल सड़', 'फलों में'],
+};
+
+const STAGE_TERMS: Array<[CropStage, string[]]> = [
+  ['nursery', ['nursery', 'seedling', 'sapling', 'paud', 'नर्सरी', 'पौध']],
+  ['fruiting', ['fruit', 'pod', 'boll', 'grain filling', 'ear head', 'cob', 'bali', 'फल', 'फली', 'बाली']],
+  ['flowering', ['flower', 'bloom', 'tasseling', 'phool', 'फूल']],
+  ['maturity', ['mature', 'ripen', 'before harvest', 'near harvest', 'पकने']],
+  ['vegetative', ['vegetative', 'tiller', 'young plant', 'knee high', 'kalle', 'कल्ले']],
+];
+
+const CAUSES: CauseProfile[] = [
+  {
+    id: 'early-blight', name: 'Early blight (fungal)', kind: 'fungal', crops: ['tomato', 'potato', 'brinjal', 'chilli'],
+    symptoms: ['leaf-spots', 'yellowing', 'drying'], kccTerms: ['early blight', 'alternaria'], favouredBy: 'wet',
+    sign: 'Brown spots with rings like a target on older leaves', signTerms: ['ring', 'target', 'concentric', 'old leaves', 'lower leaves'],
+    actions: ['Remove and destroy badly spotted lower leaves', 'Avoid overhead watering; water at the base in the morning', 'Keep a 2-3 year rotation away from tomato, potato and brinjal'],
+    recheckDays: 5,
+  },
+  {
+    id: 'late-blight', name: 'Late blight (fungal)', kind: 'fungal', crops: ['tomato', 'potato'],
+    symptoms: ['leaf-spots', 'rot', 'drying', 'fruit-damage'], kccTerms: ['late blight', 'phytophthora'], favouredBy: 'wet',
+    sign: 'Large dark water-soaked patches, with white growth under the leaf in the morning', signTerms: ['water soaked', 'water-soaked', 'dark patch', 'white growth under', 'spreading fast'],
+    actions: ['Remove infected plants and keep them out of the field', 'Do not irrigate while leaves stay wet', 'Spray a protective fungicide before the next wet spell'],
+    recheckDays: 3,
+  },
+  {
+    id: 'leaf-spot', name: 'Fungal leaf spot', kind: 'fungal',
+    symptoms: ['leaf-spots', 'yellowing', 'drying'], kccTerms: ['leaf spot', 'cercospora', 'anthracnose'], favouredBy: 'wet',
+    sign: 'Small round brown or black spots with a yellow edge, spread across the leaf', signTerms: ['small spots', 'round spots', 'yellow edge', 'yellow halo', 'many spots'],
+    actions: ['Pick off spotted leaves early', 'Improve air flow by proper spacing and weeding', 'Avoid excess nitrogen'],
+    recheckDays: 5,
+  },
+  {
+    id: 'blast', name: 'Blast (fungal)', kind: 'fungal', crops: ['rice', 'bajra'],
+    symptoms: ['leaf-spots', 'drying'], kccTerms: ['blast', 'pyricularia', 'neck blast'], favouredBy: 'wet',
+    sign: 'Eye- or diamond-shaped spots with grey centres; necks of the panicle turning black', signTerms: ['eye shaped', 'diamond', 'grey centre', 'gray center', 'neck'],
+    actions: ['Stop extra urea until the disease is under control', 'Keep the field bunds free of grassy weeds', 'Spray at the first spots, not after the neck turns black'],
+    recheckDays: 4,
+  },
+  {
+    id: 'powdery-mildew', name: 'Powdery mildew (fungal)', kind: 'fungal',
+    symptoms: ['powdery-growth', 'yellowing', 'drying'], kccTerms: ['powdery mildew'],
+    sign: 'White powder on the leaf surface that rubs off with a finger', signTerms: ['powder', 'rubs off', 'white coating', 'white dust'],
+    actions: ['Remove the worst affected leaves', 'Avoid dense planting and shade', 'Spray sulphur-based fungicide in a calm, cool window'],
+    recheckDays: 7,
+  },
+  {
+    id: 'wilt', name: 'Wilt (fungal or bacterial)', kind: 'bacterial',
+    symptoms: ['wilting', 'yellowing', 'drying'], kccTerms: ['wilt', 'fusarium', 'ralstonia'], favouredBy: 'wet',
+    sign: 'Plants wilt in the day even in moist soil; a cut stem shows brown streaks or white ooze in water', signTerms: ['brown inside', 'brown streak', 'ooze', 'moist soil', 'stem inside'],
+    actions: ['Uproot and destroy wilted plants with their roots', 'Do not let water flow from infected patches to healthy ones', 'Apply Trichoderma-enriched compost at the next planting'],
+    recheckDays: 3,
+  },
+  {
+    id: 'root-rot', name: 'Root or collar rot / damping off', kind: 'fungal',
+    symptoms: ['rot', 'wilting', 'drying'], kccTerms: ['root rot', 'collar rot', 'damping off', 'stem rot'], favouredBy: 'wet',
+    sign: 'Stem base soft, dark or shrunken at soil level; roots brown and rotten', signTerms: ['stem base', 'soil level', 'collar', 'roots rotten', 'soft stem', 'falls over'],
+    actions: ['Drain standing water from the field or nursery', 'Drench the root zone of nearby plants with a recommended fungicide', 'Treat seed before the next sowing'],
+    recheckDays: 3,
+  },
+  {
+    id: 'leaf-curl-virus', name: 'Leaf curl virus (spread by whitefly)', kind: 'viral', crops: ['tomato', 'chilli', 'cotton', 'okra', 'brinjal'],
+    symptoms: ['leaf-curl', 'stunting', 'yellowing', 'mosaic'], kccTerms: ['leaf curl', 'curl virus', 'begomovirus'], favouredBy: 'hot-dry',
+    sign: 'New leaves small, thick and curled upward; tiny white flies fly up when the plant is shaken', signTerms: ['white fly', 'whitefly', 'new leaves', 'thick leaves', 'curled up'],
+    actions: ['Uproot and destroy curled plants early; there is no cure', 'Control whitefly with yellow sticky traps', 'Use tolerant varieties and net-covered nurseries next season'],
+    recheckDays: 5,
+  },
+  {
+    id: 'mosaic-virus', name: 'Mosaic virus', kind: 'viral',
+    symptoms: ['mosaic', 'yellowing', 'stunting', 'leaf-curl'], kccTerms: ['mosaic', 'yellow vein'],
+    sign: 'Leaves with light and dark green or yellow patches in a mosaic pattern', signTerms: ['patches', 'mosaic', 'mottled', 'yellow veins', 'light and dark'],
+    actions: ['Remove infected plants', 'Control aphids and whitefly that carry the virus', 'Keep weeds down around the field'],
+    recheckDays: 7,
+  },
+  {
+    id: 'sucking-pests', name: 'Sucking pests (aphids, jassids, thrips, whitefly)', kind: 'insect',
+    symptoms: ['leaf-curl', 'yellowing', 'insects-seen', 'stunting'], kccTerms: ['aphid', 'jassid', 'thrips', 'whitefly', 'sucking pest', 'mealybug'], favouredBy: 'hot-dry',
+    sign: 'Small insects under the leaves, sticky honeydew or black sooty coating', signTerms: ['under the leaf', 'underside', 'sticky', 'honeydew', 'sooty', 'small insects'],
+    actions: ['Check 10 plants for insects under the leaves', 'Put up yellow and blue sticky traps', 'Spray neem oil 1500 ppm at early stages before chemical control'],
+    recheckDays: 4,
+  },
+  {
+    id: 'mites', name: 'Red spider mites', kind: 'mite',
+    symptoms: ['webbing', 'yellowing', 'drying', 'leaf-spots'], kccTerms: ['mite', 'red spider'], favouredBy: 'hot-dry',
+    sign: 'Fine webbing and tiny red or yellow dots under the leaves', signTerms: ['web', 'webbing', 'red dots', 'tiny dots', 'speckled'],
+    actions: ['Spray water on the underside of leaves to knock mites off', 'Avoid water stress, which makes mites worse', 'Use a miticide only if mites are on many plants'],
+    recheckDays: 5,
+  },
+  {
+    id: 'borers', name: 'Borers and caterpillars', kind: 'insect',
+    symptoms: ['holes', 'fruit-damage', 'insects-seen', 'wilting'], kccTerms: ['borer', 'caterpillar', 'fall armyworm', 'larva', 'bollworm', 'fruit borer', 'stem borer'],
+    sign: 'Holes in leaves, fruits or stems with droppings (frass) nearby, or a dried central shoot', signTerms: ['frass', 'droppings', 'hole in fruit', 'dead heart', 'central shoot', 'caterpillar'],
+    actions: ['Pick and destroy damaged fruits and shoots with larvae', 'Install pheromone traps (5 per acre) to watch moth numbers', 'Spray in the evening when larvae are active'],
+    recheckDays: 4,
+  },
+  {
+    id: 'nitrogen-deficiency', name: 'Nitrogen deficiency', kind: 'nutrient',
+    symptoms: ['yellowing', 'stunting'], kccTerms: ['nitrogen', 'urea', 'deficiency'],
+    sign: 'Older, lower leaves turn evenly pale yellow first while new leaves stay green', signTerms: ['old leaves', 'lower leaves', 'evenly yellow', 'whole leaf', 'pale'],
+    actions: ['Top-dress nitrogen (urea) in split doses as per soil test', 'Apply when soil is moist, not before heavy rain', 'Add compost or green manure for the next crop'],
+    recheckDays: 10,
+  },
+  {
+    id: 'zinc-deficiency', name: 'Zinc or micronutrient deficiency', kind: 'nutrient',
+    symptoms: ['yellowing', 'stunting', 'leaf-spots'], kccTerms: ['zinc', 'micronutrient', 'khaira', 'iron deficiency'],
+    sign: 'Young leaves yellow between green veins, with rusty brown patches and short plants', signTerms: ['between veins', 'green veins', 'young leaves', 'new leaves yellow', 'rusty'],
+    actions: ['Spray zinc sulphate (0.5%) with lime as recommended', 'Apply zinc sulphate to the soil at the next sowing', 'Get the soil tested for micronutrients'],
+    recheckDays: 10,
+  },
+  {
+    id: 'water-stress', name: 'Water stress or heat', kind: 'water', symptoms: ['wilting', 'drying', 'yellowing'],
+    kccTerms: ['water stress', 'moisture stress', 'irrigation', 'heat'], favouredBy: 'hot-dry',
+    sign: 'Plants wilt in the afternoon but recover by evening, and the soil is dry', signTerms: ['recover', 'evening', 'dry soil', 'afternoon', 'no water'],
+    actions: ['Irrigate in the evening or early morning', 'Mulch to keep soil moisture', 'Avoid fertiliser or spraying on hot afternoons'],
+    recheckDays: 2,
+  },
+];
+
+// Same padded, punctuation-free form the intent classifier uses
+function normalizeText(text: string): string {
+  return ` ${text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim()} `;
+}
+
+function mentions(normalized: string, term: string): boolean {
+  return /^[\x20-\x7e]+$/.test(term) ? normalized.includes(` ${term}`) : normalized.includes(term);
+}
+
+export function extractSymptoms(text: string): Symptom[] {
+  const normalized = normalizeText(text);
+  return SYMPTOMS.filter(symptom => SYMPTOM_TERMS[symptom].some(term => mentions(normalized, term)));
+}
+
+export function detectCropStage(text: string): CropStage | null {
+  const normalized = normalizeText(text);
+  const match = STAGE_TERMS.find(([, terms]) => terms.some(term => mentions(normalized, term)));
+  return match ? match[0] : null;
+}
+
+export function summarizeDiagnosisWeather(forecast: DailyForecast[], location?: string): DiagnosisWeather {
+  const sprayDay = forecast.find(day => day.agronomy.spray.bestWindow);
+  const window = sprayDay?.agronomy.spray.bestWindow;
+  return {
+    available: true,
+    location,
+    diseaseFavourableDays: forecast.filter(day => day.agronomy.diseaseFavourable).length,
+    hotDryDays: forecast.filter(day => day.agronomy.heatStress || (day.precipitation < 1 && day.maxTemp >= 33)).length,
+    sprayWindow: sprayDay && window ? { date: sprayDay.date, start: window.start, end: window.end } : null,
+  };
+}
+
+function weatherFit(cause: CauseProfile, weather: DiagnosisWeather): RankedCause['weatherFit'] {
+  if (!cause.favouredBy || !weather.available) return 'neutral';
+  const favoured = cause.favouredBy === 'wet' ? weather.diseaseFavourableDays > 0 : weather.hotDryDays > 0;
+  return favoured ? 'favourable' : 'unfavourable';
+}
+
+const WEATHER_FIT_SCORE: Record<RankedCause['weatherFit'], number> = { favourable: 1, neutral: 0.5, unfavourable: 0 };
+
+function bestKccEvidence(cause: CauseProfile, kcc: KccEvidence[]): KccEvidence | null {
+  const matching = kcc.filter(result => {
+    const text = normalizeText(`${result.queryText} ${result.answer}`);
+    return cause.kccTerms.some(term => mentions(text, term));
+  });
+  return matching.sort((a, b) => b.relevanceScore - a.relevanceScore)[0] ?? null;
+}
+
+function rankCause(cause: CauseProfile, diagnosisCase: DiagnosisCase, kcc: KccEvidence[], weather: DiagnosisWeather): RankedCause {
+  const matchedSymptoms = diagnosisCase.symptoms.filter(symptom => cause.symptoms.includes(symptom));
+  const symptomScore = diagnosisCase.symptoms.length > 0 ? matchedSymptoms.length / diagnosisCase.symptoms.length : 0;
+  const evidence = bestKccEvidence(cause, kcc);
+  const fit = weatherFit(cause, weather);
+  const cropFactor = cause.crops && diagnosisCase.crop && !cause.crops.includes(diagnosisCase.crop) ? OTHER_CROP_FACTOR : 1;
+
+  const confidence = cropFactor * (
+    CONFIDENCE_WEIGHTS.symptoms * symptomScore
+    + CONFIDENCE_WEIGHTS.kcc * (evidence?.relevanceScore ?? 0)
+    + CONFIDENCE_WEIGHTS.weather * WEATHER_FIT_SCORE[fit]
+  );
+
+  return {
+    id: cause.id,
+    name: cause.name,
+    kind: cause.kind,
+    confidence: Math.round(confidence * 100) / 100,
+    matchedSymptoms,
+    kccEvidenceId: evidence?.id ?? null,
+    weatherFit: fit,
+  };
+}
+
+/** Causes that explain at least one symptom or are named in KCC answers, most likely first. */
+export function rankCauses(diagnosisCase: DiagnosisCase, kcc: KccEvidence[], weather: DiagnosisWeather): RankedCause[] {
+  return CAUSES
+    .map(cause => rankCause(cause, diagnosisCase, kcc, weather))
+    .filter(cause => cause.matchedSymptoms.length > 0 || cause.kccEvidenceId)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CAUSES);
+}
+
+export function needsClarification(causes: RankedCause[]): boolean {
+  if (causes.length === 0) return true;
+  const [top, second] = causes;
+  return top.confidence < CLARIFY_CONFIDENCE || (!!second && top.confidence - second.confidence < CLARIFY_MARGIN);
+}
+
+function causeProfile(id: string): CauseProfile | undefined {
+  return CAUSES.find(cause => cause.id === id);
+}
+
+/**
+ * One question that separates the leading causes by their distinguishing signs. Without
+ * any candidate it asks for the symptoms instead.
+ */
+export function clarifyingQuestion(diagnosisCase: DiagnosisCase, causes: RankedCause[]): ClarifyingQuestion {
+  const crop = diagnosisCase.crop ?? 'crop';
+  if (causes.length === 0) {
+    return {
+      question: `What do you see on the ${crop}? Pick the closest.`,
+      options: ['Yellow leaves', 'Spots on leaves', 'Plants wilting', 'Curled leaves', 'Holes or insects', 'White powder', 'Rotting stem or fruit'],
+    };
+  }
+  const signs = causes.slice(0, 2).map(cause => causeProfile(cause.id)!.sign);
+  return {
+    question: `Look closely at the ${crop}. Which of these do you see?`,
+    options: [...signs, 'None of these'],
+  };
+}
+
+/**
+ * Re-rank with the farmer's answer: a chosen option number or a described sign boosts that
+ * cause, and any new symptoms in the answer join the case.
+ */
+export function applyClarification(
+  diagnosisCase: DiagnosisCase,
+  causes: RankedCause[],
+  question: ClarifyingQuestion,
+  answer: string,
+  kcc: KccEvidence[],
+  weather: DiagnosisWeather,
+): { diagnosisCase: DiagnosisCase; causes: RankedCause[] } {
+  const normalized = normalizeText(answer);
+  const newSymptoms = extractSymptoms(answer);
+  // Options are also matched by their label, so "spots on leaves" counts as picking that option
+  const chosenOption = question.options.findIndex((option, index) =>
+    new RegExp(`^\\s*${index + 1}\\b`).test(answer) || normalized.includes(normalizeText(option).trim()));
+  const symptomSet = new Set([...diagnosisCase.symptoms, ...newSymptoms]);
+  if (causes.length === 0 && chosenOption >= 0) {
+    extractSymptoms(question.options[chosenOption]).forEach(symptom => symptomSet.add(symptom));
+  }
+  const updatedCase = { ...diagnosisCase, symptoms: SYMPTOMS.filter(symptom => symptomSet.has(symptom)) };
+
+  const confirmed = new Set<string>();
+  causes.slice(0, 2).forEach((cause, index) => {
+    const profile = causeProfile(cause.id)!;
+    if (chosenOption === index || profile.signTerms.some(term => mentions(normalized, term))) confirmed.add(cause.id);
+  });
+
+  const reranked = CAUSES
+    .map(cause => rankCause(cause, updatedCase, kcc, weather))
+    .map(cause => confirmed.has(cause.id)
+      ? { ...cause, confidence: Math.min(1, Math.round((cause.confidence + CONFIRMED_SIGN_BOOST) * 100) / 100) }
+      : cause)
+    .filter(cause => cause.matchedSymptoms.length > 0 || cause.kccEvidenceId || confirmed.has(cause.id))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CAUSES);
+
+  return { diagnosisCase: updatedCase, causes: reranked };
+}
+
+export function buildTreatmentPlan(
+  diagnosisCase: DiagnosisCase,
+  causes: RankedCause[],
+  kcc: KccEvidence[],
+  weather: DiagnosisWeather,
+  clarification: TreatmentPlan['clarification'],
+): TreatmentPlan {
+  const [likelyCause = null, ...alternatives] = causes;
+  const profile = likelyCause ? causeProfile(likelyCause.id) : undefined;
+  const evidence = likelyCause?.kccEvidenceId
+    ? kcc.find(result => result.id === likelyCause.kccEvidenceId)
+    : kcc[0];
+
+  const confidence = !likelyCause ? 'low'
+    : likelyCause.confidence >= HIGH_CONFIDENCE ? 'high'
+    : likelyCause.confidence >= CLARIFY_CONFIDENCE ? 'medium'
+    : 'low';
+
+  const weatherRisk = !weather.available ? null
+    : profile?.favouredBy === 'wet' && weather.diseaseFavourableDays > 0
+      ? `Humid, wet weather on ${weather.diseaseFavourableDays} of the next days favours this disease`
+      : profile?.favouredBy === 'hot-dry' && weather.hotDryDays > 0
+        ? `Hot, dry weather on ${weather.hotDryDays} of the next days favours this problem`
+        : null;
+
+  return {
+    crop: diagnosisCase.crop,
+    stage: diagnosisCase.stage,
+    likelyCause,
+    alternatives,
+    confidence,
+    actions: profile?.actions ?? [],
+    products: evidence?.dosages ?? [],
+    safetyFlags: evidence?.safetyFlags ?? [],
+    kccAdvice: evidence ? { answer: evidence.answer, summary: evidence.summary, relevanceScore: evidence.relevanceScore } : null,
+    sprayTiming: weather.sprayWindow ? `${weather.sprayWindow.date} ${weather.sprayWindow.start}-${weather.sprayWindow.end}` : null,
+    weatherRisk,
+    recheckInDays: profile?.recheckDays ?? 3,
+    photoProvided: diagnosisCase.photoProvided,
+    clarification,
+  };
+}
+
+// Outcome of this chat turn's diagnosis run, for the agent instructions
+export type DiagnosisTurn =
+  | { status: 'needs-answer'; runId: string; question: ClarifyingQuestion; causes: RankedCause[] }
+  | { status: 'planned'; runId: string; plan: TreatmentPlan };
+
+const DIAGNOSIS_KEY = 'cropDiagnosis';
+
+export function setDiagnosisTurn(runtimeContext: RuntimeContext, turn: DiagnosisTurn): void {
+  runtimeContext.set(DIAGNOSIS_KEY, turn);
+}
+
+export function getDiagnosisTurn(runtimeContext?: RuntimeContext): DiagnosisTurn | undefined {
+  const value = runtimeContext?.get(DIAGNOSIS_KEY);
+  return value && typeof value === 'object' ? (value as DiagnosisTurn) : undefined;
+}
+
+function describeCauses(causes: RankedCause[]): string {
+  return causes.map(cause => `${cause.name} (confidence ${cause.confidence.toFixed(2)})`).join('; ') || 'none yet';
+}
+
+// Diagnosis block for the agent instructions; empty when no diagnosis ran this turn
+export function describeDiagnosisTurn(turn?: DiagnosisTurn): string {
+  if (!turn) return '';
+
+  if (turn.status === 'needs-answer') {
+    return [
+      'CROP DIAGNOSIS (structured check of this problem; confidence is still low):',
+      `- Possible causes so far: ${describeCauses(turn.causes)}`,
+      '- Ask the farmer exactly this one question, translated into their language, with the options as a numbered list. Ask nothing else and give no treatment yet; the farmer\'s reply continues the diagnosis:',
+      `  ${turn.question.question}`,
+      ...turn.question.options.map((option, index) => `  ${index + 1}. ${option}`),
+    ].join('\n');
+  }
+
+  const { plan } = turn;
+  const lines = [
+    'CROP DIAGNOSIS RESULT (structured check of this problem; build the answer on it):',
+    `- Most likely cause: ${plan.likelyCause ? `${plan.likelyCause.name}, confidence ${plan.confidence}` : 'unclear'}`,
+  ];
+  if (plan.alternatives.length > 0) lines.push(`- Also possible: ${describeCauses(plan.alternatives)}`);
+  if (plan.clarification) lines.push(`- The farmer answered "${plan.clarification.answer}" to: ${plan.clarification.question}`);
+  if (plan.actions.length > 0) lines.push(`- Actions: ${plan.actions.join('; ')}`);
+  if (plan.products.length > 0) lines.push(`- Products from past KCC answers: ${plan.products.map(product => product.text).join('; ')}`);
+  if (plan.safetyFlags.length > 0) lines.push(`- Safety flags: ${plan.safetyFlags.map(flag => `${flag.name} is ${flag.status}`).join('; ')}`);
+  if (plan.kccAdvice) lines.push(`- Past KCC answer (${plan.kccAdvice.summary}): ${plan.kccAdvice.answer}`);
+  if (plan.weatherRisk) lines.push(`- Weather risk: ${plan.weatherRisk}`);
+  if (plan.sprayTiming) lines.push(`- Next good spray window: ${plan.sprayTiming}`);
+  if (plan.photoProvided) lines.push('- The farmer sent a photo: check it against the cause above and say if it points elsewhere');
+  if (plan.confidence === 'low') lines.push('- Confidence is low: give the safest first steps and suggest showing the crop to the local agriculture officer');
+  lines.push(`- Recheck in ${plan.recheckInDays} days`);
+  return lines.join('\n');
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyIntent } from './intent';
+import { routeIntent, selectRoutedTools, type ToolGroup, type ToolRoute } from './intent-router';
+
+function enabledGroups(route: ToolRoute): ToolGroup[] {
+  return route.decisions.filter(decision => decision.enabled).map(decision => decision.group);
+}
+
+describe('routeIntent', () => {
+  it('sends a disease question to KCC and the crop doctor only', () => {
+    const route = routeIntent(classifyIntent('Tomato leaves have yellow spots'));
+
+    assert.deepEqual(enabledGroups(route), ['kcc', 'agronomy', 'research']);
+    assert.deepEqual(route.tools, ['kccDatabaseTool', 'askCropDoctor', 'webResearch', 'perplexityResearch']);
+  });
+
+  it('enables the market analyst for price words and says why', () => {
+    const route = routeIntent(classifyIntent('Onion price today in Lasalgaon mandi'));
+    const market = route.decisions.find(decision => decision.group === 'market');
+
+    assert.equal(market?.enabled, true);
+    assert.match(market!.reason, /price/);
+    assert.equal(route.decisions.find(decision => decision.group === 'weather')?.enabled, false);
+  });
+
+  it('enables the weather planner for a field operation without weather words', () => {
+    const route = routeIntent(classifyIntent('Best time to spray mancozeb on potato'));
+
+    assert.ok(enabledGroups(route).includes('weather'));
+  });
+
+  it('keeps the market analyst off for a seed rate question', () => {
+    const route = routeIntent(classifyIntent('What is the seed rate for wheat per acre?'));
+
+    assert.equal(route.decisions.find(decision => decision.group === 'market')?.enabled, false);
+    assert.ok(!route.tools.includes('askMarketAnalyst'));
+  });
+
+  it('keeps every group for a message with no recognised topic', () => {
+    const route = routeIntent(classifyIntent('ok thanks'));
+
+    assert.deepEqual(enabledGroups(route), ['kcc', 'agronomy', 'weather', 'market', 'research']);
+  });
+
+  it('notes time-sensitive questions in the research reason', () => {
+    const route = routeIntent(classifyIntent('Latest PM Kisan installment date 2026'));
+
+    assert.match(route.decisions.find(decision => decision.group === 'research')!.reason, /time-sensitive/);
+  });
+});
+
+describe('selectRoutedTools', () => {
+  it('keeps only the routed tools, and every tool without a route', () => {
+    const tools = { kccDatabaseTool: 1, askMarketAnalyst: 2, askWeatherPlanner: 3 };
+    const route = routeIntent(classifyIntent('Onion price today'));
+
+    assert.deepEqual(Object.keys(selectRoutedTools(tools, route)), ['kccDatabaseTool', 'askMarketAnalyst']);
+    assert.deepEqual(selectRoutedTools(tools), tools);
+  });
+});
@@ -0,0 +1,143 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import type { Intent, IntentTopic } from './intent';
+
+/**
+ * Decides which tools the agent may call for a message, from its classified intent.
+ * Every decision carries a reason, so "why was mandi (not) called?" can be answered
+ * from the route alone (it is logged and sent as the X-Intent-Route header).
+ */
+export type ToolGroup = 'kcc' | 'agronomy' | 'weather' | 'market' | 'research';
+
+// Agent tool keys per group (see mastra/agents/kcc-agent.ts); the specialists own the weather and mandi tools
+export const TOOL_GROUPS: Record<ToolGroup, readonly string[]> = {
+  kcc: ['kccDatabaseTool'],
+  agronomy: ['askCropDoctor'],
+  weather: ['askWeatherPlanner'],
+  market: ['askMarketAnalyst'],
+  research: ['webResearch', 'perplexityResearch'],
+};
+
+// Topics the crop doctor answers
+const AGRONOMY_TOPICS: readonly IntentTopic[] = [
+  'disease-pest', 'nutrient-deficiency', 'variety-seed', 'irrigation', 'soil', 'cultivation-practice',
+];
+
+export interface RouteDecision {
+  group: ToolGroup;
+  enabled: boolean;
+  reason: string;
+}
+
+export interface ToolRoute {
+  intent: Intent;
+  decisions: RouteDecision[];
+  // Agent tool keys the agent gets for this message
+  tools: string[];
+}
+
+const INTENT_ROUTE_KEY = 'intentRoute';
+
+function agronomyDecision(intent: Intent): RouteDecision {
+  const topics = intent.topics.filter(topic => AGRONOMY_TOPICS.includes(topic));
+  if (topics.length > 0) {
+    return { group: 'agronomy', enabled: true, reason: `Crop problem or practice question: ${topics.join(', ')}` };
+  }
+  return { group: 'agronomy', enabled: false, reason: 'No disease, pest, nutrient, variety, soil or practice topic in the question' };
+}
+
+function weatherDecision(intent: Intent): RouteDecision {
+  if (intent.signals.weather.length > 0) {
+    return { group: 'weather', enabled: true, reason: `Weather words in the question: ${intent.signals.weather.join(', ')}` };
+  }
+  if (intent.fieldOperations.length > 0) {
+    return { group: 'weather', enabled: true, reason: `Timing a field operation needs the forecast: ${intent.fieldOperations.join(', ')}` };
+  }
+  return { group: 'weather', enabled: false, reason: 'No weather, timing or field-operation words in the question' };
+}
+
+function marketDecision(intent: Intent): RouteDecision {
+  if (intent.signals.market.length > 0) {
+    return { group: 'market', enabled: true, reason: `Price or market words in the question: ${intent.signals.market.join(', ')}` };
+  }
+  return { group: 'market', enabled: false, reason: 'No price, market or selling words in the question' };
+}
+
+export function routeIntent(intent: Intent): ToolRoute {
+  const decisions: RouteDecision[] = [
+    { group: 'kcc', enabled: true, reason: 'Every question starts from past KCC answers' },
+  ];
+
+  // Nothing recognisable (e.g. a short follow-up): keep every tool and let the agent decide
+  if (intent.primaryTopic === 'general') {
+    decisions.push(
+      { group: 'agronomy', enabled: true, reason: 'No topic recognised, so the crop doctor stays available' },
+      { group: 'weather', enabled: true, reason: 'No topic recognised, so the weather planner stays available' },
+      { group: 'market', enabled: true, reason: 'No topic recognised, so the market analyst stays available' },
+    );
+  } else {
+    decisions.push(agronomyDecision(intent), weatherDecision(intent), marketDecision(intent));
+  }
+
+  // The source policy still checks each research call when it runs
+  decisions.push({
+    group: 'research',
+    enabled: true,
+    reason: intent.signals.timeSensitive
+      ? 'Question looks time-sensitive; web research allowed after KCC'
+      : 'Only if KCC relevance turns out low (checked by the source policy)',
+  });
+
+  return {
+    intent,
+    decisions,
+    tools: decisions.filter(decision => decision.enabled).flatMap(decision => TOOL_GROUPS[decision.group]),
+  };
+}
+
+export function setIntentRoute(runtimeContext: RuntimeContext, route: ToolRoute): void {
+  runtimeContext.set(INTENT_ROUTE_KEY, route);
+}
+
+// Absent when the agent runs outside the chat route (e.g. the Mastra playground)
+export function getIntentRoute(runtimeContext?: RuntimeContext): ToolRoute | undefined {
+  const value = runtimeContext?.get(INTENT_ROUTE_KEY);
+  return value && typeof value === 'object' ? (value as ToolRoute) : undefined;
+}
+
+// The subset of the agent's tools the route allows; every tool without a route
+export function selectRoutedTools<T extends Record<string, unknown>>(tools: T, route?: ToolRoute): T {
+  if (!route) return tools;
+  return Object.fromEntries(Object.entries(tools).filter(([key]) => route.tools.includes(key))) as T;
+}
+
+// Compact form for logs and the X-Intent-Route header
+export function summarizeRoute(route: ToolRoute) {
+  const { crop, primaryTopic, topics, location, timeframe, goal } = route.intent;
+  return {
+    intent: { crop, primaryTopic, topics, location, timeframe, goal },
+    decisions: route.decisions,
+  };
+}
+
+// Routing block for the agent instructions
+export function describeRoute(route?: ToolRoute): string {
+  if (!route) {
+    return [
+      'No routing was computed for this message; all tools are available.',
+      '- Only ask the weather planner when timing, spraying, sowing, irrigation, drying or the weather matters',
+      '- Only ask the market analyst when the farmer asks about prices, markets or selling',
+    ].join('\n');
+  }
+
+  const { intent } = route;
+  const lines = [
+    `Intent: topic ${intent.primaryTopic}${intent.topics.length > 1 ? ` (also ${intent.topics.slice(1).join(', ')})` : ''}` +
+      `; crop ${intent.crop ?? 'unknown'}${intent.cropSource === 'profile' ? ' (from profile)' : ''}` +
+      `; location ${intent.location.kind === 'named' ? intent.location.place : intent.location.kind}` +
+      `; timeframe ${intent.timeframe ?? 'none'}; goal ${intent.goal ?? 'general information'}`,
+  ];
+  for (const decision of route.decisions) {
+    lines.push(`- ${TOOL_GROUPS[decision.group].join(', ')}: ${decision.enabled ? 'available' : 'NOT available'} (${decision.reason})`);
+  }
+  return lines.join('\n');
+}
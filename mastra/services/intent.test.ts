@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyIntent } from './intent';
+
+describe('classifyIntent', () => {
+  it('reads a disease question into crop, topic, timeframe and goal', () => {
+    const intent = classifyIntent('My tomato leaves have brown spots since yesterday, what should I spray tomorrow?');
+
+    assert.equal(intent.crop, 'tomato');
+    assert.equal(intent.cropSource, 'message');
+    assert.equal(intent.primaryTopic, 'disease-pest');
+    assert.equal(intent.timeframe, 'tomorrow');
+    assert.deepEqual(intent.fieldOperations, ['spraying']);
+    assert.equal(intent.goal, 'decide-spraying');
+  });
+
+  it('recognises a price question in Hindi', () => {
+    const intent = classifyIntent('गेहूं का भाव क्या है?');
+
+    assert.equal(intent.crop, 'wheat');
+    assert.equal(intent.primaryTopic, 'market-price');
+    assert.deepEqual(intent.signals.market, ['भाव']);
+    assert.equal(intent.goal, 'get-price');
+  });
+
+  it('tells finding a market apart from deciding when to sell', () => {
+    assert.equal(classifyIntent('Where should I sell my onion?').goal, 'find-market');
+    assert.equal(classifyIntent('Onion price is low, should I hold my crop?').goal, 'decide-selling');
+  });
+
+  it('does not treat "seed rate" as a market question', () => {
+    const intent = classifyIntent('What is the seed rate for wheat per acre?');
+
+    assert.deepEqual(intent.signals.market, []);
+    assert.ok(!intent.topics.includes('market-price'));
+    assert.ok(intent.topics.includes('cultivation-practice'));
+  });
+
+  it('keeps "rate" as a market word on its own', () => {
+    assert.deepEqual(classifyIntent('Today onion rate in Nashik').signals.market, ['rate']);
+  });
+
+  it('gives a scheme question the learn-scheme goal even when it names an operation', () => {
+    const intent = classifyIntent('Is there a subsidy for drip irrigation?');
+
+    assert.equal(intent.primaryTopic, 'scheme');
+    assert.equal(intent.goal, 'learn-scheme');
+  });
+
+  it('falls back to the only crop in the farmer profile', () => {
+    const intent = classifyIntent('Leaves are turning yellow', { mainCrops: ['Rice'] });
+
+    assert.equal(intent.crop, 'rice');
+    assert.equal(intent.cropSource, 'profile');
+  });
+
+  it('detects current and named locations', () => {
+    assert.equal(classifyIntent('Will it rain in my area this week?').location.kind, 'current');
+    assert.equal(classifyIntent('Weather in Nashik tomorrow').location.kind, 'named');
+  });
+
+  it('marks a short follow-up as general', () => {
+    const intent = classifyIntent('ok thanks');
+
+    assert.deepEqual(intent.topics, ['general']);
+    assert.equal(intent.goal, null);
+  });
+});
@@ -0,0 +1,299 @@
+import { isTimeSensitiveQuery } from './source-policy';
+import { getUserCrops, type UserContext } from './user-context';
+
+/**
+ * Deterministic reading of a farmer's message, made before the agent runs so the
+ * tool routing (see intent-router.ts) can be inspected and tested without a model.
+ * Matching is keyword based: English, romanised Hindi and the native-script words
+ * farmers use most in each supported language.
+ */
+export const INTENT_TOPICS = [
+  'disease-pest',
+  'nutrient-deficiency',
+  'market-price',
+  'weather',
+  'scheme',
+  'variety-seed',
+  'irrigation',
+  'soil',
+  'cultivation-practice',
+  'general',
+] as const;
+
+export type IntentTopic = typeof INTENT_TOPICS[number];
+
+export type FieldOperation = 'spraying' | 'sowing' | 'irrigation' | 'harvesting' | 'drying';
+
+export type IntentGoal =
+  | 'decide-spraying'
+  | 'plan-sowing'
+  | 'plan-irrigation'
+  | 'plan-harvest'
+  | 'find-market'
+  | 'decide-selling'
+  | 'get-price'
+  | 'diagnose-problem'
+  | 'check-weather'
+  | 'learn-scheme'
+  | 'learn-practice';
+
+export type IntentTimeframe = 'today' | 'tomorrow' | 'this-week' | 'next-week' | 'specific-date' | 'season';
+
+export interface IntentLocation {
+  kind: 'current' | 'named' | 'none';
+  place?: string;
+}
+
+export interface Intent {
+  query: string;
+  // Standard English singular (e.g. "wheat"); from the message, else the farmer's only main crop
+  crop: string | null;
+  cropSource: 'message' | 'profile' | null;
+  // Every topic the message touches, most specific first; primaryTopic is the first
+  topics: IntentTopic[];
+  primaryTopic: IntentTopic;
+  location: IntentLocation;
+  timeframe: IntentTimeframe | null;
+  goal: IntentGoal | null;
+  fieldOperations: FieldOperation[];
+  // The words that matched, so a routing decision can be traced back to the message
+  signals: {
+    weather: string[];
+    market: string[];
+    timeSensitive: boolean;
+  };
+}
+
+// Canonical crop → names farmers use for it
+const CROP_NAMES: Record<string, string[]> = {
+  rice: ['rice', 'paddy', 'dhan', 'chawal', 'basmati', 'धान', 'चावल', 'ধান', 'भात', 'వరి', 'நெல்', 'ડાંગર', 'ಭತ್ತ', 'ଧାନ', 'دھان'],
+  wheat: ['wheat', 'gehun', 'gehu', 'गेहूं', 'गेहूँ', 'গম', 'गहू', 'గోధుమ', 'கோதுமை', 'ઘઉં', 'ಗೋಧಿ', 'ଗହମ', 'گندم'],
+  maize: ['maize', 'corn', 'makka', 'makki', 'मक्का', 'ভুট্টা', 'మొక్కజొన్న', 'மக்காச்சோளம்', 'મકાઈ', 'ಮೆಕ್ಕೆಜೋಳ'],
+  bajra: ['bajra', 'pearl millet', 'बाजरा'],
+  jowar: ['jowar', 'sorghum', 'ज्वार', 'ज्वारी'],
+  cotton: ['cotton', 'kapas', 'कपास', 'कापूस', 'তুলা', 'పత్తి', 'பருத்தி', 'કપાસ', 'ಹತ್ತಿ'],
+  sugarcane: ['sugarcane', 'ganna', 'गन्ना', 'ऊस', 'আখ', 'చెరకు', 'கரும்பு', 'શેરડી', 'ಕಬ್ಬು'],
+  soybean: ['soybean', 'soyabean', 'soya', 'सोयाबीन'],
+  groundnut: ['groundnut', 'peanut', 'moongphali', 'mungfali', 'मूंगफली', 'शेंगदाणा', 'వేరుశనగ', 'நிலக்கடலை', 'મગફળી', 'ಕಡಲೆಕಾಯಿ'],
+  mustard: ['mustard', 'sarson', 'सरसों', 'সরিষা', 'રાઈ'],
+  chickpea: ['chickpea', 'gram', 'chana', 'चना', 'हरभरा'],
+  pigeonpea: ['pigeon pea', 'arhar', 'tur', 'toor', 'अरहर', 'तूर'],
+  potato: ['potato', 'aloo', 'alu', 'आलू', 'আলু', 'बटाटा', 'బంగాళాదుంప', 'உருளைக்கிழங்கு', 'બટાકા', 'ಆಲೂಗಡ್ಡೆ', 'ଆଳୁ'],
+  onion: ['onion', 'pyaz', 'pyaaz', 'kanda', 'प्याज', 'পেঁয়াজ', 'कांदा', 'ఉల్లి', 'வெங்காயம்', 'ડુંગળી', 'ಈರುಳ್ಳಿ', 'ପିଆଜ'],
+  tomato: ['tomato', 'tamatar', 'टमाटर', 'টমেটো', 'टोमॅटो', 'టమాటా', 'தக்காளி', 'ટામેટા', 'ಟೊಮೆಟೊ', 'ଟମାଟୋ'],
+  brinjal: ['brinjal', 'eggplant', 'baingan', 'बैंगन', 'वांगी', 'বেগুন', 'వంకాయ', 'கத்தரி', 'રીંગણ', 'ಬದನೆ'],
+  chilli: ['chilli', 'chili', 'mirchi', 'मिर्च', 'मिरची', 'লঙ্কা', 'మిర్చి', 'மிளகாய்', 'મરચું', 'ಮೆಣಸಿನಕಾಯಿ'],
+  cauliflower: ['cauliflower', 'gobhi', 'gobi', 'फूलगोभी', 'ফুলকপি'],
+  okra: ['okra', 'bhindi', 'lady finger', 'भिंडी', 'ঢেঁড়স', 'బెండ', 'வெண்டை'],
+  banana: ['banana', 'kela', 'केला', 'केळी', 'কলা', 'అరటి', 'வாழை', 'કેળા', 'ಬಾಳೆ'],
+  mango: ['mango', 'aam', 'आम', 'आंबा', 'మామిడి', 'மாம்பழம்', 'કેરી', 'ಮಾವು'],
+  pomegranate: ['pomegranate', 'anar', 'अनार', 'डाळिंब'],
+  grape: ['grape', 'angoor', 'अंगूर', 'द्राक्ष'],
+  turmeric: ['turmeric', 'haldi', 'हल्दी', 'हळद', 'হলুদ', 'పసుపు', 'மஞ்சள்'],
+  tea: ['tea', 'चाय'],
+  coffee: ['coffee', 'कॉफी'],
+  jute: ['jute', 'पटसन', 'পাট'],
+};
+
+const TOPIC_TERMS: Record<Exclude<IntentTopic, 'weather' | 'market-price' | 'general'>, string[]> = {
+  'disease-pest': [
+    'disease', 'pest', 'insect', 'fung', 'blight', 'rot ', 'rotting', 'wilt', 'spot', 'leaf curl', 'mildew', 'rust', 'mosaic', 'virus',
+    'borer', 'aphid', 'whitefly', 'white fly', 'jassid', 'thrips', 'mite', 'caterpillar', 'worm', 'larva', 'locust', 'infest',
+    'keet', 'keeda', 'kida', 'rog', 'bimari', 'beemari', 'illi',
+    'कीट', 'कीड़', 'कीडे', 'रोग', 'बीमारी', 'इल्ली', 'फफूंद', 'কীট', 'পোকা', 'রোগ', 'कीड', 'తెగులు', 'పురుగు',
+    'நோய்', 'பூச்சி', 'જીવાત', 'રોગ', 'ರೋಗ', 'ಕೀಟ', 'ରୋଗ', 'ପୋକ', 'بیماری', 'کیڑ',
+  ],
+  'nutrient-deficiency': [
+    'deficien', 'yellow', 'fertiliz', 'fertilis', 'urea', 'dap', 'npk', 'potash', 'zinc', 'nitrogen', 'phosph', 'manure',
+    'compost', 'nutrient', 'khad', 'khaad',
+    'खाद', 'उर्वरक', 'यूरिया', 'पीला', 'पीली', 'पीले', 'সার', 'खत ', 'ఎరువు', 'உரம்', 'ખાતર', 'ಗೊಬ್ಬರ', 'ସାର', 'کھاد',
+  ],
+  scheme: [
+    'scheme', 'yojana', 'subsid', 'pm kisan', 'loan', 'insurance', 'pmfby', 'kisan credit',
+    'योजना', 'सब्सिडी', 'अनुदान', 'बीमा', 'ऋण', 'প্রকল্প', 'ভর্তুকি', 'పథకం', 'திட்டம்', 'યોજના', 'ಯೋಜನೆ', 'ଯୋଜନା', 'اسکیم',
+  ],
+  'variety-seed': ['variety', 'varieties', 'seed', 'hybrid', 'beej', 'bij', 'qism', 'kism', 'किस्म', 'बीज', 'वाण', 'বীজ', 'జాతి', 'விதை', 'બીજ', 'ಬೀಜ', 'ବିହନ', 'بیج'],
+  irrigation: [
+    'irrigat', 'watering', 'drip', 'sprinkler', 'sinchai', 'paani', 'pani',
+    'सिंचाई', 'पानी', 'সেচ', 'पाणी', 'నీటి', 'பாசனம்', 'પિયત', 'ನೀರಾವರಿ', 'ଜଳସେଚନ', 'آبپاشی',
+  ],
+  soil: ['soil', 'ph ', 'saline', 'salinity', 'alkaline', 'mitti', 'मिट्टी', 'मृदा', 'माती', 'মাটি', 'నేల', 'மண்', 'જમીન', 'ಮಣ್ಣು', 'ମାଟି', 'مٹی'],
+  'cultivation-practice': [
+    'cultivat', 'how to grow', 'growing', 'farming', 'spacing', 'seed rate', 'weed', 'prun', 'intercrop', 'nursery',
+    'kheti', 'ugaye', 'ugana',
+    'खेती', 'उगा', 'निराई', 'লাগানো', 'চাষ', 'शेती', 'సాగు', 'சாகுபடி', 'ખેતી', 'ಕೃಷಿ', 'ଚାଷ', 'کاشت',
+  ],
+};
+
+const WEATHER_TERMS = [
+  'weather', 'rain', 'monsoon', 'forecast', 'temperature', 'wind ', 'winds', 'windy', 'humid', 'storm', 'hail', 'frost', 'heat wave', 'heatwave',
+  'cold wave', 'fog', 'drought', 'dry spell', 'cloud', 'thunder',
+  'baarish', 'barish', 'mausam', 'mosam', 'varsha', 'aandhi', 'ole ',
+  'बारिश', 'वर्षा', 'मौसम', 'तापमान', 'आंधी', 'ओले', 'पाला', 'लू ', 'বৃষ্টি', 'আবহাওয়া', 'पाऊस', 'हवामान',
+  'వర్షం', 'వాతావరణం', 'மழை', 'வானிலை', 'વરસાદ', 'હવામાન', 'ಮಳೆ', 'ಹವಾಮಾನ', 'ବର୍ଷା', 'ପାଣିପାଗ', 'بارش', 'موسم',
+];
+
+const MARKET_TERMS = [
+  'price', 'market', 'mandi', 'sell', 'rate', 'profit', 'value', 'msp', 'buyer', 'trader',
+  'bhav', 'bhaav', 'daam', 'keemat', 'kimat', 'bechna', 'bechu',
+  'भाव', 'दाम', 'कीमत', 'मंडी', 'बेच', 'বাজার', 'দাম', 'बाजार', 'ధర', 'మార్కెట్', 'விலை', 'சந்தை', 'ભાવ', 'બજાર',
+  'ಬೆಲೆ', 'ಮಾರುಕಟ್ಟೆ', 'ଦର', 'ବଜାର', 'قیمت', 'منڈی',
+];
+
+// Agronomy phrases that contain a market word ("seed rate" is not a price)
+const NON_MARKET_PHRASES = [
+  'seed rate', 'seeding rate', 'sowing rate', 'application rate', 'spray rate', 'dose rate', 'dosage rate',
+  'fertilizer rate', 'fertiliser rate', 'germination rate', 'growth rate', 'flow rate',
+  'ph value', 'nutritive value', 'nutritional value', 'nutrient value',
+];
+
+const FIELD_OPERATION_TERMS: Record<FieldOperation, string[]> = {
+  spraying: ['spray', 'chhidkav', 'chidkav', 'छिड़काव', 'छिडकाव', 'स्प्रे', 'फवारणी', 'স্প্রে', 'పిచికారీ', 'தெளி', 'છંટકાવ', 'ಸಿಂಪಡಣೆ'],
+  sowing: ['sow', 'seeding', 'transplant', 'buwai', 'buai', 'ropai', 'बुवाई', 'बुआई', 'रोपाई', 'पेरणी', 'বপন', 'రోపణ', 'விதைப்பு', 'વાવણી', 'ಬಿತ್ತನೆ'],
+  irrigation: ['irrigat', 'watering', 'sinchai', 'सिंचाई', 'সেচ', 'పాసనం', 'பாசனம்', 'પિયત', 'ನೀರಾವರಿ'],
+  harvesting: ['harvest', 'katai', 'कटाई', 'काढणी', 'ফসল কাটা', 'కోత', 'அறுவடை', 'કાપણી', 'ಕಟಾವು'],
+  drying: ['drying', 'dry the', 'sukhana', 'sukhane', 'सुखा', 'वाळव', 'শুকানো', 'ఎండబెట్ట', 'உலர்த்த'],
+};
+
+const CURRENT_LOCATION_TERMS = [
+  'here', 'my area', 'my farm', 'my field', 'my village', 'my location', 'near me', 'nearby', 'nearest', 'around me',
+  'yahan', 'yaha', 'mere khet', 'mere gaon', 'aas paas', 'aaspaas',
+  'यहाँ', 'यहां', 'मेरे खेत', 'मेरे गांव', 'मेरे गाँव', 'आसपास', 'नजदीक', 'নিকট', 'এখানে', 'इथे', 'जवळ',
+];
+
+const TIMEFRAME_TERMS: Array<[IntentTimeframe, string[]]> = [
+  ['tomorrow', ['tomorrow', 'kal ', 'कल ', 'আগামীকাল', 'उद्या', 'రేపు', 'நாளை', 'આવતીકાલે', 'ನಾಳೆ', 'କାଲି']],
+  ['today', ['today', 'tonight', 'right now', 'aaj ', 'आज', 'আজ', 'ఈరోజు', 'இன்று', 'આજે', 'ಇಂದು', 'ଆଜି']],
+  ['next-week', ['next week', 'agle hafte', 'अगले हफ्ते', 'अगले सप्ताह', 'पुढच्या आठवड्यात']],
+  ['this-week', ['this week', 'next few days', 'coming days', 'next 7 days', 'is hafte', 'इस हफ्ते', 'इस सप्ताह', 'या आठवड्यात']],
+  ['season', ['this season', 'kharif', 'rabi', 'zaid', 'खरीफ', 'रबी', 'हंगाम']],
+];
+
+const SPECIFIC_DATE_PATTERN = /\b(\d{1,2}[/-]\d{1,2}([/-]\d{2,4})?|(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2}|\d{1,2}(st|nd|rd|th)?\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i;
+
+// "weather in Nashik", "mandi near Pune": a capitalised place after a preposition
+const NAMED_PLACE_PATTERN = /\b(?:in|at|near|around|for|of)\s+([A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)?)/g;
+const NOT_PLACES = new Set([
+  'I', 'My', 'The', 'This', 'Next', 'Today', 'Tomorrow', 'Kharif', 'Rabi', 'Zaid', 'English', 'Hindi',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'Jan', 'Feb', 'Mar', 'Apr', 'Jun', 'Jul', 'Aug', 'Sep', 'Sept', 'Oct', 'Nov', 'Dec',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+]);
+
+const FIND_MARKET_PATTERN = /\b(where (can|should|do) i sell|where to sell|nearest (mandi|market)|nearby (mandi|market)|best (mandi|market)|kahan bech)/i;
+const DECIDE_SELLING_PATTERN = /\b(sell now|should i (sell|hold|wait|store)|when (to|should i) sell|hold (my|the)? ?(crop|stock|produce)?|store (it|my|the)|kab bech)/i;
+
+// Lower case, punctuation as spaces and a space at both ends, so " rot " or " kal " match whole words
+function normalizeQuery(text: string): string {
+  return ` ${text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim()} `;
+}
+
+// Latin terms must start a word ("rate" not in "accurate") and may carry a suffix ("prices");
+// wholeWord only allows a plural ending. Other scripts have no reliable word boundary.
+function matchesTerm(normalized: string, term: string, wholeWord = false): boolean {
+  if (!/^[\x20-\x7e]+$/.test(term)) return normalized.includes(term);
+  return wholeWord
+    ? new RegExp(` ${term}(s|es)? `).test(normalized)
+    : normalized.includes(` ${term}`);
+}
+
+function matchedTerms(normalized: string, terms: string[]): string[] {
+  return Array.from(new Set(terms.filter(term => matchesTerm(normalized, term)).map(term => term.trim())));
+}
+
+function detectCrop(normalized: string): string | null {
+  let best: { crop: string; index: number } | null = null;
+  for (const [crop, names] of Object.entries(CROP_NAMES)) {
+    for (const name of names) {
+      if (!matchesTerm(normalized, name, true)) continue;
+      // The crop named first is the one being asked about
+      const index = normalized.indexOf(name);
+      if (!best || index < best.index) best = { crop, index };
+    }
+  }
+  return best?.crop ?? null;
+}
+
+function detectLocation(text: string, normalized: string): IntentLocation {
+  for (const match of text.matchAll(NAMED_PLACE_PATTERN)) {
+    const place = match[1];
+    const firstWord = place.split(' ')[0];
+    if (NOT_PLACES.has(firstWord) || detectCrop(normalizeQuery(place))) continue;
+    return { kind: 'named', place };
+  }
+  return matchedTerms(normalized, CURRENT_LOCATION_TERMS).length > 0 ? { kind: 'current' } : { kind: 'none' };
+}
+
+function detectTimeframe(text: string, normalized: string): IntentTimeframe | null {
+  if (SPECIFIC_DATE_PATTERN.test(text)) return 'specific-date';
+  const match = TIMEFRAME_TERMS.find(([, terms]) => matchedTerms(normalized, terms).length > 0);
+  return match ? match[0] : null;
+}
+
+function detectGoal(text: string, topics: IntentTopic[], fieldOperations: FieldOperation[]): IntentGoal | null {
+  const operationGoals: Record<FieldOperation, IntentGoal> = {
+    spraying: 'decide-spraying',
+    sowing: 'plan-sowing',
+    irrigation: 'plan-irrigation',
+    harvesting: 'plan-harvest',
+    drying: 'plan-harvest',
+  };
+  // "drip irrigation subsidy" is about the scheme, not about when to irrigate
+  if (topics[0] === 'scheme') return 'learn-scheme';
+  if (fieldOperations.length > 0) return operationGoals[fieldOperations[0]];
+  if (topics.includes('market-price')) {
+    if (FIND_MARKET_PATTERN.test(text)) return 'find-market';
+    if (DECIDE_SELLING_PATTERN.test(text)) return 'decide-selling';
+    return 'get-price';
+  }
+  if (topics.includes('disease-pest') || topics.includes('nutrient-deficiency')) return 'diagnose-problem';
+  if (topics.includes('weather')) return 'check-weather';
+  if (topics.length > 0 && topics[0] !== 'general') return 'learn-practice';
+  return null;
+}
+
+export function classifyIntent(text: string, userContext?: UserContext): Intent {
+  const query = text.trim();
+  const normalized = normalizeQuery(query);
+
+  const weather = matchedTerms(normalized, WEATHER_TERMS);
+  const market = matchedTerms(
+    NON_MARKET_PHRASES.reduce((text, phrase) => text.replaceAll(` ${phrase} `, '  '), normalized),
+    MARKET_TERMS,
+  );
+  const fieldOperations = (Object.keys(FIELD_OPERATION_TERMS) as FieldOperation[])
+    .filter(operation => matchedTerms(normalized, FIELD_OPERATION_TERMS[operation]).length > 0);
+
+  const matchedTopics = new Set<IntentTopic>();
+  for (const [topic, terms] of Object.entries(TOPIC_TERMS) as Array<[IntentTopic, string[]]>) {
+    if (matchedTerms(normalized, terms).length > 0) matchedTopics.add(topic);
+  }
+  if (weather.length > 0) matchedTopics.add('weather');
+  if (market.length > 0) matchedTopics.add('market-price');
+  if (fieldOperations.includes('irrigation')) matchedTopics.add('irrigation');
+  if (fieldOperations.includes('sowing')) matchedTopics.add('cultivation-practice');
+
+  const topics = INTENT_TOPICS.filter(topic => matchedTopics.has(topic));
+  if (topics.length === 0) topics.push('general');
+
+  const messageCrop = detectCrop(normalized);
+  const profileCrops = getUserCrops(userContext);
+  const profileCrop = profileCrops.length === 1 ? detectCrop(normalizeQuery(profileCrops[0])) ?? profileCrops[0].toLowerCase() : null;
+
+  return {
+    query,
+    crop: messageCrop ?? profileCrop,
+    cropSource: messageCrop ? 'message' : profileCrop ? 'profile' : null,
+    topics,
+    primaryTopic: topics[0],
+    location: detectLocation(query, normalized),
+    timeframe: detectTimeframe(query, normalized),
+    goal: detectGoal(query, topics, fieldOperations),
+    fieldOperations,
+    signals: {
+      weather,
+      market,
+      timeSensitive: isTimeSensitiveQuery(query),
+    },
+  };
+}
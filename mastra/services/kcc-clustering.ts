@@ -0,0 +1,74 @@
+// Groups KCC answers that give the same advice in slightly different words
+
+// Answers sharing at least this share of their word set are treated as the same advice
+const DEFAULT_SIMILARITY_THRESHOLD = 0.6;
+
+export interface ClusterableResult {
+  id: string;
+  answer: string;
+  state?: string;
+  district?: string;
+}
+
+export interface AnswerCluster<T extends ClusterableResult> {
+  representative: T;
+  members: T[];
+}
+
+// Unlike BM25 tokens, keep single digits so "2 ml" and "3 ml" stay different answers
+function answerTerms(answer: string): Set<string> {
+  return new Set(
+    answer
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}.]+/u)
+      .map(term => term.replace(/^\.+|\.+$/g, ''))
+      .filter(Boolean),
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Greedily cluster results (already in rank order) by answer similarity.
+ * The first member of each cluster is its highest-ranked result and becomes the representative.
+ */
+export function clusterByAnswer<T extends ClusterableResult>(
+  results: T[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD,
+): AnswerCluster<T>[] {
+  const clusters: Array<AnswerCluster<T> & { terms: Set<string> }> = [];
+
+  for (const result of results) {
+    const terms = answerTerms(result.answer);
+    const cluster = clusters.find(c => jaccard(c.terms, terms) >= threshold);
+    if (cluster) {
+      cluster.members.push(result);
+    } else {
+      clusters.push({ representative: result, members: [result], terms });
+    }
+  }
+
+  return clusters.map(({ representative, members }) => ({ representative, members }));
+}
+
+export function describeCluster<T extends ClusterableResult>(cluster: AnswerCluster<T>): string {
+  const count = cluster.members.length;
+  const districts = new Set(cluster.members.map(m => m.district).filter(Boolean));
+  const states = new Set(cluster.members.map(m => m.state).filter(Boolean));
+
+  if (count === 1) return 'Seen once';
+  if (districts.size > 0) {
+    return `Seen ${count} times across ${districts.size} district${districts.size === 1 ? '' : 's'}`;
+  }
+  if (states.size > 0) {
+    return `Seen ${count} times across ${states.size} state${states.size === 1 ? '' : 's'}`;
+  }
+  return `Seen ${count} times`;
+}
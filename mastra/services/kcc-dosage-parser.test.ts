@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findCombinationConflicts, findDosageConflicts, findProductMentions, parseDosages } from './kcc-dosage-parser';
+
+describe('parseDosages', () => {
+  it('attributes a trade-name dose to its active ingredient', () => {
+    const [dosage] = parseDosages('Spray Confidor 0.3 ml per litre of water.');
+    assert.equal(dosage.activeIngredient, 'imidacloprid');
+    assert.equal(dosage.perAcre?.value, 60);
+  });
+});
+
+describe('findDosageConflicts', () => {
+  it('flags doses of one ingredient that differ widely between answers', () => {
+    const conflicts = findDosageConflicts([
+      { id: 'a', dosages: parseDosages('Spray mancozeb 2.5 g per litre.') },
+      { id: 'b', dosages: parseDosages('Spray Dithane M-45 2 kg per acre.') },
+    ]);
+    assert.deepEqual(conflicts.map(c => [c.kind, c.activeIngredient, c.resultIds]), [['dose', 'mancozeb', ['a', 'b']]]);
+  });
+});
+
+describe('findCombinationConflicts', () => {
+  const result = (id: string, answer: string) => ({ id, products: findProductMentions(answer) });
+
+  it('flags one active ingredient recommended under different names', () => {
+    const [conflict] = findCombinationConflicts([
+      result('a', 'Spray Confidor 0.3 ml/litre for jassids.'),
+      result('b', 'Use imidacloprid 17.8 SL.'),
+    ]);
+    assert.equal(conflict.kind, 'duplicate-active');
+    assert.deepEqual(conflict.products, ['confidor', 'imidacloprid']);
+  });
+
+  it('does not flag a generic name with its trade name in one answer', () => {
+    assert.deepEqual(findCombinationConflicts([result('a', 'Spray imidacloprid (Confidor) 0.3 ml/litre.')]), []);
+  });
+
+  it('flags incompatible tank mixes across answers', () => {
+    const conflicts = findCombinationConflicts([
+      result('a', 'Treat seed with Trichoderma viride 4 g/kg seed.'),
+      result('b', 'Spray carbendazim 1 g/litre.'),
+      result('c', 'Dust sulphur, then spray neem oil 3 ml/litre.'),
+    ]);
+    assert.deepEqual(conflicts.map(c => [c.kind, c.activeIngredient, c.resultIds]), [
+      ['tank-mix', 'trichoderma viride + carbendazim', ['a', 'b']],
+      ['tank-mix', 'sulphur + neem oil', ['c']],
+    ]);
+  });
+});
@@ -0,0 +1,423 @@
+// Pulls active ingredients, doses and timing out of free-text KCC answers
+
+// Active ingredients and inputs commonly named in KCC answers (lowercase, longest names first when matching)
+const ACTIVE_INGREDIENTS = [
+  '2,4-d',
+  'acephate',
+  'atrazine',
+  'azadirachtin',
+  'azoxystrobin',
+  'bispyribac sodium',
+  'buprofezin',
+  'butachlor',
+  'captan',
+  'carbendazim',
+  'carbofuran',
+  'cartap hydrochloride',
+  'chlorantraniliprole',
+  'chlorpyriphos',
+  'chlorpyrifos',
+  'copper oxychloride',
+  'cypermethrin',
+  'deltamethrin',
+  'diafenthiuron',
+  'difenoconazole',
+  'dimethoate',
+  'emamectin benzoate',
+  'endosulfan',
+  'fipronil',
+  'flubendiamide',
+  'glyphosate',
+  'hexaconazole',
+  'imidacloprid',
+  'indoxacarb',
+  'kasugamycin',
+  'lambda cyhalothrin',
+  'malathion',
+  'mancozeb',
+  'metalaxyl',
+  'methyl parathion',
+  'metribuzin',
+  'metsulfuron methyl',
+  'monocrotophos',
+  'neem oil',
+  'pendimethalin',
+  'phorate',
+  'pretilachlor',
+  'profenofos',
+  'propiconazole',
+  'pseudomonas fluorescens',
+  'pymetrozine',
+  'quinalphos',
+  'spinosad',
+  'streptocycline',
+  'sulphur',
+  'tebuconazole',
+  'thiamethoxam',
+  'thiophanate methyl',
+  'triazophos',
+  'trichoderma viride',
+  'tricyclazole',
+  'validamycin',
+  'boron',
+  'borax',
+  'dap',
+  'mop',
+  'ssp',
+  'urea',
+  'zinc sulphate',
+].sort((a, b) => b.length - a.length);
+
+// Indian trade names of the active ingredients above, so the same product under two names is recognised
+const TRADE_NAMES: Record<string, string> = {
+  'actara': 'thiamethoxam',
+  'admire': 'imidacloprid',
+  'amistar': 'azoxystrobin',
+  'applaud': 'buprofezin',
+  'avaunt': 'indoxacarb',
+  'bavistin': 'carbendazim',
+  'beam': 'tricyclazole',
+  'blitox': 'copper oxychloride',
+  'confidor': 'imidacloprid',
+  'contaf': 'hexaconazole',
+  'coragen': 'chlorantraniliprole',
+  'curacron': 'profenofos',
+  'dithane m-45': 'mancozeb',
+  'ekalux': 'quinalphos',
+  'fame': 'flubendiamide',
+  'folicur': 'tebuconazole',
+  'furadan': 'carbofuran',
+  'indofil m-45': 'mancozeb',
+  'karate': 'lambda cyhalothrin',
+  'nominee gold': 'bispyribac sodium',
+  'padan': 'cartap hydrochloride',
+  'proclaim': 'emamectin benzoate',
+  'regent': 'fipronil',
+  'ridomil': 'metalaxyl',
+  'rogor': 'dimethoate',
+  'roundup': 'glyphosate',
+  'sencor': 'metribuzin',
+  'sheathmar': 'validamycin',
+  'stomp': 'pendimethalin',
+  'thimet': 'phorate',
+  'tilt': 'propiconazole',
+  'topsin m': 'thiophanate methyl',
+  'tracer': 'spinosad',
+};
+
+// Every name matched in answer text, longest first so "dithane m-45" wins over shorter overlaps
+const PRODUCT_NAMES = [
+  ...ACTIVE_INGREDIENTS.map(name => ({ name, activeIngredient: name })),
+  ...Object.entries(TRADE_NAMES).map(([name, activeIngredient]) => ({ name, activeIngredient })),
+].sort((a, b) => b.name.length - a.name.length);
+
+const BIO_AGENTS = ['trichoderma viride', 'pseudomonas fluorescens'];
+const CHEMICAL_FUNGICIDES = [
+  'azoxystrobin', 'captan', 'carbendazim', 'copper oxychloride', 'difenoconazole', 'hexaconazole', 'mancozeb',
+  'metalaxyl', 'propiconazole', 'tebuconazole', 'thiophanate methyl', 'tricyclazole',
+];
+
+// Products that must not go in the same tank or be applied close together
+const INCOMPATIBLE_MIXES: Array<{ first: string[]; second: string[]; reason: string }> = [
+  {
+    first: BIO_AGENTS,
+    second: CHEMICAL_FUNGICIDES,
+    reason: 'Chemical fungicides kill bio-agents; do not mix them, and keep about a week between the two',
+  },
+  {
+    first: ['sulphur'],
+    second: ['neem oil'],
+    reason: 'Sulphur with oil sprays burns leaves; do not mix them, and keep about two weeks between the two',
+  },
+];
+
+// Standard high-volume spray for field crops, used to turn per-litre doses into per-acre amounts
+export const SPRAY_VOLUME_LITRES_PER_ACRE = 200;
+const KNAPSACK_TANK_LITRES = 15;
+const ACRES_PER_HECTARE = 2.471;
+
+export type DoseUnit = 'ml' | 'l' | 'g' | 'kg';
+export type DoseBasis = 'litre' | 'tank' | 'acre' | 'hectare' | 'kg-seed';
+
+export interface ParsedDosage {
+  activeIngredient: string;
+  dose: number;
+  unit: DoseUnit;
+  per: DoseBasis;
+  // Amount per acre, when the basis allows a conversion
+  perAcre?: { value: number; unit: DoseUnit; assumption?: string };
+  intervalDays?: { min: number; max: number };
+  waitingPeriodDays?: number;
+  text: string;
+}
+
+export interface ProductMention {
+  // As written in the answer: a trade name or the active ingredient itself
+  name: string;
+  activeIngredient: string;
+}
+
+export type DosageConflictKind = 'dose' | 'duplicate-active' | 'tank-mix';
+
+export interface DosageConflict {
+  kind: DosageConflictKind;
+  // For tank mixes, the two ingredients joined with " + "
+  activeIngredient: string;
+  resultIds: string[];
+  // Doses as written, for dose conflicts
+  doses: string[];
+  // Product names as written, for duplicate actives and tank mixes
+  products: string[];
+  reason: string;
+}
+
+const UNIT_ALIASES: Record<string, DoseUnit> = {
+  ml: 'ml',
+  l: 'l',
+  lit: 'l',
+  litre: 'l',
+  liter: 'l',
+  litres: 'l',
+  liters: 'l',
+  g: 'g',
+  gm: 'g',
+  gms: 'g',
+  gram: 'g',
+  grams: 'g',
+  kg: 'kg',
+  kgs: 'kg',
+};
+
+const BASIS_ALIASES: Record<string, DoseBasis> = {
+  l: 'litre',
+  lit: 'litre',
+  litre: 'litre',
+  liter: 'litre',
+  'litre of water': 'litre',
+  'liter of water': 'litre',
+  tank: 'tank',
+  pump: 'tank',
+  acre: 'acre',
+  ac: 'acre',
+  ha: 'hectare',
+  hectare: 'hectare',
+  'kg seed': 'kg-seed',
+  'kg of seed': 'kg-seed',
+};
+
+const DOSE_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(ml|litres?|liters?|lit|l|gms?|grams?|g|kgs?)\s*(?:\/|per|in|for)\s*(?:one\s+|1\s+|each\s+)?(litre of water|liter of water|kg of seed|kg seed|litre|liter|lit|l|tank|pump|acre|ac|hectare|ha)\b/gi;
+const INTERVAL_PATTERN =
+  /(?:repeat|again|interval|every)[^.]*?(\d+)\s*(?:-|to|–)?\s*(\d+)?\s*days?/i;
+const WAITING_PATTERN = /(?:waiting period|pre-?harvest interval|phi)[^.\d]*(\d+)\s*days?/i;
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.;])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+}
+
+// Active ingredients named in the text, directly or by trade name, in order of appearance
+function findIngredients(sentence: string): Array<ProductMention & { index: number }> {
+  const lower = sentence.toLowerCase();
+  const found: Array<ProductMention & { index: number }> = [];
+  const taken: Array<[number, number]> = [];
+
+  for (const { name, activeIngredient } of PRODUCT_NAMES) {
+    const pattern = new RegExp(`(^|[^a-z])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![a-z])`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(lower)) !== null) {
+      const start = match.index + match[1].length;
+      const end = start + name.length;
+      if (taken.some(([s, e]) => start < e && end > s)) continue;
+      taken.push([start, end]);
+      found.push({ name, activeIngredient, index: start });
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index);
+}
+
+// Each product named in a KCC answer once, with or without a dose
+export function findProductMentions(answer: string): ProductMention[] {
+  const seen = new Set<string>();
+  return findIngredients(answer)
+    .filter(({ name }) => !seen.has(name) && seen.add(name))
+    .map(({ name, activeIngredient }) => ({ name, activeIngredient }));
+}
+
+function toPerAcre(dose: number, unit: DoseUnit, per: DoseBasis): ParsedDosage['perAcre'] {
+  switch (per) {
+    case 'acre':
+      return { value: dose, unit };
+    case 'hectare':
+      return { value: round2(dose / ACRES_PER_HECTARE), unit };
+    case 'litre':
+      return {
+        value: round2(dose * SPRAY_VOLUME_LITRES_PER_ACRE),
+        unit,
+        assumption: `${SPRAY_VOLUME_LITRES_PER_ACRE} litres of spray per acre`,
+      };
+    case 'tank':
+      return {
+        value: round2((dose / KNAPSACK_TANK_LITRES) * SPRAY_VOLUME_LITRES_PER_ACRE),
+        unit,
+        assumption: `${KNAPSACK_TANK_LITRES} litre tank, ${SPRAY_VOLUME_LITRES_PER_ACRE} litres of spray per acre`,
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Extract dosages from a KCC answer. Each dose is attributed to the nearest active
+ * ingredient named before it in the same sentence; sentence-level spray intervals and
+ * waiting periods are attached to every dose in that sentence (or the whole answer).
+ */
+export function parseDosages(answer: string): ParsedDosage[] {
+  const dosages: ParsedDosage[] = [];
+  const answerInterval = parseInterval(answer);
+  const answerWaiting = parseWaitingPeriod(answer);
+
+  for (const sentence of splitSentences(answer)) {
+    const ingredients = findIngredients(sentence);
+    if (ingredients.length === 0) continue;
+
+    const interval = parseInterval(sentence) ?? answerInterval;
+    const waitingPeriodDays = parseWaitingPeriod(sentence) ?? answerWaiting;
+
+    for (const match of sentence.matchAll(DOSE_PATTERN)) {
+      const position = match.index ?? 0;
+      const ingredient =
+        [...ingredients].reverse().find(i => i.index <= position) ?? ingredients[0];
+      const unit = UNIT_ALIASES[match[2].toLowerCase()];
+      const per = BASIS_ALIASES[match[3].toLowerCase()];
+      if (!unit || !per) continue;
+
+      const dose = parseFloat(match[1]);
+      dosages.push({
+        activeIngredient: ingredient.activeIngredient,
+        dose,
+        unit,
+        per,
+        perAcre: toPerAcre(dose, unit, per),
+        intervalDays: interval,
+        waitingPeriodDays,
+        text: match[0],
+      });
+    }
+  }
+
+  return dosages;
+}
+
+function parseInterval(text: string): ParsedDosage['intervalDays'] {
+  const match = text.match(INTERVAL_PATTERN);
+  if (!match) return undefined;
+  const min = parseInt(match[1], 10);
+  const max = match[2] ? parseInt(match[2], 10) : min;
+  return { min: Math.min(min, max), max: Math.max(min, max) };
+}
+
+function parseWaitingPeriod(text: string): number | undefined {
+  const match = text.match(WAITING_PATTERN);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Express a per-acre amount in the smallest unit of its dimension so doses can be compared
+function toBaseAmount(perAcre: NonNullable<ParsedDosage['perAcre']>): { amount: number; dimension: 'volume' | 'mass' } {
+  switch (perAcre.unit) {
+    case 'l':
+      return { amount: perAcre.value * 1000, dimension: 'volume' };
+    case 'ml':
+      return { amount: perAcre.value, dimension: 'volume' };
+    case 'kg':
+      return { amount: perAcre.value * 1000, dimension: 'mass' };
+    default:
+      return { amount: perAcre.value, dimension: 'mass' };
+  }
+}
+
+// Doses of the same ingredient differing by more than this factor are flagged
+const DOSE_CONFLICT_RATIO = 1.5;
+
+export function findDosageConflicts(results: Array<{ id: string; dosages: ParsedDosage[] }>): DosageConflict[] {
+  const byIngredient = new Map<string, Array<{ id: string; dosage: ParsedDosage }>>();
+  for (const result of results) {
+    for (const dosage of result.dosages) {
+      const entries = byIngredient.get(dosage.activeIngredient) || [];
+      entries.push({ id: result.id, dosage });
+      byIngredient.set(dosage.activeIngredient, entries);
+    }
+  }
+
+  const conflicts: DosageConflict[] = [];
+  for (const [activeIngredient, entries] of byIngredient) {
+    const resultIds = [...new Set(entries.map(e => e.id))];
+    if (resultIds.length < 2) continue;
+
+    const comparable = entries.filter(e => e.dosage.perAcre).map(e => ({ ...e, base: toBaseAmount(e.dosage.perAcre!) }));
+    const dimensions = new Set(comparable.map(c => c.base.dimension));
+    const doses = entries.map(e => `${e.dosage.dose} ${e.dosage.unit}/${e.dosage.per}`);
+
+    if (dimensions.size > 1) {
+      conflicts.push({ kind: 'dose', activeIngredient, resultIds, doses, products: [], reason: 'Answers mix liquid and solid doses for the same product' });
+      continue;
+    }
+
+    const amounts = comparable.map(c => c.base.amount).filter(a => a > 0);
+    if (amounts.length >= 2 && Math.max(...amounts) / Math.min(...amounts) > DOSE_CONFLICT_RATIO) {
+      conflicts.push({ kind: 'dose', activeIngredient, resultIds, doses, products: [], reason: 'Per-acre doses differ widely between answers' });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Flag products that should not be combined when the advice of several answers is merged:
+ * one active ingredient under different names (applying both doubles the dose) and
+ * known incompatible tank mixes.
+ */
+export function findCombinationConflicts(results: Array<{ id: string; products: ProductMention[] }>): DosageConflict[] {
+  const mentions = results.flatMap(result => result.products.map(product => ({ id: result.id, ...product })));
+  const conflicts: DosageConflict[] = [];
+
+  const byIngredient = new Map<string, typeof mentions>();
+  for (const mention of mentions) {
+    byIngredient.set(mention.activeIngredient, [...(byIngredient.get(mention.activeIngredient) || []), mention]);
+  }
+  for (const [activeIngredient, entries] of byIngredient) {
+    const products = [...new Set(entries.map(entry => entry.name))];
+    const resultIds = [...new Set(entries.map(entry => entry.id))];
+    const tradeNames = products.filter(name => name !== activeIngredient);
+    // "imidacloprid (Confidor)" within one answer names a single product
+    if (products.length < 2 || (tradeNames.length < 2 && resultIds.length < 2)) continue;
+    conflicts.push({
+      kind: 'duplicate-active',
+      activeIngredient,
+      resultIds,
+      doses: [],
+      products,
+      reason: `${products.join(', ')} are all ${activeIngredient}; apply only one of them`,
+    });
+  }
+
+  for (const { first, second, reason } of INCOMPATIBLE_MIXES) {
+    const left = mentions.filter(mention => first.includes(mention.activeIngredient));
+    const right = mentions.filter(mention => second.includes(mention.activeIngredient));
+    if (left.length === 0 || right.length === 0) continue;
+    conflicts.push({
+      kind: 'tank-mix',
+      activeIngredient: `${left[0].activeIngredient} + ${right[0].activeIngredient}`,
+      resultIds: [...new Set([...left, ...right].map(mention => mention.id))],
+      doses: [],
+      products: [...new Set([...left, ...right].map(mention => mention.name))],
+      reason,
+    });
+  }
+
+  return conflicts;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
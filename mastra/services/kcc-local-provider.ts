@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Bm25Index, type SerializedBm25Index } from './bm25';
+import type { KCCApiResult, KCCApiResponse, KCCSearchFilters, KccSearchProvider, KccSearchRequest } from './kcc-search-provider';
+
+type KCCRecord = Omit<KCCApiResult, 'similarity'>;
+
+interface LocalIndexFile {
+  version: number;
+  sourceSize: number;
+  sourceMtimeMs: number;
+  records: KCCRecord[];
+  bm25: SerializedBm25Index;
+}
+
+const INDEX_FILE_VERSION = 1;
+
+// Column aliases seen across data.gov.in KCC exports
+const COLUMN_ALIASES: Record<keyof KCCRecord, string[]> = {
+  id: ['id', '_id', 'sno', 's.no'],
+  StateName: ['statename', 'state'],
+  DistrictName: ['districtname', 'district'],
+  Category: ['category'],
+  QueryType: ['querytype'],
+  QueryText: ['querytext', 'query'],
+  KccAns: ['kccans', 'answer', 'kccanswer'],
+  Crop: ['crop'],
+  Season: ['season'],
+  CreatedOn: ['createdon', 'created_on', 'date'],
+};
+
+/**
+ * Offline KCC search over a local Q&A dump (CSV or JSONL).
+ * A BM25 index is built on first use and cached next to the dump, and rebuilt when the dump changes.
+ */
+export class LocalKccSearchProvider implements KccSearchProvider {
+  readonly name = 'local';
+  private readonly dataPath: string;
+  private readonly indexPath: string;
+  private loading: Promise<{ records: KCCRecord[]; index: Bm25Index }> | null = null;
+
+  constructor(options: { dataPath: string; indexPath?: string }) {
+    this.dataPath = path.resolve(options.dataPath);
+    this.indexPath = path.resolve(options.indexPath || `${options.dataPath}.bm25.json`);
+  }
+
+  async search({ query, topK, filters }: KccSearchRequest): Promise<KCCApiResponse> {
+    const startedAt = Date.now();
+    const { records, index } = await this.load();
+
+    const matches = index.search(query, topK, i => matchesFilters(records[i], filters));
+    const results: KCCApiResult[] = matches.map(match => ({
+      ...records[match.index],
+      similarity: Number(match.coverage.toFixed(4)),
+    }));
+
+    return {
+      success: true,
+      query,
+      topK,
+      filters: { ...filters },
+      resultsCount: results.length,
+      searchTime: `${Date.now() - startedAt}ms`,
+      results,
+    };
+  }
+
+  private load() {
+    if (!this.loading) {
+      this.loading = this.loadIndex().catch(error => {
+        // Allow a later call to retry after e.g. the dump has been fixed
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadIndex(): Promise<{ records: KCCRecord[]; index: Bm25Index }> {
+    const stat = await fs.stat(this.dataPath);
+
+    try {
+      const cached = JSON.parse(await fs.readFile(this.indexPath, 'utf8')) as LocalIndexFile;
+      if (
+        cached.version === INDEX_FILE_VERSION &&
+        cached.sourceSize === stat.size &&
+        cached.sourceMtimeMs === stat.mtimeMs
+      ) {
+        return { records: cached.records, index: Bm25Index.fromJSON(cached.bm25) };
+      }
+    } catch {
+      // No usable index on disk yet; build one below
+    }
+
+    const raw = await fs.readFile(this.dataPath, 'utf8');
+    const records = this.dataPath.toLowerCase().endsWith('.csv') ? parseCsvRecords(raw) : parseJsonlRecords(raw);
+    const index = Bm25Index.build(records.map(r => `${r.QueryText} ${r.KccAns} ${r.Crop}`));
+
+    const indexFile: LocalIndexFile = {
+      version: INDEX_FILE_VERSION,
+      sourceSize: stat.size,
+      sourceMtimeMs: stat.mtimeMs,
+      records,
+      bm25: index.toJSON(),
+    };
+    try {
+      await fs.writeFile(this.indexPath, JSON.stringify(indexFile));
+    } catch (error) {
+      console.warn('Failed to persist local KCC index:', error);
+    }
+
+    return { records, index };
+  }
+}
+
+function matchesFilters(record: KCCRecord, filters: KCCSearchFilters): boolean {
+  return (Object.entries(filters) as Array<[keyof KCCSearchFilters, string | undefined]>).every(([key, value]) => {
+    if (!value) return true;
+    return (record[key] || '').toLowerCase().includes(value.toLowerCase());
+  });
+}
+
+function toRecord(row: Record<string, unknown>, fallbackId: number): KCCRecord | null {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(row)) {
+    normalized[key.trim().toLowerCase()] = value === null || value === undefined ? '' : String(value).trim();
+  }
+
+  const pick = (field: keyof KCCRecord) => {
+    for (const alias of COLUMN_ALIASES[field]) {
+      if (normalized[alias]) return normalized[alias];
+    }
+    return '';
+  };
+
+  const record: KCCRecord = {
+    id: pick('id') || String(fallbackId),
+    StateName: pick('StateName'),
+    DistrictName: pick('DistrictName'),
+    Category: pick('Category'),
+    QueryType: pick('QueryType'),
+    QueryText: pick('QueryText'),
+    KccAns: pick('KccAns'),
+    Crop: pick('Crop'),
+    Season: pick('Season'),
+    CreatedOn: pick('CreatedOn'),
+  };
+
+  return record.QueryText || record.KccAns ? record : null;
+}
+
+function parseJsonlRecords(raw: string): KCCRecord[] {
+  const records: KCCRecord[] = [];
+  raw.split(/\r?\n/).forEach((line, lineNumber) => {
+    if (!line.trim()) return;
+    try {
+      const record = toRecord(JSON.parse(line), lineNumber + 1);
+      if (record) records.push(record);
+    } catch {
+      console.warn(`Skipping malformed KCC JSONL line ${lineNumber + 1}`);
+    }
+  });
+  return records;
+}
+
+function parseCsvRecords(raw: string): KCCRecord[] {
+  const rows = parseCsv(raw);
+  if (rows.length === 0) return [];
+
+  const [header, ...body] = rows;
+  const records: KCCRecord[] = [];
+  body.forEach((cells, rowIndex) => {
+    const row: Record<string, string> = {};
+    header.forEach((column, i) => {
+      row[column] = cells[i] ?? '';
+    });
+    const record = toRecord(row, rowIndex + 1);
+    if (record) records.push(record);
+  });
+  return records;
+}
+
+// RFC 4180 CSV: quoted fields, escaped quotes and embedded newlines
+function parseCsv(raw: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+
+    if (inQuotes) {
+      if (char === '"' && raw[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && raw[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(cell => cell !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(cell => cell !== '')) rows.push(row);
+  return rows;
+}
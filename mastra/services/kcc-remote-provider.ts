@@ -0,0 +1,45 @@
+import type { KCCApiResponse, KccSearchProvider, KccSearchRequest } from './kcc-search-provider';
+
+// Hosted KCC vector search (Cloud Run)
+const DEFAULT_KCC_API_BASE_URL = 'https://kishancallvectordb-816972702925.asia-south1.run.app';
+
+export class RemoteKccSearchProvider implements KccSearchProvider {
+  readonly name = 'remote';
+  private readonly baseUrl: string;
+
+  constructor(options: { baseUrl?: string } = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_KCC_API_BASE_URL).replace(/\/+$/, '');
+  }
+
+  async search({ query, topK, filters }: KccSearchRequest): Promise<KCCApiResponse> {
+    // Build request body
+    const requestBody: { query: string; topK: number; filters?: KccSearchRequest['filters'] } = {
+      query,
+      topK,
+    };
+    if (Object.keys(filters).length > 0) {
+      requestBody.filters = filters;
+    }
+
+    // Make API call
+    const response = await fetch(`${this.baseUrl}/api/search`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
+    }
+
+    const apiResponse: KCCApiResponse = await response.json();
+
+    if (!apiResponse.success) {
+      throw new Error('API returned unsuccessful response');
+    }
+
+    return apiResponse;
+  }
+}
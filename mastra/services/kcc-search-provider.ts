@@ -0,0 +1,87 @@
+import { RemoteKccSearchProvider } from './kcc-remote-provider';
+import { LocalKccSearchProvider } from './kcc-local-provider';
+
+export interface KCCApiResult {
+  id: string;
+  similarity: number;
+  StateName: string;
+  DistrictName: string;
+  Category: string;
+  QueryType: string;
+  QueryText: string;
+  KccAns: string;
+  Crop: string;
+  Season: string;
+  CreatedOn: string;
+}
+
+export interface KCCSearchFilters {
+  StateName?: string;
+  DistrictName?: string;
+  Category?: string;
+  Season?: string;
+  Crop?: string;
+}
+
+export interface KCCApiResponse {
+  success: boolean;
+  query: string;
+  topK: number;
+  filters?: Record<string, string>;
+  resultsCount: number;
+  searchTime: string;
+  results: KCCApiResult[];
+}
+
+export interface KccSearchRequest {
+  query: string;
+  topK: number;
+  filters: KCCSearchFilters;
+}
+
+/**
+ * A backend able to answer KCC similarity searches.
+ * Implementations throw on failure; callers decide how to degrade.
+ */
+export interface KccSearchProvider {
+  readonly name: string;
+  search(request: KccSearchRequest): Promise<KCCApiResponse>;
+}
+
+export type KccSearchProviderName = 'remote' | 'local';
+
+let cachedProvider: KccSearchProvider | null = null;
+
+/**
+ * Resolve the provider selected by KCC_SEARCH_PROVIDER ("remote" by default, or "local").
+ * The local provider reads its dump from KCC_LOCAL_DATA_PATH (CSV or JSONL).
+ */
+export function getKccSearchProvider(): KccSearchProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const selected = (process.env.KCC_SEARCH_PROVIDER || 'remote').trim().toLowerCase();
+
+  if (selected === 'local') {
+    const dataPath = process.env.KCC_LOCAL_DATA_PATH;
+    if (!dataPath) {
+      throw new Error('KCC_SEARCH_PROVIDER is "local" but KCC_LOCAL_DATA_PATH is not set');
+    }
+    cachedProvider = new LocalKccSearchProvider({
+      dataPath,
+      indexPath: process.env.KCC_LOCAL_INDEX_PATH,
+    });
+  } else if (selected === 'remote') {
+    cachedProvider = new RemoteKccSearchProvider({
+      baseUrl: process.env.KCC_API_BASE_URL,
+    });
+  } else {
+    throw new Error(`Unknown KCC_SEARCH_PROVIDER "${selected}". Use "remote" or "local".`);
+  }
+
+  return cachedProvider;
+}
+
+// Override the provider (e.g. with a stub) for tests or embedding
+export function setKccSearchProvider(provider: KccSearchProvider | null): void {
+  cachedProvider = provider;
+}
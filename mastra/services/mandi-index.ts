@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import bundledIndex from '../index/mandi-index.json';
+import { flattenMandiIndex, mergeMandiIndex, type FlatMandiIndex, type MandiIndex, type MandiIndexRecord } from '../../lib/mandi-index';
+import { iterateMandiPricePages } from './mandi-price-service';
+
+export const DEFAULT_CRAWL_PAGES = 50;
+// Most feed pages (1,000 records each) one refresh through the API route may crawl
+export const MAX_REFRESH_PAGES = 100;
+// How often the runtime copy is checked for a newer refresh written by another process
+const RELOAD_INTERVAL_MS = 10 * 60 * 1000;
+
+export const BUNDLED_MANDI_INDEX_PATH = path.join(process.cwd(), 'mastra', 'index', 'mandi-index.json');
+
+let currentIndex: MandiIndex = bundledIndex as MandiIndex;
+let currentFlat: FlatMandiIndex = flattenMandiIndex(currentIndex);
+let lastReload = 0;
+
+function runtimeIndexPath(): string {
+  return process.env.MANDI_INDEX_PATH || path.join(process.cwd(), '.mastra', 'mandi-index.json');
+}
+
+function isNewer(candidate: MandiIndex, than: MandiIndex): boolean {
+  return Boolean(candidate.generatedAt) && (!than.generatedAt || candidate.generatedAt! > than.generatedAt);
+}
+
+function setCurrentIndex(index: MandiIndex) {
+  currentIndex = index;
+  currentFlat = flattenMandiIndex(index);
+}
+
+// Latest index already in memory: the bundled snapshot until a refreshed copy is loaded
+export function getMandiIndex(): MandiIndex {
+  return currentIndex;
+}
+
+export function getFlatMandiIndex(): FlatMandiIndex {
+  return currentFlat;
+}
+
+/**
+ * Pick up a refreshed index written to MANDI_INDEX_PATH (default .mastra/mandi-index.json)
+ * when it is newer than the one in memory. Cheap to call per request.
+ */
+export async function loadMandiIndex(): Promise<MandiIndex> {
+  if (Date.now() - lastReload < RELOAD_INTERVAL_MS) return currentIndex;
+  lastReload = Date.now();
+
+  try {
+    const stored = JSON.parse(await fs.readFile(runtimeIndexPath(), 'utf8')) as MandiIndex;
+    if (Array.isArray(stored.states) && isNewer(stored, currentIndex)) {
+      setCurrentIndex(stored);
+    }
+  } catch {
+    // No refreshed copy yet; keep the bundled one
+  }
+  return currentIndex;
+}
+
+export async function writeMandiIndex(index: MandiIndex, filePath = runtimeIndexPath()): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(index, null, 2)}\n`, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Page through the live data.gov.in feed and fold the state/district/market/commodity
+ * facets of today's records into the current hierarchy.
+ */
+export async function crawlMandiIndex(maxPages = DEFAULT_CRAWL_PAGES): Promise<{ index: MandiIndex; records: number; pages: number }> {
+  const records: MandiIndexRecord[] = [];
+  let pages = 0;
+
+  for await (const page of iterateMandiPricePages({}, maxPages)) {
+    pages++;
+    records.push(...page.prices);
+  }
+
+  const index = mergeMandiIndex(currentIndex, records, `data.gov.in daily mandi prices, last crawl ${records.length} records`);
+  return { index, records: records.length, pages };
+}
+
+// Crawl, persist to the runtime path and switch to the new index straight away
+export async function refreshMandiIndex(maxPages?: number): Promise<{ index: MandiIndex; records: number; pages: number }> {
+  const result = await crawlMandiIndex(maxPages);
+  if (result.records === 0) {
+    throw new Error('data.gov.in returned no records; keeping the current mandi index');
+  }
+  await writeMandiIndex(result.index);
+  setCurrentIndex(result.index);
+  return result;
+}
@@ -0,0 +1,167 @@
+import gazetteer from '../index/mandi-gazetteer.json';
+import { fetchMandiPrices, type PriceData } from './mandi-price-service';
+import { readPriceHistory, toDailySeries, toIsoDate } from './mandi-price-history';
+
+export interface MandiLocation {
+  market: string;
+  district: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface NearestMandiQuery {
+  latitude: number;
+  longitude: number;
+  commodity?: string;
+  limit?: number;
+  // Rupees per quintal per km of road; defaults to MANDI_TRANSPORT_COST_PER_KM
+  transportCostPerKm?: number;
+}
+
+export interface MandiLatestPrice {
+  date: string; // YYYY-MM-DD
+  modalPrice: number;
+  minPrice?: number;
+  maxPrice?: number;
+  source: 'live' | 'history';
+}
+
+export interface NearestMandi extends MandiLocation {
+  distanceKm: number;
+  roadDistanceKm: number;
+  latestPrice: MandiLatestPrice | null;
+  transportCost: number;
+  // Modal price minus transport cost, in rupees per quintal
+  netPrice: number | null;
+}
+
+export interface NearestMandiResult {
+  commodity?: string;
+  transportCostPerKm: number;
+  markets: NearestMandi[];
+  // Market with the highest net price among the returned ones
+  bestNetPrice: { market: string; netPrice: number } | null;
+}
+
+export const DEFAULT_NEAREST_MANDI_LIMIT = 5;
+export const MAX_NEAREST_MANDI_LIMIT = 10;
+
+// Roughly ₹50/km for a 5 t truck shared across 50 quintals
+const DEFAULT_TRANSPORT_COST_PER_KM = 1;
+// Straight-line distance understates the road trip; typical detour factor for rural India
+const ROAD_DISTANCE_FACTOR = 1.3;
+// With a commodity we look a little further out, since not every mandi trades every crop
+const PRICE_CANDIDATE_MULTIPLIER = 2;
+const EARTH_RADIUS_KM = 6371;
+
+const MANDI_LOCATIONS: MandiLocation[] = gazetteer.markets;
+
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+export function getMandiLocation(market: string): MandiLocation | undefined {
+  const wanted = market.trim().toLowerCase();
+  return MANDI_LOCATIONS.find(location => location.market.toLowerCase() === wanted);
+}
+
+function defaultTransportCostPerKm(): number {
+  const configured = Number(process.env.MANDI_TRANSPORT_COST_PER_KM);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_TRANSPORT_COST_PER_KM;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Median across the varieties reported on the most recent arrival date
+function latestFromLive(prices: PriceData[]): MandiLatestPrice | null {
+  const dated = prices
+    .map(price => ({ price, date: toIsoDate(price.arrivalDate) }))
+    .filter((entry): entry is { price: PriceData; date: string } => entry.date !== null && entry.price.modalPrice > 0);
+  if (dated.length === 0) return null;
+
+  const latestDate = dated.reduce((latest, entry) => (entry.date > latest ? entry.date : latest), dated[0].date);
+  const latest = dated.filter(entry => entry.date === latestDate).map(entry => entry.price);
+  return {
+    date: latestDate,
+    modalPrice: Math.round(median(latest.map(p => p.modalPrice))),
+    minPrice: Math.min(...latest.map(p => p.minPrice)),
+    maxPrice: Math.max(...latest.map(p => p.maxPrice)),
+    source: 'live',
+  };
+}
+
+async function latestFromHistory(commodity: string, location: MandiLocation): Promise<MandiLatestPrice | null> {
+  const series = toDailySeries(await readPriceHistory({ commodity, market: location.market }));
+  const latest = series[series.length - 1];
+  return latest ? { date: latest.date, modalPrice: Math.round(latest.modalPrice), source: 'history' } : null;
+}
+
+/**
+ * Latest modal price of a commodity at one market: today's data.gov.in feed first,
+ * then the local price history when the feed is empty or unreachable.
+ */
+export async function getLatestMandiPrice(commodity: string, location: MandiLocation): Promise<MandiLatestPrice | null> {
+  try {
+    const live = await fetchMandiPrices({ commodity, market: location.market, state: location.state, limit: 20 });
+    const latest = latestFromLive(live.prices);
+    if (latest) return latest;
+  } catch (error) {
+    console.warn(`Live mandi price unavailable for ${location.market}:`, error instanceof Error ? error.message : error);
+  }
+  return latestFromHistory(commodity, location);
+}
+
+export async function findNearestMandis(query: NearestMandiQuery): Promise<NearestMandiResult> {
+  const limit = Math.min(Math.max(1, Math.round(query.limit ?? DEFAULT_NEAREST_MANDI_LIMIT)), MAX_NEAREST_MANDI_LIMIT);
+  const transportCostPerKm = query.transportCostPerKm ?? defaultTransportCostPerKm();
+
+  const byDistance = MANDI_LOCATIONS
+    .map(location => ({
+      location,
+      distanceKm: haversineKm(query.latitude, query.longitude, location.latitude, location.longitude),
+    }))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+  const candidates = byDistance.slice(0, query.commodity ? limit * PRICE_CANDIDATE_MULTIPLIER : limit);
+  const markets: NearestMandi[] = await Promise.all(candidates.map(async ({ location, distanceKm }) => {
+    const roadDistanceKm = distanceKm * ROAD_DISTANCE_FACTOR;
+    const transportCost = Math.round(roadDistanceKm * transportCostPerKm);
+    const latestPrice = query.commodity ? await getLatestMandiPrice(query.commodity, location) : null;
+    return {
+      ...location,
+      distanceKm: Math.round(distanceKm * 10) / 10,
+      roadDistanceKm: Math.round(roadDistanceKm * 10) / 10,
+      latestPrice,
+      transportCost,
+      netPrice: latestPrice ? latestPrice.modalPrice - transportCost : null,
+    };
+  }));
+
+  // Prefer markets that actually quote the commodity, then return them nearest first
+  const selected = query.commodity
+    ? [...markets.filter(m => m.latestPrice), ...markets.filter(m => !m.latestPrice)]
+      .slice(0, limit)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+    : markets;
+  const best = selected.reduce<NearestMandi | null>(
+    (top, m) => (m.netPrice !== null && (top === null || m.netPrice > (top.netPrice as number)) ? m : top),
+    null,
+  );
+
+  return {
+    commodity: query.commodity,
+    transportCostPerKm,
+    markets: selected,
+    bestNetPrice: best ? { market: best.market, netPrice: best.netPrice as number } : null,
+  };
+}
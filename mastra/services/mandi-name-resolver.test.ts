@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveMandiName } from './mandi-name-resolver';
+
+describe('resolveMandiName', () => {
+  it('resolves exact names, synonyms and misspellings', () => {
+    assert.equal(resolveMandiName('commodity', 'onion').resolved, 'Onion');
+    assert.equal(resolveMandiName('commodity', 'धान').resolved, 'Paddy(Dhan)(Common)');
+    assert.equal(resolveMandiName('commodity', 'tomatto').resolved, 'Tomato');
+  });
+
+  it('only suggests a name found inside a longer input', () => {
+    for (const [input, suggestion] of [['onion seed', 'Onion'], ['tomato sauce', 'Tomato']]) {
+      const resolution = resolveMandiName('commodity', input);
+      assert.equal(resolution.resolved, null, input);
+      assert.ok(resolution.alternatives.includes(suggestion), input);
+    }
+  });
+
+  it('does not turn generic bracketed words into aliases', () => {
+    assert.equal(resolveMandiName('commodity', 'common').resolved, null);
+    assert.equal(resolveMandiName('commodity', 'leaves').resolved, null);
+    assert.equal(resolveMandiName('commodity', 'jeera').resolved, 'Cummin Seed(Jeera)');
+  });
+});
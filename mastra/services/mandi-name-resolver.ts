@@ -0,0 +1,226 @@
+import type { Language } from '../../lib/languages';
+import type { FlatMandiIndex } from '../../lib/mandi-index';
+import synonyms from '../index/mandi-synonyms.json';
+import { getFlatMandiIndex } from './mandi-index';
+import type { MandiPriceQuery } from './mandi-price-service';
+
+export type MandiNameField = 'commodity' | 'variety' | 'market' | 'district' | 'state';
+export type NameMatchMethod = 'exact' | 'synonym' | 'partial' | 'fuzzy' | 'none';
+
+export interface NameResolution {
+  input: string;
+  // Canonical mandi-index value, or null when nothing was close enough
+  resolved: string | null;
+  method: NameMatchMethod;
+  score: number;
+  // Language of the synonym that matched, when method is "synonym"
+  language?: Language;
+  alternatives: string[];
+}
+
+export type ResolvedMandiNames = Partial<Record<MandiNameField, NameResolution>>;
+
+interface NameAlias {
+  alias: string;
+  canonical: string;
+  // "canonical" is the index value itself; "alias" covers bracketed parts and synonyms
+  kind: 'canonical' | 'alias';
+  language?: Language;
+}
+
+interface ScoredName {
+  canonical: string;
+  score: number;
+  method: Exclude<NameMatchMethod, 'none'>;
+  language?: Language;
+}
+
+const INDEX_KEYS: Record<MandiNameField, keyof FlatMandiIndex> = {
+  commodity: 'Commodity',
+  variety: 'Variety',
+  market: 'Market',
+  district: 'District',
+  state: 'State',
+};
+
+const SYNONYMS: Partial<Record<MandiNameField, Record<string, Partial<Record<Language, string[]>>>>> = {
+  commodity: synonyms.commodities,
+  variety: synonyms.varieties,
+};
+
+const MIN_RESOLVED_SCORE = 0.75;
+const MIN_ALTERNATIVE_SCORE = 0.6;
+const MAX_ALTERNATIVES = 3;
+// Edit distance is meaningless on very short inputs ("rai" vs "ram")
+const MIN_FUZZY_LENGTH = 4;
+// Grade, form and variety words in brackets ("Paddy(Dhan)(Common)", "Coriander(Leaves)")
+// describe the lot, not the commodity, so they never become aliases on their own
+const GENERIC_NAME_PARTS = new Set([
+  'common', 'other', 'others', 'local', 'faq', 'hybrid', 'desi', 'organic', 'raw', 'fresh', 'dry',
+  'leaves', 'whole', 'split', 'fine', 'medium', 'coarse', 'small', 'big', 'large', 'new', 'old',
+  'green', 'red', 'white', 'black', 'yellow',
+]);
+
+export function normalizeMandiName(value: string): string {
+  return value
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function editDistance(a: string, b: string): number {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      const substitution = previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[right.length];
+}
+
+// "Cummin Seed(Jeera)" is also known as "Cummin Seed" and "Jeera"; "Bajra(Pearl Millet/Cumbu)" as each of its parts
+function bracketedParts(value: string): string[] {
+  const base = value.replace(/\(.*?\)/g, ' ');
+  const inner = [...value.matchAll(/\(([^)]*)\)/g)].flatMap(match => match[1].split('/'));
+  return [base, ...inner]
+    .map(normalizeMandiName)
+    .filter(part => part.length >= 3 && !GENERIC_NAME_PARTS.has(part));
+}
+
+const aliasCache = new Map<MandiNameField, NameAlias[]>();
+// Aliases are rebuilt whenever a refreshed mandi index is loaded
+let aliasCacheIndex: FlatMandiIndex | undefined;
+
+function aliasesFor(field: MandiNameField): NameAlias[] {
+  const index = getFlatMandiIndex();
+  if (index !== aliasCacheIndex) {
+    aliasCache.clear();
+    aliasCacheIndex = index;
+  }
+  const cached = aliasCache.get(field);
+  if (cached) return cached;
+
+  const aliases: NameAlias[] = [];
+  for (const canonical of index[INDEX_KEYS[field]]) {
+    aliases.push({ alias: normalizeMandiName(canonical), canonical, kind: 'canonical' });
+    for (const part of bracketedParts(canonical)) {
+      aliases.push({ alias: part, canonical, kind: 'alias' });
+    }
+  }
+
+  for (const [canonical, byLanguage] of Object.entries(SYNONYMS[field] || {})) {
+    for (const [language, names] of Object.entries(byLanguage) as Array<[Language, string[]]>) {
+      for (const name of names) {
+        aliases.push({ alias: normalizeMandiName(name), canonical, kind: 'alias', language });
+      }
+    }
+  }
+
+  aliasCache.set(field, aliases);
+  return aliases;
+}
+
+function scoreAlias(input: string, inputTokens: string[], entry: NameAlias): ScoredName | null {
+  const { alias, canonical, language } = entry;
+
+  if (alias === input) {
+    return entry.kind === 'canonical'
+      ? { canonical, score: 1, method: 'exact' }
+      : { canonical, score: 0.97, method: 'synonym', language };
+  }
+
+  // Every input word inside a longer name resolves: "vashi" → "vashi new mumbai". Generic
+  // words alone ("common" in "Paddy(Dhan)(Common)") do not
+  const aliasTokens = alias.split(' ');
+  if (
+    input.length >= 3
+    && inputTokens.length <= aliasTokens.length
+    && inputTokens.every(token => aliasTokens.includes(token))
+    && inputTokens.some(token => !GENERIC_NAME_PARTS.has(token))
+  ) {
+    return { canonical, score: 0.8 + 0.1 * (inputTokens.length / aliasTokens.length), method: 'partial', language };
+  }
+  // The name inside a longer input is only a suggestion: "onion seed" is not "Onion",
+  // "tomato sauce" is not "Tomato"
+  if (alias.length >= 3 && aliasTokens.length < inputTokens.length && aliasTokens.every(token => inputTokens.includes(token))) {
+    return { canonical, score: 0.6 + 0.1 * (aliasTokens.length / inputTokens.length), method: 'partial', language };
+  }
+
+  if (input.length < MIN_FUZZY_LENGTH) return null;
+  const similarity = 1 - editDistance(input, alias) / Math.max(Array.from(input).length, Array.from(alias).length);
+  return similarity >= MIN_ALTERNATIVE_SCORE
+    ? { canonical, score: Math.min(similarity, 0.95), method: 'fuzzy', language }
+    : null;
+}
+
+/**
+ * Map a free-form name ("धान", "chawal", "tomatto", "vashi") onto the exact
+ * mandi-index value for that field, with the next-best candidates as alternatives.
+ */
+export function resolveMandiName(field: MandiNameField, input: string): NameResolution {
+  const normalized = normalizeMandiName(input);
+  if (!normalized) {
+    return { input, resolved: null, method: 'none', score: 0, alternatives: [] };
+  }
+
+  const inputTokens = normalized.split(' ');
+  const best = new Map<string, ScoredName>();
+  for (const entry of aliasesFor(field)) {
+    const scored = scoreAlias(normalized, inputTokens, entry);
+    const current = best.get(entry.canonical);
+    if (scored && (!current || scored.score > current.score)) {
+      best.set(entry.canonical, scored);
+    }
+  }
+
+  const ranked = [...best.values()].sort((a, b) => b.score - a.score);
+  const top = ranked[0];
+  if (!top || top.score < MIN_RESOLVED_SCORE) {
+    return {
+      input,
+      resolved: null,
+      method: 'none',
+      score: top ? Math.round(top.score * 100) / 100 : 0,
+      alternatives: ranked.slice(0, MAX_ALTERNATIVES).map(candidate => candidate.canonical),
+    };
+  }
+
+  return {
+    input,
+    resolved: top.canonical,
+    method: top.method,
+    score: Math.round(top.score * 100) / 100,
+    language: top.method === 'synonym' ? top.language : undefined,
+    alternatives: ranked.slice(1, MAX_ALTERNATIVES + 1).map(candidate => candidate.canonical),
+  };
+}
+
+/**
+ * Resolve every name filter of a mandi price query against mandi-index.json.
+ * Unresolved names are passed through unchanged, since the live feed covers
+ * more markets and commodities than the index.
+ */
+export function resolveMandiQuery<T extends MandiPriceQuery>(query: T): { query: T; resolvedNames: ResolvedMandiNames } {
+  const resolvedQuery = { ...query };
+  const resolvedNames: ResolvedMandiNames = {};
+
+  for (const field of Object.keys(INDEX_KEYS) as MandiNameField[]) {
+    const value = query[field];
+    if (!value) continue;
+    const resolution = resolveMandiName(field, value);
+    resolvedNames[field] = resolution;
+    if (resolution.resolved) {
+      resolvedQuery[field] = resolution.resolved;
+    }
+  }
+
+  return { query: resolvedQuery, resolvedNames };
+}
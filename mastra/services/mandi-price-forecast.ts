@@ -0,0 +1,210 @@
+import { readPriceHistory, toDailySeries, type PriceHistoryFilter, type PricePoint } from './mandi-price-history';
+
+export interface WeeklyForecastPoint {
+  week: number;
+  weekEnding: string;
+  modalPrice: number;
+  lower80: number;
+  upper80: number;
+}
+
+export interface MandiPriceForecast {
+  commodity: string;
+  filters: Omit<PriceHistoryFilter, 'commodity'>;
+  status: 'ok' | 'insufficient-history';
+  reason?: string;
+  model: 'holt-damped' | 'seasonal-naive' | null;
+  history: { weeks: number; firstDate?: string; lastDate?: string };
+  latestModalPrice: number | null;
+  forecast: WeeklyForecastPoint[];
+  outlook: 'rising' | 'falling' | 'stable' | 'unknown';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Weeks of history needed before any forecast is made
+const MIN_WEEKS = 8;
+// A week needs at least this many daily prices to count
+const MIN_DAYS_PER_WEEK = 2;
+// History needed for the seasonal-naive model (a year plus the forecast horizon)
+const SEASONAL_WEEKS = 56;
+// z-score of an 80% two-sided interval
+const Z_80 = 1.2816;
+// Forecast change (percent over the horizon) below which the outlook is "stable"
+const STABLE_BAND_PERCENT = 3;
+// Smallest one-week standard deviation, as a share of the latest price, so a short or
+// unusually smooth history never yields a zero-width interval
+const MIN_RELATIVE_STD_DEV = 0.03;
+
+// Holt's linear trend with damping; parameters fixed to conservative values rather than fitted
+const ALPHA = 0.5;
+const BETA = 0.2;
+const PHI = 0.9;
+
+interface WeeklyPoint {
+  weekEnding: string;
+  modalPrice: number;
+}
+
+// Average daily prices into 7-day buckets that end on the latest stored day
+function toWeeklySeries(daily: PricePoint[]): WeeklyPoint[] {
+  if (daily.length === 0) return [];
+  const lastTime = Date.parse(daily[daily.length - 1].date);
+  const buckets = new Map<number, number[]>();
+
+  for (const point of daily) {
+    const weeksBack = Math.floor((lastTime - Date.parse(point.date)) / (7 * DAY_MS));
+    buckets.set(weeksBack, [...(buckets.get(weeksBack) || []), point.modalPrice]);
+  }
+
+  return [...buckets]
+    .filter(([, prices]) => prices.length >= MIN_DAYS_PER_WEEK)
+    .sort(([a], [b]) => b - a)
+    .map(([weeksBack, prices]) => ({
+      weekEnding: new Date(lastTime - weeksBack * 7 * DAY_MS).toISOString().slice(0, 10),
+      modalPrice: prices.reduce((sum, p) => sum + p, 0) / prices.length,
+    }));
+}
+
+// One slot per week from the first to the last stored week; weeks without enough prices are null
+function toContiguousSeries(weekly: WeeklyPoint[]): Array<number | null> {
+  const lastTime = Date.parse(weekly[weekly.length - 1].weekEnding);
+  const weeksBack = (point: WeeklyPoint) => Math.round((lastTime - Date.parse(point.weekEnding)) / (7 * DAY_MS));
+  const series = new Array<number | null>(weeksBack(weekly[0]) + 1).fill(null);
+  for (const point of weekly) {
+    series[series.length - 1 - weeksBack(point)] = point.modalPrice;
+  }
+  return series;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+}
+
+// A missing week carries the prediction forward with no update, so gaps keep their real length
+function holtDamped(values: Array<number | null>, horizon: number): { forecasts: number[]; residualStdDev: number } {
+  let level = values[0] ?? 0;
+  let trend = values[0] != null && values[1] != null ? values[1] - values[0] : 0;
+  const residuals: number[] = [];
+
+  for (let i = 1; i < values.length; i++) {
+    const predicted = level + PHI * trend;
+    const value = values[i];
+    const previousLevel = level;
+    if (value == null) {
+      level = predicted;
+      trend = PHI * trend;
+      continue;
+    }
+    residuals.push(value - predicted);
+    level = ALPHA * value + (1 - ALPHA) * predicted;
+    trend = BETA * (level - previousLevel) + (1 - BETA) * PHI * trend;
+  }
+
+  const forecasts: number[] = [];
+  let dampedSum = 0;
+  for (let h = 1; h <= horizon; h++) {
+    dampedSum += PHI ** h;
+    forecasts.push(level + dampedSum * trend);
+  }
+
+  return { forecasts, residualStdDev: standardDeviation(residuals) };
+}
+
+// Last year's weekly path for the coming weeks, rescaled to this year's price level
+function seasonalNaive(weekly: WeeklyPoint[], horizon: number): { forecasts: number[]; residualStdDev: number } | null {
+  const byDate = new Map(weekly.map(p => [p.weekEnding, p.modalPrice]));
+  const lastTime = Date.parse(weekly[weekly.length - 1].weekEnding);
+  const weekAgo = (time: number, weeks: number) => new Date(time - weeks * 7 * DAY_MS).toISOString().slice(0, 10);
+
+  const lastYearNow = byDate.get(weekAgo(lastTime, 52));
+  if (!lastYearNow) return null;
+  const scale = weekly[weekly.length - 1].modalPrice / lastYearNow;
+
+  const forecasts: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const lastYear = byDate.get(weekAgo(lastTime, 52 - h));
+    if (!lastYear) return null;
+    forecasts.push(lastYear * scale);
+  }
+
+  // In-sample error of the same method one week ahead, where both years are available
+  const residuals: number[] = [];
+  for (const point of weekly) {
+    const time = Date.parse(point.weekEnding);
+    const base = byDate.get(weekAgo(time, 1));
+    const lastYearBase = byDate.get(weekAgo(time, 53));
+    const lastYear = byDate.get(weekAgo(time, 52));
+    if (base && lastYearBase && lastYear) {
+      residuals.push(point.modalPrice - lastYear * (base / lastYearBase));
+    }
+  }
+
+  return { forecasts, residualStdDev: standardDeviation(residuals) };
+}
+
+function insufficient(filter: PriceHistoryFilter, weekly: WeeklyPoint[], reason: string): MandiPriceForecast {
+  const { commodity, ...filters } = filter;
+  return {
+    commodity,
+    filters,
+    status: 'insufficient-history',
+    reason,
+    model: null,
+    history: { weeks: weekly.length, firstDate: weekly[0]?.weekEnding, lastDate: weekly[weekly.length - 1]?.weekEnding },
+    latestModalPrice: null,
+    forecast: [],
+    outlook: 'unknown',
+  };
+}
+
+/**
+ * Forecast weekly modal prices 1-4 weeks ahead from the stored history.
+ * Returns status "insufficient-history" rather than a number whenever the history is too thin.
+ */
+export async function forecastMandiPrice(filter: PriceHistoryFilter, weeks = 4): Promise<MandiPriceForecast> {
+  const horizon = Math.min(Math.max(Math.round(weeks), 1), 4);
+  const weekly = toWeeklySeries(toDailySeries(await readPriceHistory(filter)));
+
+  if (weekly.length < MIN_WEEKS) {
+    return insufficient(filter, weekly, `Only ${weekly.length} week(s) of price history stored; at least ${MIN_WEEKS} are needed.`);
+  }
+
+  const lastDate = weekly[weekly.length - 1].weekEnding;
+  const staleDays = (Date.now() - Date.parse(lastDate)) / DAY_MS;
+  if (staleDays > 14) {
+    return insufficient(filter, weekly, `Latest stored price is from ${lastDate}; history must be less than two weeks old.`);
+  }
+
+  const seasonal = weekly.length >= SEASONAL_WEEKS ? seasonalNaive(weekly, horizon) : null;
+  const fit = seasonal ?? holtDamped(toContiguousSeries(weekly), horizon);
+  const model = seasonal ? 'seasonal-naive' : 'holt-damped';
+
+  const latest = weekly[weekly.length - 1].modalPrice;
+  const stdDev = Math.max(fit.residualStdDev, latest * MIN_RELATIVE_STD_DEV);
+  const forecast = fit.forecasts.map((value, i) => {
+    const spread = Z_80 * stdDev * Math.sqrt(i + 1);
+    return {
+      week: i + 1,
+      weekEnding: new Date(Date.parse(lastDate) + (i + 1) * 7 * DAY_MS).toISOString().slice(0, 10),
+      modalPrice: Math.round(value),
+      lower80: Math.max(0, Math.round(value - spread)),
+      upper80: Math.round(value + spread),
+    };
+  });
+
+  const change = ((forecast[forecast.length - 1].modalPrice - latest) / latest) * 100;
+  const { commodity, ...filters } = filter;
+
+  return {
+    commodity,
+    filters,
+    status: 'ok',
+    model,
+    history: { weeks: weekly.length, firstDate: weekly[0].weekEnding, lastDate },
+    latestModalPrice: Math.round(latest),
+    forecast,
+    outlook: Math.abs(change) < STABLE_BAND_PERCENT ? 'stable' : change > 0 ? 'rising' : 'falling',
+  };
+}
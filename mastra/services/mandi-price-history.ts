@@ -0,0 +1,331 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PriceData } from './mandi-price-service';
+
+// One JSONL file per commodity; each line is a single market/variety price on one day
+export interface PriceSnapshot {
+  date: string; // YYYY-MM-DD
+  state: string;
+  district: string;
+  market: string;
+  commodity: string;
+  variety: string;
+  grade: string;
+  minPrice: number;
+  maxPrice: number;
+  modalPrice: number;
+}
+
+export interface PriceHistoryFilter {
+  commodity: string;
+  state?: string;
+  district?: string;
+  market?: string;
+  variety?: string;
+}
+
+export interface PricePoint {
+  date: string;
+  modalPrice: number;
+  markets: number;
+}
+
+export interface MandiPriceTrend {
+  commodity: string;
+  filters: Omit<PriceHistoryFilter, 'commodity'>;
+  hasHistory: boolean;
+  dataPoints: number;
+  firstDate?: string;
+  latest?: PricePoint;
+  windows: Array<{
+    days: 7 | 30 | 90;
+    series: PricePoint[];
+    percentChange: number | null;
+  }>;
+  sameWeekLastYear: {
+    thisWeekAverage: number | null;
+    lastYearAverage: number | null;
+    percentChange: number | null;
+  };
+  volatility: {
+    // Standard deviation of day-to-day modal price changes over the last 30 days, in percent
+    dailyChangeStdDevPercent: number | null;
+    level: 'low' | 'moderate' | 'high' | 'unknown';
+  };
+}
+
+const TREND_WINDOWS = [7, 30, 90] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function historyDirectory(): string {
+  return process.env.MANDI_HISTORY_DIR || path.join('.mastra', 'mandi-history');
+}
+
+function slug(value: string): string {
+  return value.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'unknown';
+}
+
+function fileFor(commodity: string): string {
+  return path.join(historyDirectory(), `${slug(commodity)}.jsonl`);
+}
+
+// data.gov.in reports arrival dates as DD/MM/YYYY
+export function toIsoDate(arrivalDate: string): string | null {
+  const parts = arrivalDate.trim().split(/[-/]/);
+  if (parts.length !== 3) return null;
+  const [first, month, last] = parts;
+  const [year, day] = first.length === 4 ? [first, last] : [last, first];
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  return Number.isNaN(Date.parse(iso)) ? null : iso;
+}
+
+// Two years covers the same-week-last-year comparison and the seasonal forecast
+const DEFAULT_RETENTION_DAYS = 730;
+
+function retentionDays(): number {
+  const configured = Number(process.env.MANDI_HISTORY_RETENTION_DAYS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RETENTION_DAYS;
+}
+
+// One stored line per market, variety and grade on each day
+function snapshotKey(snapshot: PriceSnapshot): string {
+  return [snapshot.date, snapshot.state, snapshot.district, snapshot.market, snapshot.variety, snapshot.grade].join('|');
+}
+
+interface FileIndex {
+  // Snapshot key → stored line, in file order
+  lines: Map<string, string>;
+  // Lines on disk that are superseded or past retention; a rewrite drops them
+  stale: number;
+}
+
+const fileIndexes = new Map<string, FileIndex>();
+const writeQueues = new Map<string, Promise<void>>();
+
+async function loadFileIndex(file: string): Promise<FileIndex> {
+  const cached = fileIndexes.get(file);
+  if (cached) return cached;
+
+  const index: FileIndex = { lines: new Map(), stale: 0 };
+  let raw = '';
+  try {
+    raw = await fs.readFile(file, 'utf8');
+  } catch {
+    // No history for this commodity yet
+  }
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const key = snapshotKey(JSON.parse(line) as PriceSnapshot);
+      if (index.lines.has(key)) index.stale++;
+      index.lines.delete(key);
+      index.lines.set(key, line);
+    } catch {
+      // A partially written line is dropped by the next rewrite
+      index.stale++;
+    }
+  }
+  fileIndexes.set(file, index);
+  return index;
+}
+
+async function writeSnapshots(file: string, snapshots: PriceSnapshot[]): Promise<void> {
+  const index = await loadFileIndex(file);
+  const cutoff = new Date(Date.now() - retentionDays() * DAY_MS).toISOString().slice(0, 10);
+  const appended: string[] = [];
+
+  for (const snapshot of snapshots) {
+    if (snapshot.date < cutoff) continue;
+    const key = snapshotKey(snapshot);
+    const line = JSON.stringify(snapshot);
+    const existing = index.lines.get(key);
+    if (existing === line) continue;
+    if (existing) index.stale++;
+    index.lines.delete(key);
+    index.lines.set(key, line);
+    appended.push(line);
+  }
+
+  // Keys start with the YYYY-MM-DD date
+  for (const key of index.lines.keys()) {
+    if (key.slice(0, 10) < cutoff) {
+      index.lines.delete(key);
+      index.stale++;
+    }
+  }
+
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  if (index.stale > 0) {
+    // Compact: write the deduplicated lines to a temporary file and swap it in
+    const temporary = `${file}.tmp`;
+    await fs.writeFile(temporary, index.lines.size > 0 ? `${[...index.lines.values()].join('\n')}\n` : '');
+    await fs.rename(temporary, file);
+    index.stale = 0;
+  } else if (appended.length > 0) {
+    await fs.appendFile(file, `${appended.join('\n')}\n`);
+  }
+}
+
+/**
+ * Add fetched prices to the history store. A price already stored for the same market,
+ * variety, grade and day is not written again; a changed one replaces it. Days older than
+ * MANDI_HISTORY_RETENTION_DAYS (default 730) are dropped, and the file is rewritten
+ * whenever it holds superseded or expired lines. Writes to the same commodity file are
+ * serialized.
+ */
+export async function recordPriceSnapshot(prices: PriceData[]): Promise<void> {
+  const byFile = new Map<string, PriceSnapshot[]>();
+  for (const price of prices) {
+    const date = toIsoDate(price.arrivalDate);
+    if (!date || !price.commodity || price.modalPrice <= 0) continue;
+    const snapshot: PriceSnapshot = {
+      date,
+      state: price.state,
+      district: price.district,
+      market: price.market,
+      commodity: price.commodity,
+      variety: price.variety,
+      grade: price.grade,
+      minPrice: price.minPrice,
+      maxPrice: price.maxPrice,
+      modalPrice: price.modalPrice,
+    };
+    const file = fileFor(price.commodity);
+    byFile.set(file, [...(byFile.get(file) || []), snapshot]);
+  }
+
+  await Promise.all([...byFile].map(([file, snapshots]) => {
+    const previous = writeQueues.get(file) || Promise.resolve();
+    const next = previous.then(() => writeSnapshots(file, snapshots));
+    writeQueues.set(file, next.catch(() => undefined));
+    return next;
+  }));
+}
+
+function matches(value: string, filter?: string): boolean {
+  return !filter || value.trim().toLowerCase() === filter.trim().toLowerCase();
+}
+
+export async function readPriceHistory(filter: PriceHistoryFilter): Promise<PriceSnapshot[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(fileFor(filter.commodity), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const latestByKey = new Map<string, PriceSnapshot>();
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const snapshot = JSON.parse(line) as PriceSnapshot;
+      if (
+        !matches(snapshot.state, filter.state) ||
+        !matches(snapshot.district, filter.district) ||
+        !matches(snapshot.market, filter.market) ||
+        !matches(snapshot.variety, filter.variety)
+      ) continue;
+      const key = [snapshot.date, snapshot.state, snapshot.district, snapshot.market, snapshot.variety, snapshot.grade].join('|');
+      latestByKey.set(key, snapshot);
+    } catch {
+      // Skip a partially written line
+    }
+  }
+
+  return [...latestByKey.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// One point per day: median modal price across the matching markets
+export function toDailySeries(snapshots: PriceSnapshot[]): PricePoint[] {
+  const byDate = new Map<string, number[]>();
+  for (const snapshot of snapshots) {
+    byDate.set(snapshot.date, [...(byDate.get(snapshot.date) || []), snapshot.modalPrice]);
+  }
+  return [...byDate]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, prices]) => ({ date, modalPrice: Math.round(median(prices)), markets: prices.length }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function percentChange(from: number | null | undefined, to: number | null | undefined): number | null {
+  if (!from || to === null || to === undefined) return null;
+  return Math.round(((to - from) / from) * 1000) / 10;
+}
+
+function daysBefore(isoDate: string, days: number): string {
+  return new Date(Date.parse(isoDate) - days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function analyzePriceTrend(filter: PriceHistoryFilter, snapshots: PriceSnapshot[]): MandiPriceTrend {
+  const { commodity, ...filters } = filter;
+  const series = toDailySeries(snapshots);
+  const latest = series[series.length - 1];
+
+  if (!latest) {
+    return {
+      commodity,
+      filters,
+      hasHistory: false,
+      dataPoints: 0,
+      windows: TREND_WINDOWS.map(days => ({ days, series: [], percentChange: null })),
+      sameWeekLastYear: { thisWeekAverage: null, lastYearAverage: null, percentChange: null },
+      volatility: { dailyChangeStdDevPercent: null, level: 'unknown' },
+    };
+  }
+
+  // Windows end at the latest stored day, which may lag today if collection paused
+  const windows = TREND_WINDOWS.map(days => {
+    const since = daysBefore(latest.date, days - 1);
+    const windowSeries = series.filter(p => p.date >= since);
+    return {
+      days,
+      series: windowSeries,
+      percentChange: windowSeries.length >= 2 ? percentChange(windowSeries[0].modalPrice, latest.modalPrice) : null,
+    };
+  });
+
+  const thisWeekStart = daysBefore(latest.date, 6);
+  const lastYearEnd = daysBefore(latest.date, 364);
+  const lastYearStart = daysBefore(lastYearEnd, 6);
+  const thisWeekAverage = average(series.filter(p => p.date >= thisWeekStart).map(p => p.modalPrice));
+  const lastYearAverage = average(series.filter(p => p.date >= lastYearStart && p.date <= lastYearEnd).map(p => p.modalPrice));
+
+  const recent = windows.find(w => w.days === 30)?.series || [];
+  const changes = recent.slice(1).map((point, i) => (point.modalPrice - recent[i].modalPrice) / recent[i].modalPrice * 100);
+  const meanChange = average(changes);
+  const stdDev = meanChange === null || changes.length < 2
+    ? null
+    : Math.sqrt(changes.reduce((sum, c) => sum + (c - meanChange) ** 2, 0) / (changes.length - 1));
+
+  return {
+    commodity,
+    filters,
+    hasHistory: true,
+    dataPoints: series.length,
+    firstDate: series[0].date,
+    latest,
+    windows,
+    sameWeekLastYear: {
+      thisWeekAverage: thisWeekAverage === null ? null : Math.round(thisWeekAverage),
+      lastYearAverage: lastYearAverage === null ? null : Math.round(lastYearAverage),
+      percentChange: percentChange(lastYearAverage, thisWeekAverage),
+    },
+    volatility: {
+      dailyChangeStdDevPercent: stdDev === null ? null : Math.round(stdDev * 10) / 10,
+      level: stdDev === null ? 'unknown' : stdDev < 2 ? 'low' : stdDev < 5 ? 'moderate' : 'high',
+    },
+  };
+}
+
+export async function getMandiPriceTrend(filter: PriceHistoryFilter): Promise<MandiPriceTrend> {
+  return analyzePriceTrend(filter, await readPriceHistory(filter));
+}
@@ -0,0 +1,321 @@
+import { recordPriceSnapshot, toIsoDate } from './mandi-price-history';
+import { MemoryToolCacheStore } from './tool-cache';
+
+// data.gov.in "Current daily price of various commodities from various markets (Mandi)"
+const MANDI_PRICE_RESOURCE_URL = 'https://api.data.gov.in/resource/9ef84268-d588-465a-a308-a864a43d0070';
+
+export const DEFAULT_MANDI_PRICE_LIMIT = 100;
+// Largest page the API route serves; matches the feed's own page size
+export const MAX_MANDI_PRICE_LIMIT = 1000;
+
+interface MandiPriceResponse {
+  records: Array<{
+    state: string;
+    district: string;
+    market: string;
+    commodity: string;
+    variety: string;
+    grade: string;
+    arrival_date: string;
+    min_price: number;
+    max_price: number;
+    modal_price: number;
+  }>;
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface PriceData {
+  state: string;
+  district: string;
+  market: string;
+  commodity: string;
+  variety: string;
+  grade: string;
+  arrivalDate: string;
+  minPrice: number;
+  maxPrice: number;
+  modalPrice: number;
+}
+
+export interface MandiPriceSummary {
+  averageMinPrice: number;
+  averageMaxPrice: number;
+  averageModalPrice: number;
+  priceRange: string;
+  marketsCount: number;
+  districtsCount: number;
+}
+
+export interface MandiPriceQuery {
+  commodity?: string;
+  state?: string;
+  district?: string;
+  market?: string;
+  variety?: string;
+  grade?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MandiPriceResult {
+  totalRecords: number;
+  prices: PriceData[];
+  summary: MandiPriceSummary;
+}
+
+export const MANDI_PRICE_SORT_FIELDS = ['modalPrice', 'minPrice', 'maxPrice', 'arrivalDate'] as const;
+export type MandiPriceSortField = typeof MANDI_PRICE_SORT_FIELDS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface MandiPriceSort {
+  field: MandiPriceSortField;
+  order: SortOrder;
+}
+
+export type MandiPriceErrorCode = 'missing-api-key' | 'upstream-error' | 'network-error';
+
+export class MandiPriceError extends Error {
+  constructor(
+    message: string,
+    readonly code: MandiPriceErrorCode,
+    // HTTP status to report when the error surfaces through an API route
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'MandiPriceError';
+  }
+}
+
+export const EMPTY_MANDI_SUMMARY: MandiPriceSummary = {
+  averageMinPrice: 0,
+  averageMaxPrice: 0,
+  averageModalPrice: 0,
+  priceRange: 'No data available',
+  marketsCount: 0,
+  districtsCount: 0,
+};
+
+export function buildMandiPriceUrl(apiKey: string, query: MandiPriceQuery): string {
+  // Build query parameters
+  const queryParams = new URLSearchParams({
+    'api-key': apiKey,
+    'format': 'json',
+    'limit': (query.limit || DEFAULT_MANDI_PRICE_LIMIT).toString(),
+    'offset': (query.offset || 0).toString(),
+  });
+
+  // Add filters if provided
+  if (query.state) {
+    queryParams.append('filters[state.keyword]', query.state);
+  }
+  if (query.district) {
+    queryParams.append('filters[district]', query.district);
+  }
+  if (query.market) {
+    queryParams.append('filters[market]', query.market);
+  }
+  if (query.commodity) {
+    queryParams.append('filters[commodity]', query.commodity);
+  }
+  if (query.variety) {
+    queryParams.append('filters[variety]', query.variety);
+  }
+  if (query.grade) {
+    queryParams.append('filters[grade]', query.grade);
+  }
+
+  return `${MANDI_PRICE_RESOURCE_URL}?${queryParams.toString()}`;
+}
+
+export function summarizePrices(prices: PriceData[]): MandiPriceSummary {
+  if (prices.length === 0) return { ...EMPTY_MANDI_SUMMARY };
+
+  const validPrices = prices.filter(p => p.minPrice > 0 && p.maxPrice > 0);
+  const uniqueMarkets = new Set(prices.map(p => p.market));
+  const uniqueDistricts = new Set(prices.map(p => p.district));
+
+  return {
+    averageMinPrice: validPrices.length > 0
+      ? Math.round(validPrices.reduce((sum, p) => sum + p.minPrice, 0) / validPrices.length)
+      : 0,
+    averageMaxPrice: validPrices.length > 0
+      ? Math.round(validPrices.reduce((sum, p) => sum + p.maxPrice, 0) / validPrices.length)
+      : 0,
+    averageModalPrice: validPrices.length > 0
+      ? Math.round(validPrices.reduce((sum, p) => sum + p.modalPrice, 0) / validPrices.length)
+      : 0,
+    priceRange: validPrices.length > 0
+      ? `${Math.min(...validPrices.map(p => p.minPrice))} - ${Math.max(...validPrices.map(p => p.maxPrice))}`
+      : 'No valid prices',
+    marketsCount: uniqueMarkets.size,
+    districtsCount: uniqueDistricts.size,
+  };
+}
+
+/**
+ * Fetch one page of mandi prices from data.gov.in.
+ * Throws MandiPriceError when the API key is missing or the request fails.
+ */
+export async function fetchMandiPrices(query: MandiPriceQuery): Promise<MandiPriceResult> {
+  const apiKey = process.env.MANDI_PRICE_API_KEY;
+  if (!apiKey) {
+    throw new MandiPriceError('Mandi Price API key not configured', 'missing-api-key', 500);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(buildMandiPriceUrl(apiKey, query), {
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+  } catch (error) {
+    throw new MandiPriceError(
+      `Mandi price request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'network-error',
+      502,
+    );
+  }
+
+  if (!response.ok) {
+    throw new MandiPriceError(`API request failed with status: ${response.status}`, 'upstream-error', 502);
+  }
+
+  const data = await response.json() as MandiPriceResponse;
+
+  if (!data.records || data.records.length === 0) {
+    return { totalRecords: 0, prices: [], summary: { ...EMPTY_MANDI_SUMMARY } };
+  }
+
+  // Process and clean the data
+  const prices: PriceData[] = data.records.map(record => ({
+    state: record.state,
+    district: record.district,
+    market: record.market,
+    commodity: record.commodity,
+    variety: record.variety,
+    grade: record.grade,
+    arrivalDate: record.arrival_date,
+    minPrice: parseFloat(record.min_price?.toString() || '0'),
+    maxPrice: parseFloat(record.max_price?.toString() || '0'),
+    modalPrice: parseFloat(record.modal_price?.toString() || '0'),
+  }));
+
+  return {
+    totalRecords: data.total || prices.length,
+    prices,
+    summary: summarizePrices(prices),
+  };
+}
+
+// Largest page data.gov.in serves for this resource
+const FEED_PAGE_SIZE = 1000;
+// Upper bound for sorted queries and exports, which need every matching record
+export const MAX_MANDI_EXPORT_RECORDS = 20000;
+const FULL_RESULT_TTL_MS = 10 * 60 * 1000;
+
+// Full result sets are kept briefly so paging through a sorted view doesn't re-crawl the feed
+const fullResultCache = new MemoryToolCacheStore(20);
+
+/**
+ * Yield consecutive pages of the feed for the given filters until it runs out
+ * or maxPages is reached.
+ */
+export async function* iterateMandiPricePages(
+  query: Omit<MandiPriceQuery, 'limit' | 'offset'>,
+  maxPages: number,
+): AsyncGenerator<MandiPriceResult> {
+  for (let offset = 0, pages = 0; pages < maxPages; offset += FEED_PAGE_SIZE) {
+    const page = await fetchMandiPrices({ ...query, limit: FEED_PAGE_SIZE, offset });
+    pages++;
+    yield page;
+    if (page.prices.length < FEED_PAGE_SIZE || offset + FEED_PAGE_SIZE >= page.totalRecords) break;
+  }
+}
+
+/**
+ * Page through today's prices for the given filters so they all land in the history
+ * store. Meant to be triggered once a day per commodity (see /api/mandi-prices/snapshot).
+ */
+export async function collectMandiSnapshot(
+  query: Omit<MandiPriceQuery, 'limit' | 'offset'>,
+  maxPages = 20,
+): Promise<{ recordsCollected: number; pages: number }> {
+  let recordsCollected = 0;
+  let pages = 0;
+
+  // The only writer of the price history (MANDI_HISTORY_STORE=off disables it)
+  const recordHistory = process.env.MANDI_HISTORY_STORE !== 'off';
+  for await (const page of iterateMandiPricePages(query, maxPages)) {
+    pages++;
+    recordsCollected += page.prices.length;
+    if (recordHistory) await recordPriceSnapshot(page.prices);
+  }
+
+  return { recordsCollected, pages };
+}
+
+/**
+ * Every record matching the filters, up to maxRecords. `truncated` is set when the
+ * feed has more records than were fetched.
+ */
+export async function fetchAllMandiPrices(
+  query: Omit<MandiPriceQuery, 'limit' | 'offset'>,
+  maxRecords = MAX_MANDI_EXPORT_RECORDS,
+): Promise<{ prices: PriceData[]; totalRecords: number; truncated: boolean }> {
+  const key = JSON.stringify({ ...query, maxRecords });
+  const cached = await fullResultCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as { prices: PriceData[]; totalRecords: number; truncated: boolean };
+  }
+
+  const prices: PriceData[] = [];
+  let totalRecords = 0;
+  for await (const page of iterateMandiPricePages(query, Math.ceil(maxRecords / FEED_PAGE_SIZE))) {
+    prices.push(...page.prices);
+    totalRecords = Math.max(totalRecords, page.totalRecords);
+  }
+
+  const result = {
+    prices: prices.slice(0, maxRecords),
+    totalRecords: Math.max(totalRecords, prices.length),
+    truncated: totalRecords > maxRecords,
+  };
+  await fullResultCache.set(key, { value: result, expiresAt: Date.now() + FULL_RESULT_TTL_MS });
+  return result;
+}
+
+function sortValue(price: PriceData, field: MandiPriceSortField): number | string {
+  return field === 'arrivalDate' ? toIsoDate(price.arrivalDate) || '' : price[field];
+}
+
+export function sortPrices(prices: PriceData[], sort: MandiPriceSort): PriceData[] {
+  const direction = sort.order === 'asc' ? 1 : -1;
+  return [...prices].sort((a, b) => {
+    const left = sortValue(a, sort.field);
+    const right = sortValue(b, sort.field);
+    return (left < right ? -1 : left > right ? 1 : 0) * direction;
+  });
+}
+
+/**
+ * One page of prices sorted across the whole result set. data.gov.in cannot sort,
+ * so every matching record is fetched (and briefly cached) before slicing.
+ * `totalRecords` is the feed's total; `truncated` is set when only the first
+ * MAX_MANDI_EXPORT_RECORDS of them were sorted.
+ */
+export async function fetchSortedMandiPrices(query: MandiPriceQuery, sort: MandiPriceSort): Promise<MandiPriceResult & { truncated: boolean }> {
+  const { limit, offset, ...filters } = query;
+  const all = await fetchAllMandiPrices(filters);
+  const start = offset || 0;
+  const prices = sortPrices(all.prices, sort).slice(start, start + (limit || DEFAULT_MANDI_PRICE_LIMIT));
+
+  return {
+    totalRecords: all.totalRecords,
+    prices,
+    summary: summarizePrices(prices),
+    truncated: all.truncated,
+  };
+}
@@ -0,0 +1,151 @@
+import { google } from '@ai-sdk/google';
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import type { MastraLanguageModel } from '@mastra/core/agent';
+
+export type ModelProviderName = 'gemini' | 'openai' | 'local';
+
+export interface ModelTarget {
+  provider: ModelProviderName;
+  model: string;
+}
+
+export interface ModelConfig {
+  primary: ModelTarget;
+  // Tried in order when the primary (then each earlier fallback) errors
+  fallbacks: ModelTarget[];
+}
+
+type CallOptions = Parameters<MastraLanguageModel['doGenerate']>[0];
+
+const MODEL_PROVIDERS: readonly ModelProviderName[] = ['gemini', 'openai', 'local'];
+
+const DEFAULT_MODELS: Record<ModelProviderName, string> = {
+  gemini: 'gemini-2.5-pro',
+  openai: 'gpt-4o',
+  local: 'llama3.1',
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on :8080/v1
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+function parseProvider(value: string, variable: string): ModelProviderName {
+  const provider = value.trim().toLowerCase();
+  if (!MODEL_PROVIDERS.includes(provider as ModelProviderName)) {
+    throw new Error(`Unknown ${variable} value "${provider}". Use "gemini", "openai" or "local".`);
+  }
+  return provider as ModelProviderName;
+}
+
+// "provider" or "provider:model"; local model names may contain ':' themselves (e.g. "local:qwen2.5:7b")
+function parseTarget(entry: string): ModelTarget {
+  const separator = entry.indexOf(':');
+  const provider = parseProvider(separator === -1 ? entry : entry.slice(0, separator), 'MODEL_FALLBACKS');
+  const model = separator === -1 ? '' : entry.slice(separator + 1).trim();
+  return { provider, model: model || DEFAULT_MODELS[provider] };
+}
+
+/**
+ * Model configuration from the environment:
+ * MODEL_PROVIDER ("gemini" by default, "openai" or "local"), MODEL_NAME (the provider's
+ * default model when unset) and MODEL_FALLBACKS, a comma-separated chain such as
+ * "openai:gpt-4o-mini,local:llama3.1".
+ */
+export function readModelConfig(env: NodeJS.ProcessEnv = process.env): ModelConfig {
+  const provider = parseProvider(env.MODEL_PROVIDER || 'gemini', 'MODEL_PROVIDER');
+  return {
+    primary: { provider, model: env.MODEL_NAME?.trim() || DEFAULT_MODELS[provider] },
+    fallbacks: (env.MODEL_FALLBACKS || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(parseTarget),
+  };
+}
+
+let localProvider: ReturnType<typeof createOpenAI> | null = null;
+
+// LOCAL_MODEL_BASE_URL points at any OpenAI-compatible server (Ollama, llama.cpp, vLLM)
+function getLocalProvider() {
+  if (!localProvider) {
+    localProvider = createOpenAI({
+      name: 'local',
+      baseURL: process.env.LOCAL_MODEL_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+      // Local servers ignore the key, but the client refuses to run without one
+      apiKey: process.env.LOCAL_MODEL_API_KEY || 'local',
+    });
+  }
+  return localProvider;
+}
+
+export function createModel({ provider, model }: ModelTarget): MastraLanguageModel {
+  switch (provider) {
+    case 'gemini':
+      return google(model);
+    case 'openai':
+      return openai(model);
+    case 'local':
+      // Local servers implement chat completions, not OpenAI's responses API
+      return getLocalProvider().chat(model);
+  }
+}
+
+function describeModel(model: MastraLanguageModel): string {
+  return `${model.provider}/${model.modelId}`;
+}
+
+// A cancelled request must not be retried on the next provider
+function isAbort(error: unknown, options: CallOptions): boolean {
+  return options.abortSignal?.aborted === true || (error instanceof Error && error.name === 'AbortError');
+}
+
+/**
+ * A model that sends each call to the first model in the chain and moves to the next
+ * one when it errors. Every call starts again from the first model, so one outage does
+ * not pin later requests to a fallback. A stream that fails after it has started is
+ * not switched over.
+ */
+export function createFallbackModel(models: MastraLanguageModel[]): MastraLanguageModel {
+  if (models.length === 0) throw new Error('A fallback model needs at least one model');
+  if (models.length === 1) return models[0];
+
+  async function callInOrder<T>(options: CallOptions, call: (model: MastraLanguageModel) => PromiseLike<T>): Promise<T> {
+    let lastError: unknown;
+    for (const [index, model] of models.entries()) {
+      try {
+        return await call(model);
+      } catch (error) {
+        if (isAbort(error, options)) throw error;
+        lastError = error;
+        const next = models[index + 1];
+        if (next) console.warn(`Model ${describeModel(model)} failed, falling back to ${describeModel(next)}:`, error);
+      }
+    }
+    throw lastError;
+  }
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'fallback',
+    modelId: models.map(describeModel).join(' → '),
+    // Which model answers is only known per call, so let the SDK download media for all of them
+    supportedUrls: {},
+    doGenerate: options => callInOrder(options, model => model.doGenerate(options)),
+    doStream: options => callInOrder(options, model => model.doStream(options)),
+  };
+}
+
+let agentModel: MastraLanguageModel | null = null;
+
+// The configured primary model wrapped with its fallback chain, shared by every agent
+export function getAgentModel(): MastraLanguageModel {
+  if (!agentModel) {
+    const { primary, fallbacks } = readModelConfig();
+    agentModel = createFallbackModel([primary, ...fallbacks].map(createModel));
+  }
+  return agentModel;
+}
+
+// Override the model (e.g. with a mock) for tests or embedding
+export function setAgentModel(model: MastraLanguageModel | null): void {
+  agentModel = model;
+}
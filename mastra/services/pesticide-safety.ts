@@ -0,0 +1,134 @@
+import { appendFile } from 'fs/promises';
+import restrictions from '../index/agrochemical-restrictions.json';
+
+export type RestrictionStatus = 'banned' | 'restricted';
+
+export interface AgrochemicalRestriction {
+  name: string;
+  aliases: string[];
+  status: RestrictionStatus;
+  since: number;
+  notes: string;
+  saferAlternatives: string[];
+}
+
+export interface SafetyFinding {
+  name: string;
+  matchedText: string;
+  status: RestrictionStatus;
+  since: number;
+  notes: string;
+  saferAlternatives: string[];
+}
+
+export interface SafetyIntervention {
+  source: 'kcc-tool' | 'agent-answer';
+  action: 'annotated';
+  findings: Array<Pick<SafetyFinding, 'name' | 'status' | 'matchedText'>>;
+  reference?: string;
+}
+
+const RESTRICTIONS = restrictions.entries as AgrochemicalRestriction[];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// One alternation over every name and alias, longest first so "methyl parathion" wins over shorter overlaps
+const TERMS = RESTRICTIONS.flatMap(entry =>
+  [entry.name, ...entry.aliases].map(term => ({ term: term.toLowerCase(), entry })),
+).sort((a, b) => b.term.length - a.term.length);
+
+const TERM_LOOKUP = new Map(TERMS.map(({ term, entry }) => [term, entry]));
+
+const RESTRICTED_PATTERN = new RegExp(
+  `(?<![\\p{L}\\p{N}])(${TERMS.map(t => escapeRegExp(t.term)).join('|')})(?![\\p{L}\\p{N}])`,
+  'giu',
+);
+
+// Longest restricted name, so streaming callers know how much text to hold back before scanning
+export const LONGEST_RESTRICTED_TERM = Math.max(...TERMS.map(t => t.term.length));
+
+// Character ranges of every restricted name mentioned in the text
+export function findRestrictedSpans(text: string): Array<{ start: number; end: number }> {
+  return [...text.matchAll(RESTRICTED_PATTERN)].map(match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+}
+
+export function findRestrictedAgrochemicals(text: string): SafetyFinding[] {
+  const findings: SafetyFinding[] = [];
+  const seen = new Set<string>();
+
+  for (const match of text.matchAll(RESTRICTED_PATTERN)) {
+    const entry = TERM_LOOKUP.get(match[1].toLowerCase());
+    if (!entry || seen.has(entry.name)) continue;
+    seen.add(entry.name);
+    findings.push({
+      name: entry.name,
+      matchedText: match[1],
+      status: entry.status,
+      since: entry.since,
+      notes: entry.notes,
+      saferAlternatives: entry.saferAlternatives,
+    });
+  }
+
+  return findings;
+}
+
+export function formatSafetyNote(entry: Pick<AgrochemicalRestriction, 'name' | 'status' | 'since' | 'notes' | 'saferAlternatives'>): string {
+  const label = entry.status === 'banned' ? `BANNED in India since ${entry.since}` : `RESTRICTED in India since ${entry.since}`;
+  const alternatives = entry.saferAlternatives.length > 0 ? ` Safer option: ${entry.saferAlternatives.join(' or ')}.` : '';
+  return `[⚠ ${entry.name}: ${label}. ${entry.notes}${alternatives}]`;
+}
+
+/**
+ * Insert a safety note after the first mention of each banned or restricted product.
+ * `alreadyAnnotated` carries names noted earlier in the same message, so streamed
+ * chunks do not repeat the note.
+ */
+export function annotateRestrictedAgrochemicals(
+  text: string,
+  alreadyAnnotated: Set<string> = new Set(),
+): { text: string; findings: SafetyFinding[] } {
+  const findings: SafetyFinding[] = [];
+
+  const annotated = text.replace(RESTRICTED_PATTERN, (matchedText: string) => {
+    const entry = TERM_LOOKUP.get(matchedText.toLowerCase());
+    if (!entry || alreadyAnnotated.has(entry.name)) return matchedText;
+    alreadyAnnotated.add(entry.name);
+    findings.push({
+      name: entry.name,
+      matchedText,
+      status: entry.status,
+      since: entry.since,
+      notes: entry.notes,
+      saferAlternatives: entry.saferAlternatives,
+    });
+    return `${matchedText} ${formatSafetyNote(entry)}`;
+  });
+
+  return { text: annotated, findings };
+}
+
+export function isBannedAgrochemical(name: string): boolean {
+  return TERM_LOOKUP.get(name.toLowerCase())?.status === 'banned';
+}
+
+/**
+ * Record every safety intervention. Always logged to the console; also appended as
+ * JSON lines to PESTICIDE_SAFETY_LOG_PATH when that is set.
+ */
+export function logSafetyIntervention(intervention: SafetyIntervention): void {
+  const entry = { timestamp: new Date().toISOString(), ...intervention };
+  console.warn('[pesticide-safety]', JSON.stringify(entry));
+
+  const logPath = process.env.PESTICIDE_SAFETY_LOG_PATH;
+  if (logPath) {
+    appendFile(logPath, `${JSON.stringify(entry)}\n`).catch(error => {
+      console.error('Failed to write pesticide safety log:', error);
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkPriceAlerts, evaluatePriceAlert, type ObservedPrice } from './price-alert-checker';
+import { InAppNotifier, SmsNotifier, type PriceAlertNotifier } from './price-alert-notifiers';
+import {
+  createPriceAlertSubscription,
+  MemoryPriceAlertStore,
+  type PriceAlertSubscription,
+  type PriceAlertSubscriptionInput,
+} from './price-alerts';
+
+const observed = (modalPrice: number): ObservedPrice => ({ modalPrice, arrivalDate: '2026-10-19', markets: 3 });
+
+function subscription(input: Partial<PriceAlertSubscriptionInput>): PriceAlertSubscription {
+  return createPriceAlertSubscription({
+    subscriberId: 'farmer-1',
+    commodity: 'Onion',
+    market: 'Lasalgaon',
+    condition: { type: 'above', price: 2000 },
+    ...input,
+  });
+}
+
+describe('evaluatePriceAlert', () => {
+  it('fires an above threshold once per crossing', () => {
+    let current = subscription({ condition: { type: 'above', price: 2000 } });
+    const steps = [1900, 2100, 2200, 1950, 2050].map(price => {
+      const evaluation = evaluatePriceAlert(current, observed(price));
+      current = evaluation.subscription;
+      return evaluation.alert !== null;
+    });
+    assert.deepEqual(steps, [false, true, false, false, true]);
+  });
+
+  it('fires a below threshold when the price drops under it', () => {
+    const below = subscription({ condition: { type: 'below', price: 1500 } });
+    assert.equal(evaluatePriceAlert(below, observed(1600)).alert, null);
+    const { alert } = evaluatePriceAlert(below, observed(1400));
+    assert.equal(alert?.price, 1400);
+    assert.match(alert!.message, /Onion at Lasalgaon is ₹1400\/quintal/);
+  });
+
+  it('skips a percent change without a baseline and only records the price', () => {
+    const { subscription: updated, alert } = evaluatePriceAlert(subscription({ condition: { type: 'percent-change', percent: 10 } }), observed(1000));
+    assert.equal(alert, null);
+    assert.equal(updated.lastPrice, 1000);
+  });
+
+  it('fires a percent change measured from the last alert price', () => {
+    const watched = { ...subscription({ condition: { type: 'percent-change', percent: 10 } }), lastPrice: 1000 };
+
+    const small = evaluatePriceAlert(watched, observed(1060));
+    assert.equal(small.alert, null);
+    // The baseline stays put, so slow drifts still add up
+    assert.equal(small.subscription.lastPrice, 1000);
+
+    const { subscription: updated, alert } = evaluatePriceAlert(small.subscription, observed(880));
+    assert.equal(alert?.percentChange, -12);
+    assert.equal(alert?.previousPrice, 1000);
+    assert.match(alert!.message, /down 12%/);
+    assert.equal(updated.lastPrice, 880);
+  });
+});
+
+describe('checkPriceAlerts', () => {
+  it('counts deliveries, skips and failures per notifier', async () => {
+    const store = new MemoryPriceAlertStore();
+    const withPhone = subscription({ channels: ['sms', 'web-push'], phone: '+919999999999' });
+    const withoutPhone = subscription({ subscriberId: 'farmer-2', channels: ['sms'] });
+    await store.saveSubscription(withPhone);
+    await store.saveSubscription(withoutPhone);
+
+    const texts: Array<[string, string]> = [];
+    const brokenPush: PriceAlertNotifier = {
+      channel: 'web-push',
+      notify: async () => {
+        throw new Error('push service down');
+      },
+    };
+    const notifiers = [
+      new InAppNotifier(() => store),
+      new SmsNotifier(async (phone, text) => {
+        texts.push([phone, text]);
+      }),
+      brokenPush,
+    ];
+    const queries: unknown[] = [];
+
+    const result = await checkPriceAlerts({
+      store,
+      notifiers,
+      observePrice: async query => {
+        queries.push(query);
+        return observed(2300);
+      },
+    });
+
+    // Both subscriptions watch the same market, so one price lookup serves them
+    assert.equal(queries.length, 1);
+    assert.equal(result.triggered, 2);
+    // in-app for both and SMS to the phone; SMS without a phone is skipped; push throws
+    assert.deepEqual(result.deliveries, { sent: 3, skipped: 1, failed: 1 });
+    assert.deepEqual(texts.map(([phone]) => phone), ['+919999999999']);
+    assert.equal((await store.listAlerts('farmer-1')).length, 1);
+    assert.equal((await store.listAlerts('farmer-2')).length, 1);
+  });
+
+  it('records lookup errors and does not alert when there is no price', async () => {
+    const store = new MemoryPriceAlertStore();
+    await store.saveSubscription(subscription({ commodity: 'Tomato' }));
+    await store.saveSubscription(subscription({ commodity: 'Potato' }));
+
+    const result = await checkPriceAlerts({
+      store,
+      notifiers: [new InAppNotifier(() => store)],
+      observePrice: async query => {
+        if (query.commodity === 'Tomato') throw new Error('feed unavailable');
+        return null;
+      },
+    });
+
+    assert.equal(result.triggered, 0);
+    assert.deepEqual(result.errors.map(error => error.message), ['feed unavailable']);
+    assert.deepEqual(result.deliveries, { sent: 0, skipped: 0, failed: 0 });
+  });
+});
@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import { toIsoDate } from './mandi-price-history';
+import { fetchMandiPrices, type MandiPriceQuery } from './mandi-price-service';
+import { getPriceAlertNotifiers, type PriceAlertNotifier } from './price-alert-notifiers';
+import {
+  describePriceAlertCondition,
+  getPriceAlertStore,
+  type PriceAlert,
+  type PriceAlertStore,
+  type PriceAlertSubscription,
+} from './price-alerts';
+
+export interface ObservedPrice {
+  modalPrice: number;
+  arrivalDate: string; // YYYY-MM-DD
+  markets: number;
+}
+
+export interface PriceAlertCheckResult {
+  checkedAt: string;
+  subscriptions: number;
+  // Distinct commodity/location queries sent to the mandi service
+  queries: number;
+  triggered: number;
+  // skipped: the subscription has no phone or push subscription for an opted-in channel
+  deliveries: { sent: number; skipped: number; failed: number };
+  errors: Array<{ subscriptionId: string; message: string }>;
+}
+
+export interface PriceAlertCheckOptions {
+  store?: PriceAlertStore;
+  notifiers?: PriceAlertNotifier[];
+  // Defaults to the live mandi price service
+  observePrice?: (query: MandiPriceQuery) => Promise<ObservedPrice | null>;
+}
+
+const PRICES_PER_QUERY = 200;
+
+/**
+ * Average modal price on the most recent arrival date for the subscription's
+ * commodity and location.
+ */
+export async function observeMandiPrice(query: MandiPriceQuery): Promise<ObservedPrice | null> {
+  const { prices } = await fetchMandiPrices({ ...query, limit: PRICES_PER_QUERY });
+  const dated = prices
+    .map(price => ({ price, date: toIsoDate(price.arrivalDate) }))
+    .filter((entry): entry is { price: typeof entry.price; date: string } => Boolean(entry.date) && entry.price.modalPrice > 0);
+  if (dated.length === 0) return null;
+
+  const latestDate = dated.reduce((latest, entry) => (entry.date > latest ? entry.date : latest), dated[0].date);
+  const latest = dated.filter(entry => entry.date === latestDate);
+  const modalPrice = latest.reduce((sum, entry) => sum + entry.price.modalPrice, 0) / latest.length;
+  return {
+    modalPrice: Math.round(modalPrice),
+    arrivalDate: latestDate,
+    markets: new Set(latest.map(entry => entry.price.market)).size,
+  };
+}
+
+function queryFor(subscription: PriceAlertSubscription): MandiPriceQuery {
+  return {
+    commodity: subscription.commodity,
+    state: subscription.state,
+    district: subscription.district,
+    market: subscription.market,
+  };
+}
+
+function placeOf(subscription: PriceAlertSubscription): string {
+  return subscription.market || subscription.district || subscription.state || 'all mandis';
+}
+
+/**
+ * Decide whether a subscription fires for the observed price and return its updated
+ * checker state. Thresholds fire once per crossing; percent changes are measured from
+ * the price at the previous alert (or the first check).
+ */
+export function evaluatePriceAlert(
+  subscription: PriceAlertSubscription,
+  observed: ObservedPrice,
+  now = new Date(),
+): { subscription: PriceAlertSubscription; alert: PriceAlert | null } {
+  const { condition } = subscription;
+  const baseline = subscription.lastPrice;
+  let fires = false;
+  let triggered = false;
+  let percentChange: number | undefined;
+
+  if (condition.type === 'percent-change') {
+    if (baseline) {
+      percentChange = Math.round(((observed.modalPrice - baseline) / baseline) * 1000) / 10;
+      fires = Math.abs(percentChange) >= condition.percent;
+    }
+  } else {
+    triggered = condition.type === 'above' ? observed.modalPrice > condition.price : observed.modalPrice < condition.price;
+    fires = triggered && !subscription.triggered;
+  }
+
+  // A percent-change baseline only moves when an alert fires, so slow drifts still add up
+  const keepBaseline = condition.type === 'percent-change' && baseline && !fires;
+  const updated: PriceAlertSubscription = {
+    ...subscription,
+    lastCheckedAt: now.toISOString(),
+    lastPrice: keepBaseline ? baseline : observed.modalPrice,
+    lastArrivalDate: observed.arrivalDate,
+    triggered,
+  };
+  if (!fires) return { subscription: updated, alert: null };
+
+  const direction = percentChange !== undefined ? (percentChange > 0 ? 'up' : 'down') : undefined;
+  const message = condition.type === 'percent-change'
+    ? `${subscription.commodity} at ${placeOf(subscription)} is ${direction} ${Math.abs(percentChange!)}% to ₹${observed.modalPrice}/quintal (was ₹${baseline}).`
+    : `${subscription.commodity} at ${placeOf(subscription)} is ₹${observed.modalPrice}/quintal, ${describePriceAlertCondition(condition)}.`;
+
+  return {
+    subscription: updated,
+    alert: {
+      id: randomUUID(),
+      subscriptionId: subscription.id,
+      subscriberId: subscription.subscriberId,
+      commodity: subscription.commodity,
+      state: subscription.state,
+      district: subscription.district,
+      market: subscription.market,
+      condition,
+      price: observed.modalPrice,
+      previousPrice: baseline,
+      percentChange,
+      arrivalDate: observed.arrivalDate,
+      markets: observed.markets,
+      message,
+      createdAt: now.toISOString(),
+      readAt: null,
+    },
+  };
+}
+
+/**
+ * Check every subscription against today's mandi prices and deliver triggered alerts.
+ * Subscriptions that share a commodity and location share one price lookup.
+ */
+export async function checkPriceAlerts(options: PriceAlertCheckOptions = {}): Promise<PriceAlertCheckResult> {
+  const store = options.store || getPriceAlertStore();
+  const notifiers = options.notifiers || getPriceAlertNotifiers();
+  const observePrice = options.observePrice || observeMandiPrice;
+  const now = new Date();
+
+  const subscriptions = await store.listSubscriptions();
+  const result: PriceAlertCheckResult = {
+    checkedAt: now.toISOString(),
+    subscriptions: subscriptions.length,
+    queries: 0,
+    triggered: 0,
+    deliveries: { sent: 0, skipped: 0, failed: 0 },
+    errors: [],
+  };
+
+  const groups = new Map<string, PriceAlertSubscription[]>();
+  for (const subscription of subscriptions) {
+    const key = JSON.stringify(queryFor(subscription)).toLowerCase();
+    groups.set(key, [...(groups.get(key) || []), subscription]);
+  }
+
+  for (const group of groups.values()) {
+    result.queries++;
+    let observed: ObservedPrice | null;
+    try {
+      observed = await observePrice(queryFor(group[0]));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push(...group.map(subscription => ({ subscriptionId: subscription.id, message })));
+      continue;
+    }
+    if (!observed) continue;
+
+    for (const subscription of group) {
+      const evaluation = evaluatePriceAlert(subscription, observed, now);
+      const { lastCheckedAt, lastPrice, lastArrivalDate, triggered } = evaluation.subscription;
+      // Only the checker fields are written, so a subscription deleted during the check stays deleted
+      const stillExists = await store.updateCheckerState(subscription.id, { lastCheckedAt, lastPrice, lastArrivalDate, triggered });
+      if (!stillExists || !evaluation.alert) continue;
+      result.triggered++;
+
+      for (const notifier of notifiers.filter(n => subscription.channels.includes(n.channel))) {
+        try {
+          const outcome = await notifier.notify(evaluation.alert, evaluation.subscription);
+          if (outcome === 'delivered') result.deliveries.sent++;
+          else result.deliveries.skipped++;
+        } catch (error) {
+          console.error(`Price alert ${notifier.channel} delivery failed:`, error);
+          result.deliveries.failed++;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+const DEFAULT_CHECK_INTERVAL_HOURS = 24;
+let schedule: ReturnType<typeof setInterval> | null = null;
+let checkRunning = false;
+
+/**
+ * Run checkPriceAlerts every PRICE_ALERT_CHECK_INTERVAL_HOURS (default 24) inside the
+ * server process; "off" disables it, e.g. when an external cron calls the check route
+ * instead. The first check runs one interval after start, and a check still running
+ * when the next one is due is not overlapped. Returns whether a schedule is active.
+ */
+export function startPriceAlertSchedule(): boolean {
+  if (schedule) return true;
+  const configured = (process.env.PRICE_ALERT_CHECK_INTERVAL_HOURS || '').trim().toLowerCase();
+  if (configured === 'off') return false;
+  const hours = Number(configured) > 0 ? Number(configured) : DEFAULT_CHECK_INTERVAL_HOURS;
+
+  schedule = setInterval(async () => {
+    if (checkRunning) return;
+    checkRunning = true;
+    try {
+      const result = await checkPriceAlerts();
+      console.info(`Price alert check: ${result.triggered} triggered, ${result.deliveries.sent} sent, ${result.deliveries.skipped} skipped, ${result.deliveries.failed} failed`);
+    } catch (error) {
+      console.error('Scheduled price alert check failed:', error);
+    } finally {
+      checkRunning = false;
+    }
+  }, hours * 60 * 60 * 1000);
+  // Never keep a process alive just for the schedule
+  schedule.unref?.();
+  return true;
+}
+
+export function stopPriceAlertSchedule(): void {
+  if (schedule) clearInterval(schedule);
+  schedule = null;
+}
@@ -0,0 +1,87 @@
+import { getPriceAlertStore, type PriceAlert, type PriceAlertChannel, type PriceAlertStore, type PriceAlertSubscription } from './price-alerts';
+
+// "skipped" when the subscription has no address for the channel (no phone, no push subscription)
+export type PriceAlertDeliveryOutcome = 'delivered' | 'skipped';
+
+/**
+ * Delivers a triggered alert over one channel. The checker calls every notifier whose
+ * channel the subscription opted into; a failing notifier (one that throws) does not
+ * block the others.
+ */
+export interface PriceAlertNotifier {
+  readonly channel: PriceAlertChannel;
+  notify(alert: PriceAlert, subscription: PriceAlertSubscription): Promise<PriceAlertDeliveryOutcome>;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  url: string;
+}
+
+// Transport hooks for the push and SMS adapters, so a real provider (or a test double) can be plugged in
+export type WebPushSender = (pushSubscription: Record<string, unknown>, message: PushMessage) => Promise<void>;
+export type SmsSender = (phone: string, text: string) => Promise<void>;
+
+export class NotifierNotConfiguredError extends Error {
+  constructor(channel: PriceAlertChannel) {
+    super(`No ${channel} provider is configured`);
+    this.name = 'NotifierNotConfiguredError';
+  }
+}
+
+// Writes the alert to the subscriber's inbox, shown next to the market price section
+export class InAppNotifier implements PriceAlertNotifier {
+  readonly channel = 'in-app' as const;
+
+  constructor(private readonly store: () => PriceAlertStore = getPriceAlertStore) {}
+
+  async notify(alert: PriceAlert): Promise<PriceAlertDeliveryOutcome> {
+    await this.store().addAlert(alert);
+    return 'delivered';
+  }
+}
+
+export class WebPushNotifier implements PriceAlertNotifier {
+  readonly channel = 'web-push' as const;
+
+  constructor(private readonly send?: WebPushSender) {}
+
+  async notify(alert: PriceAlert, subscription: PriceAlertSubscription): Promise<PriceAlertDeliveryOutcome> {
+    if (!subscription.pushSubscription) return 'skipped';
+    if (!this.send) throw new NotifierNotConfiguredError(this.channel);
+    await this.send(subscription.pushSubscription, {
+      title: `${alert.commodity} price alert`,
+      body: alert.message,
+      url: '/',
+    });
+    return 'delivered';
+  }
+}
+
+export class SmsNotifier implements PriceAlertNotifier {
+  readonly channel = 'sms' as const;
+
+  constructor(private readonly send?: SmsSender) {}
+
+  async notify(alert: PriceAlert, subscription: PriceAlertSubscription): Promise<PriceAlertDeliveryOutcome> {
+    if (!subscription.phone) return 'skipped';
+    if (!this.send) throw new NotifierNotConfiguredError(this.channel);
+    await this.send(subscription.phone, alert.message);
+    return 'delivered';
+  }
+}
+
+let notifiers: PriceAlertNotifier[] | null = null;
+
+// In-app delivery works out of the box; push and SMS stay inert until a sender is supplied via setPriceAlertNotifiers
+export function getPriceAlertNotifiers(): PriceAlertNotifier[] {
+  if (!notifiers) {
+    notifiers = [new InAppNotifier(), new WebPushNotifier(), new SmsNotifier()];
+  }
+  return notifiers;
+}
+
+export function setPriceAlertNotifiers(next: PriceAlertNotifier[] | null): void {
+  notifiers = next;
+}
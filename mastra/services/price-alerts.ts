@@ -0,0 +1,242 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+export const PRICE_ALERT_CHANNELS = ['in-app', 'web-push', 'sms'] as const;
+export type PriceAlertChannel = typeof PRICE_ALERT_CHANNELS[number];
+
+export const priceAlertConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('above'), price: z.number().positive().describe('Alert when the modal price rises above this (Rs/quintal)') }),
+  z.object({ type: z.literal('below'), price: z.number().positive().describe('Alert when the modal price falls below this (Rs/quintal)') }),
+  z.object({ type: z.literal('percent-change'), percent: z.number().positive().max(100).describe('Alert when the modal price moves by at least this percent since the last alert') }),
+]);
+
+export type PriceAlertCondition = z.infer<typeof priceAlertConditionSchema>;
+
+// What a farmer (or the UI on their behalf) sends to subscribe
+export const priceAlertSubscriptionInputSchema = z.object({
+  subscriberId: z.string().min(1).max(100),
+  commodity: z.string().min(1),
+  state: z.string().optional(),
+  district: z.string().optional(),
+  market: z.string().optional(),
+  condition: priceAlertConditionSchema,
+  channels: z.array(z.enum(PRICE_ALERT_CHANNELS)).optional(),
+  phone: z.string().optional().describe('Required for SMS delivery'),
+  pushSubscription: z.record(z.unknown()).optional().describe('Browser PushSubscription JSON, required for web push'),
+});
+
+export type PriceAlertSubscriptionInput = z.infer<typeof priceAlertSubscriptionInputSchema>;
+
+export interface PriceAlertSubscription extends Omit<PriceAlertSubscriptionInput, 'channels'> {
+  id: string;
+  channels: PriceAlertChannel[];
+  createdAt: string;
+  // Checker state: the modal price seen last time, used as the percent-change baseline
+  lastCheckedAt?: string;
+  lastPrice?: number;
+  lastArrivalDate?: string;
+  // Whether an above/below threshold is currently crossed; alerts fire only when it flips to true
+  triggered?: boolean;
+}
+
+export type PriceAlertCheckerState = Pick<PriceAlertSubscription, 'lastCheckedAt' | 'lastPrice' | 'lastArrivalDate' | 'triggered'>;
+
+// A subscription as shown to the browser: contact details stay on the server
+export type PublicPriceAlertSubscription = Omit<PriceAlertSubscription, 'phone' | 'pushSubscription'>;
+
+export interface PriceAlert {
+  id: string;
+  subscriptionId: string;
+  subscriberId: string;
+  commodity: string;
+  state?: string;
+  district?: string;
+  market?: string;
+  condition: PriceAlertCondition;
+  price: number;
+  previousPrice?: number;
+  percentChange?: number;
+  arrivalDate: string;
+  markets: number;
+  message: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+/**
+ * Storage backend for subscriptions and the in-app inbox. The checker and the API
+ * routes share whichever store getPriceAlertStore() returns.
+ */
+export interface PriceAlertStore {
+  listSubscriptions(subscriberId?: string): Promise<PriceAlertSubscription[]>;
+  saveSubscription(subscription: PriceAlertSubscription): Promise<void>;
+  // Updates only the checker fields; returns false (and inserts nothing) if the subscription is gone
+  updateCheckerState(id: string, state: PriceAlertCheckerState): Promise<boolean>;
+  deleteSubscription(subscriberId: string, id: string): Promise<boolean>;
+  listAlerts(subscriberId: string, options?: { unreadOnly?: boolean; limit?: number }): Promise<PriceAlert[]>;
+  addAlert(alert: PriceAlert): Promise<void>;
+  markAlertsRead(subscriberId: string, ids?: string[]): Promise<number>;
+}
+
+interface PriceAlertData {
+  subscriptions: PriceAlertSubscription[];
+  alerts: PriceAlert[];
+}
+
+// Oldest inbox entries are dropped beyond this many per subscriber
+const MAX_ALERTS_PER_SUBSCRIBER = 100;
+export const MAX_SUBSCRIPTIONS_PER_SUBSCRIBER = 20;
+
+export class MemoryPriceAlertStore implements PriceAlertStore {
+  private data: PriceAlertData = { subscriptions: [], alerts: [] };
+  private queue: Promise<unknown> = Promise.resolve();
+
+  protected async read(): Promise<PriceAlertData> {
+    return this.data;
+  }
+
+  protected async write(data: PriceAlertData): Promise<void> {
+    this.data = data;
+  }
+
+  // Read-modify-write operations are serialized so concurrent requests don't lose updates
+  private update<T>(change: (data: PriceAlertData) => T): Promise<T> {
+    const next = this.queue.then(async () => {
+      const data = await this.read();
+      const result = change(data);
+      await this.write(data);
+      return result;
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async listSubscriptions(subscriberId?: string) {
+    const { subscriptions } = await this.read();
+    return subscriptions.filter(s => !subscriberId || s.subscriberId === subscriberId);
+  }
+
+  saveSubscription(subscription: PriceAlertSubscription) {
+    return this.update(data => {
+      const index = data.subscriptions.findIndex(s => s.id === subscription.id);
+      if (index >= 0) data.subscriptions[index] = subscription;
+      else data.subscriptions.push(subscription);
+    });
+  }
+
+  updateCheckerState(id: string, { lastCheckedAt, lastPrice, lastArrivalDate, triggered }: PriceAlertCheckerState) {
+    return this.update(data => {
+      const subscription = data.subscriptions.find(s => s.id === id);
+      if (!subscription) return false;
+      Object.assign(subscription, { lastCheckedAt, lastPrice, lastArrivalDate, triggered });
+      return true;
+    });
+  }
+
+  deleteSubscription(subscriberId: string, id: string) {
+    return this.update(data => {
+      const before = data.subscriptions.length;
+      data.subscriptions = data.subscriptions.filter(s => !(s.id === id && s.subscriberId === subscriberId));
+      return data.subscriptions.length < before;
+    });
+  }
+
+  async listAlerts(subscriberId: string, options: { unreadOnly?: boolean; limit?: number } = {}) {
+    const { alerts } = await this.read();
+    return alerts
+      .filter(a => a.subscriberId === subscriberId && (!options.unreadOnly || !a.readAt))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit || MAX_ALERTS_PER_SUBSCRIBER);
+  }
+
+  addAlert(alert: PriceAlert) {
+    return this.update(data => {
+      data.alerts.push(alert);
+      const own = data.alerts.filter(a => a.subscriberId === alert.subscriberId);
+      if (own.length > MAX_ALERTS_PER_SUBSCRIBER) {
+        const dropped = new Set(own.slice(0, own.length - MAX_ALERTS_PER_SUBSCRIBER));
+        data.alerts = data.alerts.filter(a => !dropped.has(a));
+      }
+    });
+  }
+
+  markAlertsRead(subscriberId: string, ids?: string[]) {
+    return this.update(data => {
+      const now = new Date().toISOString();
+      let marked = 0;
+      for (const alert of data.alerts) {
+        if (alert.subscriberId !== subscriberId || alert.readAt || (ids && !ids.includes(alert.id))) continue;
+        alert.readAt = now;
+        marked++;
+      }
+      return marked;
+    });
+  }
+}
+
+// Single JSON file, so subscriptions survive restarts of the dev server
+export class FilePriceAlertStore extends MemoryPriceAlertStore {
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  protected async read(): Promise<PriceAlertData> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as Partial<PriceAlertData>;
+      return { subscriptions: stored.subscriptions || [], alerts: stored.alerts || [] };
+    } catch {
+      return { subscriptions: [], alerts: [] };
+    }
+  }
+
+  protected async write(data: PriceAlertData): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let store: PriceAlertStore | null = null;
+
+// File store at PRICE_ALERTS_PATH (default .mastra/price-alerts.json) unless replaced
+export function getPriceAlertStore(): PriceAlertStore {
+  if (!store) {
+    store = new FilePriceAlertStore(process.env.PRICE_ALERTS_PATH || path.join('.mastra', 'price-alerts.json'));
+  }
+  return store;
+}
+
+export function setPriceAlertStore(next: PriceAlertStore | null): void {
+  store = next;
+}
+
+export function createPriceAlertSubscription(input: PriceAlertSubscriptionInput): PriceAlertSubscription {
+  const channels = input.channels && input.channels.length > 0 ? input.channels : ['in-app' as const];
+  return {
+    ...input,
+    id: randomUUID(),
+    // The inbox is always kept, whatever else the farmer picked
+    channels: [...new Set<PriceAlertChannel>(['in-app', ...channels])],
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function toPublicSubscription(subscription: PriceAlertSubscription): PublicPriceAlertSubscription {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { phone, pushSubscription, ...rest } = subscription;
+  return rest;
+}
+
+export function describePriceAlertCondition(condition: PriceAlertCondition): string {
+  switch (condition.type) {
+    case 'above':
+      return `above ₹${condition.price}/quintal`;
+    case 'below':
+      return `below ₹${condition.price}/quintal`;
+    case 'percent-change':
+      return `moves ${condition.percent}% or more`;
+  }
+}
@@ -0,0 +1,70 @@
+import type { ResearchSource } from './source-policy';
+
+// Agent tool keys whose results carry web sources (see mastra/agents/kcc-agent.ts)
+const RESEARCH_TOOLS = new Set(['webResearch', 'perplexityResearch']);
+
+type StreamPart = { type?: string; toolCallId?: string; toolName?: string; output?: { status?: string; sources?: ResearchSource[] } };
+
+/**
+ * Add a `source-url` part to a UI message SSE stream for every page a research tool
+ * cites, right after that tool's result, so the chat can list the citations. Each URL
+ * is sent once per response; every other event passes through untouched.
+ */
+export function createResearchCitationStream(): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const researchCalls = new Set<string>();
+  const sentUrls = new Set<string>();
+  let buffer = '';
+
+  const emit = (controller: TransformStreamDefaultController<Uint8Array>, line: string) => {
+    controller.enqueue(encoder.encode(`${line}\n`));
+  };
+
+  const handleLine = (controller: TransformStreamDefaultController<Uint8Array>, line: string) => {
+    emit(controller, line);
+    if (!line.startsWith('data: ')) return;
+
+    let part: StreamPart;
+    try {
+      part = JSON.parse(line.slice('data: '.length));
+    } catch {
+      return;
+    }
+
+    if ((part.type === 'tool-input-start' || part.type === 'tool-input-available') && part.toolCallId && RESEARCH_TOOLS.has(part.toolName || '')) {
+      researchCalls.add(part.toolCallId);
+      return;
+    }
+
+    if (part.type !== 'tool-output-available' || !part.toolCallId || !researchCalls.has(part.toolCallId)) return;
+    if (part.output?.status !== 'ok' || !Array.isArray(part.output.sources)) return;
+
+    part.output.sources.forEach((source, index) => {
+      if (!source?.url || sentUrls.has(source.url)) return;
+      sentUrls.add(source.url);
+      emit(controller, '');
+      emit(controller, `data: ${JSON.stringify({
+        type: 'source-url',
+        sourceId: `${part.toolCallId}-${index}`,
+        url: source.url,
+        title: source.title || source.url,
+      })}`);
+    });
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        handleLine(controller, line);
+      }
+    },
+    flush(controller) {
+      buffer += decoder.decode();
+      if (buffer) handleLine(controller, buffer);
+    },
+  });
+}
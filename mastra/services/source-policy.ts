@@ -0,0 +1,107 @@
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { getIntentRoute } from './intent-router';
+
+/**
+ * When the agent may go to the open web. KCC answers come from verified field
+ * experience, so web research is only allowed when KCC had nothing close to the
+ * question, or the question is about something newer than the KCC archive.
+ */
+export type ResearchReason = 'low-kcc-relevance' | 'time-sensitive';
+
+export interface ResearchPolicyDecision {
+  allowed: boolean;
+  reason: ResearchReason;
+  detail: string;
+}
+
+export interface ResearchSource {
+  url: string;
+  title: string;
+}
+
+// Same cut-off the KCC tool uses for its "moderate relevance" tier
+export const LOW_KCC_RELEVANCE_SCORE = 0.45;
+
+// New schemes, outbreaks, bans, announcements and anything asked about as "latest"
+const TIME_SENSITIVE_PATTERNS = [
+  /\b(scheme|yojana|subsid(y|ies)|pm[- ]?kisan|kcc loan|insurance|pmfby|registration|deadline|last date)\b/i,
+  /\b(outbreak|epidemic|locust|swarm|new (pest|disease|virus|strain))\b/i,
+  /\b(ban(ned)?|notification|circular|advisory|announce(d|ment)?|policy|msp)\b/i,
+  /\b(latest|news|recent(ly)?|this (year|season)|new (schemes?|variet(y|ies)|rules?|guidelines?))\b/i,
+  /\b20\d\d\b/,
+];
+
+const KCC_RELEVANCE_KEY = 'kccRelevance';
+
+interface KccRelevance {
+  topScore: number;
+  hasRelevantData: boolean;
+}
+
+export function isTimeSensitiveQuery(query: string): boolean {
+  return TIME_SENSITIVE_PATTERNS.some(pattern => pattern.test(query));
+}
+
+/**
+ * Remember the best KCC match of this request. Several KCC searches in one request
+ * keep the best one, so a later narrow search does not unlock web research.
+ */
+export function recordKccRelevance(
+  runtimeContext: RuntimeContext | undefined,
+  result: { hasRelevantData: boolean; relevantResults: Array<{ relevanceScore: number }> },
+): void {
+  if (!runtimeContext) return;
+  const topScore = Math.max(0, ...result.relevantResults.map(item => item.relevanceScore));
+  const previous = runtimeContext.get(KCC_RELEVANCE_KEY) as KccRelevance | undefined;
+  runtimeContext.set(KCC_RELEVANCE_KEY, {
+    topScore: Math.max(topScore, previous?.topScore ?? 0),
+    hasRelevantData: result.hasRelevantData || !!previous?.hasRelevantData,
+  } satisfies KccRelevance);
+}
+
+/**
+ * Time-sensitivity is judged from the farmer's own message (classified by the chat route
+ * before the model runs), never from the research query the model writes, so the model
+ * cannot unlock the web by adding "latest" or a year.
+ */
+export function checkResearchPolicy(
+  request: { reason: ResearchReason },
+  runtimeContext?: RuntimeContext,
+): ResearchPolicyDecision {
+  if (request.reason === 'time-sensitive') {
+    const route = getIntentRoute(runtimeContext);
+    if (!route) {
+      return { allowed: false, reason: request.reason, detail: "The farmer's message was not classified for this request; use low-kcc-relevance after searching KCC" };
+    }
+    return route.intent.signals.timeSensitive
+      ? { allowed: true, reason: request.reason, detail: 'Question is about something newer than the KCC archive' }
+      : { allowed: false, reason: request.reason, detail: "The farmer's question does not mention a scheme, outbreak, announcement or other recent event" };
+  }
+
+  const relevance = runtimeContext?.get(KCC_RELEVANCE_KEY) as KccRelevance | undefined;
+  if (!relevance) {
+    return { allowed: false, reason: request.reason, detail: 'Search the KCC database first' };
+  }
+  if (relevance.hasRelevantData && relevance.topScore >= LOW_KCC_RELEVANCE_SCORE) {
+    return {
+      allowed: false,
+      reason: request.reason,
+      detail: `KCC already has relevant answers (best relevance ${relevance.topScore.toFixed(2)}); answer from those`,
+    };
+  }
+  return {
+    allowed: true,
+    reason: request.reason,
+    detail: `KCC relevance is low (best ${relevance.topScore.toFixed(2)})`,
+  };
+}
+
+// Unique http(s) sources, in order of first appearance
+export function uniqueSources(sources: ResearchSource[]): ResearchSource[] {
+  const seen = new Set<string>();
+  return sources.filter(source => {
+    if (!/^https?:\/\//i.test(source.url) || seen.has(source.url)) return false;
+    seen.add(source.url);
+    return true;
+  });
+}
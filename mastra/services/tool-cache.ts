@@ -0,0 +1,231 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Tool } from '@mastra/core/tools';
+
+export interface ToolCacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached tool results. Implementations may be shared across
+ * tools; keys are already namespaced by tool id.
+ */
+export interface ToolCacheStore {
+  get(key: string): Promise<ToolCacheEntry | undefined>;
+  set(key: string, entry: ToolCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export class MemoryToolCacheStore implements ToolCacheStore {
+  private readonly entries = new Map<string, ToolCacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Refresh insertion order so the least recently used entry is evicted first
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: ToolCacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+}
+
+// One JSON file per key, so the cache survives restarts of the dev server
+export class FileToolCacheStore implements ToolCacheStore {
+  constructor(private readonly directory: string) {}
+
+  private fileFor(key: string) {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string) {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as ToolCacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: ToolCacheEntry) {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.fileFor(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear() {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+}
+
+// Default lifetimes: weather changes within the hour, mandi data is published daily, the
+// climate archive gains one day per day, KCC answers are historical
+export const TOOL_CACHE_TTL = {
+  weather: 10 * 60 * 1000,
+  climate: 12 * 60 * 60 * 1000,
+  mandi: 6 * 60 * 60 * 1000,
+  kcc: 3 * 24 * 60 * 60 * 1000,
+};
+
+export interface ToolCacheMetrics {
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+const metrics = new Map<string, { hits: number; misses: number }>();
+const inFlight = new Map<string, Promise<unknown>>();
+let store: ToolCacheStore | null = null;
+
+/**
+ * Store selected by TOOL_CACHE_STORE: "memory" (default) or "file" (directory from
+ * TOOL_CACHE_DIR, default .mastra/tool-cache). "off" disables caching.
+ */
+function getStore(): ToolCacheStore | null {
+  if (store) return store;
+  const selected = (process.env.TOOL_CACHE_STORE || 'memory').trim().toLowerCase();
+  if (selected === 'off') return null;
+  store = selected === 'file'
+    ? new FileToolCacheStore(process.env.TOOL_CACHE_DIR || path.join('.mastra', 'tool-cache'))
+    : new MemoryToolCacheStore();
+  return store;
+}
+
+export function setToolCacheStore(next: ToolCacheStore | null): void {
+  store = next;
+}
+
+export function getToolCacheMetrics(): Record<string, ToolCacheMetrics> {
+  const result: Record<string, ToolCacheMetrics> = {};
+  for (const [toolId, { hits, misses }] of metrics) {
+    const total = hits + misses;
+    result[toolId] = { hits, misses, hitRate: total > 0 ? Math.round((hits / total) * 1000) / 1000 : 0 };
+  }
+  return result;
+}
+
+function record(toolId: string, outcome: 'hits' | 'misses') {
+  const counts = metrics.get(toolId) || { hits: 0, misses: 0 };
+  counts[outcome]++;
+  metrics.set(toolId, counts);
+}
+
+// Canonical form of tool input: trimmed lower-case strings, sorted keys, empty values dropped
+export function normalizeCacheInput(value: unknown): unknown {
+  if (typeof value === 'string') return value.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.round(value * 10000) / 10000 : value;
+  if (Array.isArray(value)) return value.map(normalizeCacheInput);
+  if (value && typeof value === 'object') {
+    const normalized: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = (value as Record<string, unknown>)[key];
+      if (item === undefined || item === null || item === '') continue;
+      normalized[key] = normalizeCacheInput(item);
+    }
+    return normalized;
+  }
+  return value;
+}
+
+// Second argument Mastra passes to a tool's execute (AI SDK call options)
+type ToolExecuteOptions = Parameters<NonNullable<Tool['execute']>>[1];
+
+// Minimal view of a Mastra tool, so any createTool() result can be wrapped without losing its type
+interface CacheableTool<TExecution extends { context: unknown }, TResult> {
+  id: string;
+  execute?: (execution: TExecution, options?: ToolExecuteOptions) => Promise<TResult>;
+}
+
+export interface ToolCacheOptions<TExecution, TResult> {
+  ttlMs: number;
+  // Extra key material beyond the tool input, e.g. user context that changes the result
+  keyExtras?: (execution: TExecution) => unknown;
+  // Skip caching results that only describe a failure
+  shouldCache?: (result: TResult) => boolean;
+  // Runs for every result returned, cached or fresh, with that call's execution context
+  onResult?: (result: TResult, execution: TExecution) => void;
+}
+
+/**
+ * Wrap a tool's execute function with a TTL cache keyed on its normalized input.
+ * Concurrent calls with the same key share one execution. onResult sees every result,
+ * including cache hits.
+ */
+export function withToolCache<TExecution extends { context: unknown }, TResult, TTool extends CacheableTool<TExecution, TResult>>(
+  tool: TTool & CacheableTool<TExecution, TResult>,
+  options: ToolCacheOptions<TExecution, TResult>,
+): TTool {
+  const execute = tool.execute;
+  if (!execute) return tool;
+  const toolId = tool.id;
+
+  const cachedExecute = async (execution: TExecution, executeOptions?: ToolExecuteOptions): Promise<TResult> => {
+    const cacheStore = getStore();
+    if (!cacheStore) return execute(execution, executeOptions);
+
+    const key = `${toolId}:${JSON.stringify(normalizeCacheInput({
+      input: execution.context,
+      extras: options.keyExtras?.(execution),
+    }))}`;
+
+    const cached = await cacheStore.get(key).catch(() => undefined);
+    if (cached && cached.expiresAt > Date.now()) {
+      record(toolId, 'hits');
+      return cached.value as TResult;
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+      record(toolId, 'hits');
+      return pending as Promise<TResult>;
+    }
+
+    record(toolId, 'misses');
+    const run = execute(execution, executeOptions)
+      .then(async result => {
+        if (!options.shouldCache || options.shouldCache(result)) {
+          await cacheStore
+            .set(key, { value: result, expiresAt: Date.now() + options.ttlMs })
+            .catch(error => console.warn(`Failed to cache ${toolId} result:`, error));
+        }
+        return result;
+      })
+      .finally(() => inFlight.delete(key));
+
+    inFlight.set(key, run);
+    return run;
+  };
+
+  tool.execute = async (execution: TExecution, executeOptions?: ToolExecuteOptions) => {
+    const result = await cachedExecute(execution, executeOptions);
+    options.onResult?.(result, execution);
+    return result;
+  };
+
+  return tool;
+}
@@ -0,0 +1,46 @@
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { normalizeMainCrops } from '../../lib/crops';
+
+// Farmer profile sent with each chat request (see hooks/use-chat-api.ts)
+export interface UserContext {
+  name?: string;
+  location?: string;
+  language?: string;
+  farmType?: string;
+  experience?: string;
+  mainCrops?: string | string[];
+  farmSize?: string;
+  latitude?: number;
+  longitude?: number;
+  cityName?: string;
+  stateName?: string;
+}
+
+const USER_CONTEXT_KEY = 'userContext';
+
+export function createUserRuntimeContext(userContext?: UserContext | null): RuntimeContext {
+  const runtimeContext = new RuntimeContext();
+  if (userContext) {
+    runtimeContext.set(USER_CONTEXT_KEY, userContext);
+  }
+  return runtimeContext;
+}
+
+// Tools receive the runtime context from the agent; it is absent when a tool is run directly
+export function getUserContext(runtimeContext?: RuntimeContext): UserContext | undefined {
+  const value = runtimeContext?.get(USER_CONTEXT_KEY);
+  return value && typeof value === 'object' ? (value as UserContext) : undefined;
+}
+
+export function getUserCrops(userContext?: UserContext): string[] {
+  return normalizeMainCrops(userContext?.mainCrops);
+}
+
+// Known profile fields, one per line, for agents that do not see the chat's USER CONTEXT message
+export function describeUserContext(userContext?: UserContext): string {
+  if (!userContext) return 'No farmer profile or location was shared.';
+  const lines = Object.entries(userContext)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : value}`);
+  return lines.length > 0 ? lines.join('\n') : 'No farmer profile or location was shared.';
+}
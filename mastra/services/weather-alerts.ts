@@ -0,0 +1,255 @@
+import { cropTemperatures } from './agronomic-indices';
+import { getWeather, getWeatherProvider, type DailyForecast, type WeatherQuery } from './weather-service';
+
+// Hazards and protective actions are language-neutral keys that double as translation
+// keys (hooks/use-translation.ts); only the UI turns them into text.
+export const WEATHER_HAZARDS = ['heavyRainfall', 'hailstorm', 'heatWave', 'coldWave', 'strongGusts'] as const;
+export type WeatherHazard = typeof WEATHER_HAZARDS[number];
+
+export const PROTECTIVE_ACTIONS = [
+  'clearFieldDrains',
+  'postponeSprayAndFertilizer',
+  'harvestMatureCropEarly',
+  'stakeVegetablePlants',
+  'drainWaterloggedRows',
+  'shelterAnimalsAndTools',
+  'coverOrchardsWithHailNets',
+  'coverNurseries',
+  'irrigateMorningOrEvening',
+  'mulchToSaveMoisture',
+  'irrigateAtGrainFilling',
+  'eveningIrrigationAgainstFrost',
+  'smokeFieldEdgesOnColdNights',
+  'coverYoungTrees',
+  'secureSheds',
+  'earthUpTallCrops',
+  'propUpFruitBranches',
+] as const;
+export type ProtectiveAction = typeof PROTECTIVE_ACTIONS[number];
+
+export type AlertSeverity = 'warning' | 'severe';
+
+export interface WeatherAlert {
+  id: string;
+  hazard: WeatherHazard;
+  severity: AlertSeverity;
+  startDate: string;
+  endDate: string;
+  // Worst value over the alert days; null for hail, which is reported by weather code only
+  peak: { value: number; unit: 'mm' | '°C' | 'km/h' } | null;
+  // The farmer's main crops most exposed to this hazard
+  affectedCrops: string[];
+  actions: ProtectiveAction[];
+}
+
+export interface WeatherAlertReport {
+  location: string;
+  latitude: number;
+  longitude: number;
+  alerts: WeatherAlert[];
+}
+
+export const ALERT_FORECAST_DAYS = 7;
+
+// Thresholds loosely follow IMD warning criteria for the plains
+export const ALERT_THRESHOLDS = {
+  heavyRainMm: 64.5,
+  veryHeavyRainMm: 115.6,
+  // Heat wave: 40°C on two or more consecutive days, or 45°C on any day
+  heatWaveTemp: 40,
+  severeHeatWaveTemp: 45,
+  coldWaveTemp: 4,
+  severeColdWaveTemp: 2,
+  strongGustKmh: 50,
+  severeGustKmh: 70,
+};
+
+type CropGroup = 'cereal' | 'vegetable' | 'orchard' | 'cash' | 'pulseOilseed';
+
+const CROP_GROUPS: Record<CropGroup, string[]> = {
+  cereal: ['rice', 'paddy', 'wheat', 'maize', 'barley', 'bajra', 'jowar', 'millet', 'sorghum'],
+  vegetable: ['potato', 'onion', 'tomato', 'chilli', 'brinjal', 'cabbage', 'cauliflower', 'okra', 'vegetable'],
+  orchard: ['mango', 'banana', 'grape', 'pomegranate', 'citrus', 'orange', 'guava', 'tea', 'coffee'],
+  cash: ['sugarcane', 'cotton', 'jute', 'tobacco'],
+  pulseOilseed: ['pulses', 'gram', 'tur', 'arhar', 'moong', 'urad', 'lentil', 'mustard', 'groundnut', 'soybean', 'sunflower', 'sesame'],
+};
+
+// General steps first, then steps for the crop groups most exposed to the hazard
+const HAZARD_RESPONSES: Record<WeatherHazard, { general: ProtectiveAction[]; groups: Partial<Record<CropGroup, ProtectiveAction[]>> }> = {
+  heavyRainfall: {
+    general: ['clearFieldDrains', 'postponeSprayAndFertilizer'],
+    groups: {
+      cereal: ['harvestMatureCropEarly'],
+      vegetable: ['stakeVegetablePlants'],
+      pulseOilseed: ['drainWaterloggedRows'],
+      cash: ['drainWaterloggedRows'],
+    },
+  },
+  hailstorm: {
+    general: ['shelterAnimalsAndTools', 'harvestMatureCropEarly'],
+    groups: {
+      orchard: ['coverOrchardsWithHailNets'],
+      vegetable: ['coverNurseries'],
+      cereal: ['harvestMatureCropEarly'],
+      pulseOilseed: ['harvestMatureCropEarly'],
+    },
+  },
+  heatWave: {
+    general: ['irrigateMorningOrEvening', 'mulchToSaveMoisture'],
+    groups: {
+      cereal: ['irrigateAtGrainFilling'],
+      vegetable: ['coverNurseries'],
+      orchard: ['coverYoungTrees'],
+      pulseOilseed: ['irrigateAtGrainFilling'],
+    },
+  },
+  coldWave: {
+    general: ['eveningIrrigationAgainstFrost', 'smokeFieldEdgesOnColdNights'],
+    groups: {
+      vegetable: ['coverNurseries'],
+      orchard: ['coverYoungTrees'],
+      pulseOilseed: ['eveningIrrigationAgainstFrost'],
+      cash: ['eveningIrrigationAgainstFrost'],
+    },
+  },
+  strongGusts: {
+    general: ['postponeSprayAndFertilizer', 'secureSheds'],
+    groups: {
+      cereal: ['earthUpTallCrops'],
+      cash: ['earthUpTallCrops'],
+      orchard: ['propUpFruitBranches'],
+      vegetable: ['stakeVegetablePlants'],
+    },
+  },
+};
+
+// "Bajra (Pearl Millet)" → cereal; crops outside every group only get the general steps
+export function cropGroup(crop: string): CropGroup | null {
+  const key = crop.toLowerCase();
+  const match = (Object.entries(CROP_GROUPS) as Array<[CropGroup, string[]]>)
+    .find(([, names]) => names.some(name => key.includes(name)));
+  return match ? match[0] : null;
+}
+
+interface HazardDay {
+  date: string;
+  severity: AlertSeverity;
+  value: number | null;
+}
+
+function hazardDays(forecast: DailyForecast[], hazard: WeatherHazard): HazardDay[] {
+  const t = ALERT_THRESHOLDS;
+  return forecast.flatMap((day, index): HazardDay[] => {
+    switch (hazard) {
+      case 'heavyRainfall':
+        return day.precipitation >= t.heavyRainMm
+          ? [{ date: day.date, severity: day.precipitation >= t.veryHeavyRainMm ? 'severe' : 'warning', value: day.precipitation }]
+          : [];
+      case 'hailstorm':
+        return day.conditions === 'thunderstormSlightHail' || day.conditions === 'thunderstormHeavyHail'
+          ? [{ date: day.date, severity: day.conditions === 'thunderstormHeavyHail' ? 'severe' : 'warning', value: null }]
+          : [];
+      case 'heatWave': {
+        const hot = (other?: DailyForecast) => !!other && other.maxTemp >= t.heatWaveTemp;
+        const qualifies = day.maxTemp >= t.severeHeatWaveTemp
+          || (hot(day) && (hot(forecast[index - 1]) || hot(forecast[index + 1])));
+        return qualifies
+          ? [{ date: day.date, severity: day.maxTemp >= t.severeHeatWaveTemp ? 'severe' : 'warning', value: day.maxTemp }]
+          : [];
+      }
+      case 'coldWave':
+        return day.minTemp <= t.coldWaveTemp
+          ? [{ date: day.date, severity: day.minTemp <= t.severeColdWaveTemp ? 'severe' : 'warning', value: day.minTemp }]
+          : [];
+      case 'strongGusts':
+        return day.maxWindGust >= t.strongGustKmh
+          ? [{ date: day.date, severity: day.maxWindGust >= t.severeGustKmh ? 'severe' : 'warning', value: day.maxWindGust }]
+          : [];
+    }
+  });
+}
+
+const PEAK_UNITS: Record<WeatherHazard, 'mm' | '°C' | 'km/h' | null> = {
+  heavyRainfall: 'mm',
+  hailstorm: null,
+  heatWave: '°C',
+  coldWave: '°C',
+  strongGusts: 'km/h',
+};
+
+function isNextDay(previous: string, next: string): boolean {
+  return Date.parse(`${next}T00:00:00Z`) - Date.parse(`${previous}T00:00:00Z`) === 24 * 60 * 60 * 1000;
+}
+
+// Crops most exposed to a hazard: those with group-specific steps, plus any crop whose
+// temperature limits the heat or cold crosses
+function exposedCrops(hazard: WeatherHazard, crops: string[], days: HazardDay[]): string[] {
+  const groups = HAZARD_RESPONSES[hazard].groups;
+  return crops.filter(crop => {
+    const group = cropGroup(crop);
+    if (group && groups[group]) return true;
+    const { base, upper } = cropTemperatures(crop);
+    if (hazard === 'heatWave') return days.some(day => day.value !== null && day.value > upper);
+    if (hazard === 'coldWave') return days.some(day => day.value !== null && day.value < base);
+    return false;
+  });
+}
+
+function protectiveActions(hazard: WeatherHazard, crops: string[]): ProtectiveAction[] {
+  const response = HAZARD_RESPONSES[hazard];
+  const groupActions = crops.flatMap(crop => {
+    const group = cropGroup(crop);
+    return (group && response.groups[group]) || [];
+  });
+  return [...new Set([...response.general, ...groupActions])];
+}
+
+/**
+ * Severe-weather alerts over the forecast, one per run of consecutive days with the
+ * same hazard, matched against the farmer's crops. Severe alerts sort first.
+ */
+export function detectWeatherAlerts(forecast: DailyForecast[], crops: string[] = []): WeatherAlert[] {
+  const alerts: WeatherAlert[] = [];
+
+  for (const hazard of WEATHER_HAZARDS) {
+    const runs: HazardDay[][] = [];
+    for (const day of hazardDays(forecast, hazard)) {
+      const run = runs[runs.length - 1];
+      if (run && isNextDay(run[run.length - 1].date, day.date)) run.push(day);
+      else runs.push([day]);
+    }
+
+    for (const run of runs) {
+      const values = run.map(day => day.value).filter((value): value is number => value !== null);
+      const unit = PEAK_UNITS[hazard];
+      const affectedCrops = exposedCrops(hazard, crops, run);
+      alerts.push({
+        id: `${hazard}-${run[0].date}`,
+        hazard,
+        severity: run.some(day => day.severity === 'severe') ? 'severe' : 'warning',
+        startDate: run[0].date,
+        endDate: run[run.length - 1].date,
+        peak: unit && values.length > 0
+          ? { value: hazard === 'coldWave' ? Math.min(...values) : Math.max(...values), unit }
+          : null,
+        affectedCrops,
+        actions: protectiveActions(hazard, affectedCrops),
+      });
+    }
+  }
+
+  return alerts.sort((a, b) => (a.severity === b.severity ? a.startDate.localeCompare(b.startDate) : a.severity === 'severe' ? -1 : 1));
+}
+
+export async function getWeatherAlerts(
+  query: Pick<WeatherQuery, 'location' | 'latitude' | 'longitude' | 'crops'>,
+  weatherProvider = getWeatherProvider(),
+): Promise<WeatherAlertReport> {
+  const report = await getWeather({ ...query, days: ALERT_FORECAST_DAYS }, weatherProvider);
+  return {
+    location: report.location,
+    latitude: report.latitude,
+    longitude: report.longitude,
+    alerts: detectWeatherAlerts(report.forecast, query.crops),
+  };
+}
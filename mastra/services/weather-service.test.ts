@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FixtureWeatherProvider, getWeather } from './weather-service';
+
+describe('getWeather with the recorded Open-Meteo forecast', () => {
+  it('derives the agronomic indices for each day', async () => {
+    const report = await getWeather({ location: 'Nashik', days: 7, crops: ['wheat'] }, new FixtureWeatherProvider());
+
+    assert.equal(report.location, 'Nashik');
+    assert.equal(report.forecast.length, 7);
+
+    const [dry, showery, wet] = report.forecast;
+    assert.equal(dry.date, '2025-08-18');
+    assert.deepEqual(dry.agronomy.spray.bestWindow, { start: '06:00', end: '18:00', hours: 12 });
+    assert.equal(dry.agronomy.et0, 4.6);
+    assert.equal(dry.agronomy.diseaseFavourable, false);
+    // Wheat growth stops above 30°C, so the 30.8°C maximum counts as 30
+    assert.deepEqual(dry.agronomy.growingDegreeDays, [{ crop: 'wheat', baseTemp: 0, gdd: 26.2 }]);
+
+    assert.equal(showery.agronomy.spray.suitableHours, 3);
+    assert.equal(showery.agronomy.leafWetnessHours, 4);
+
+    // 24.5 mm of rain: no spray window and a long wet spell that favours disease
+    assert.equal(wet.agronomy.spray.suitable, false);
+    assert.equal(wet.agronomy.spray.suitableHours, 0);
+    assert.equal(wet.agronomy.leafWetnessHours, 11);
+    assert.equal(wet.agronomy.diseaseFavourable, true);
+    assert.equal(wet.agronomy.et0, 2.1);
+
+    assert.ok(report.forecast.every(day => !day.agronomy.heatStress && !day.agronomy.frostRisk));
+  });
+});
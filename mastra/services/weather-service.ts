@@ -0,0 +1,335 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { weatherConditionFromCode, type WeatherCondition } from '../../lib/weather-conditions';
+import {
+  computeAgronomicIndices,
+  hourlyOutlook,
+  type AgronomicIndices,
+  type FieldOperation,
+  type HourlyOutlook,
+  type HourlyWeather,
+} from './agronomic-indices';
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+  name: string;
+}
+
+// Provider-neutral forecast; weatherCode is a WMO code
+export interface ProviderForecast {
+  current: {
+    time: string; // local ISO time
+    temperature: number;
+    feelsLike: number;
+    humidity: number;
+    windSpeed: number;
+    windGust: number;
+    weatherCode: number;
+  };
+  daily: Array<{
+    date: string;
+    maxTemp: number;
+    minTemp: number;
+    maxFeelsLike: number;
+    minFeelsLike: number;
+    precipitation: number;
+    precipitationChance: number;
+    maxWindSpeed: number;
+    maxWindGust: number;
+    weatherCode: number;
+    et0: number | null;
+  }>;
+  hourly: HourlyWeather[];
+}
+
+/**
+ * Source of geocoding and forecast data. Open-Meteo is the default; the fixture
+ * provider serves a recorded response so the tool, route and UI can run offline.
+ */
+export interface WeatherProvider {
+  readonly name: string;
+  geocode(place: string): Promise<GeoLocation | null>;
+  forecast(request: { latitude: number; longitude: number; days: number }): Promise<ProviderForecast>;
+}
+
+export interface WeatherQuery {
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  days?: number;
+  crops?: string[];
+  granularity?: 'daily' | 'hourly';
+  hours?: number;
+  operation?: FieldOperation;
+}
+
+export interface DailyForecast {
+  date: string;
+  maxTemp: number;
+  minTemp: number;
+  maxFeelsLike: number;
+  minFeelsLike: number;
+  precipitation: number;
+  precipitationChance: number;
+  maxWindSpeed: number;
+  maxWindGust: number;
+  conditions: WeatherCondition;
+  agronomy: AgronomicIndices;
+}
+
+export interface WeatherReport {
+  location: string;
+  latitude: number;
+  longitude: number;
+  currentWeather: {
+    temperature: number;
+    feelsLike: number;
+    humidity: number;
+    windSpeed: number;
+    windGust: number;
+    conditions: WeatherCondition;
+  };
+  forecast: DailyForecast[];
+  hourly?: HourlyOutlook;
+}
+
+export type WeatherErrorCode = 'missing-location' | 'location-not-found' | 'upstream-error' | 'network-error';
+
+export class WeatherServiceError extends Error {
+  constructor(
+    message: string,
+    readonly code: WeatherErrorCode,
+    // HTTP status to report when the error surfaces through an API route
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'WeatherServiceError';
+  }
+}
+
+export const DEFAULT_FORECAST_DAYS = 7;
+// Open-Meteo serves up to 16 days of daily forecast
+export const MAX_FORECAST_DAYS = 16;
+
+interface OpenMeteoGeocodingResponse {
+  results?: {
+    latitude: number;
+    longitude: number;
+    name: string;
+  }[];
+}
+
+export interface OpenMeteoForecastResponse {
+  current: {
+    time: string;
+    temperature_2m: number;
+    apparent_temperature: number;
+    relative_humidity_2m: number;
+    wind_speed_10m: number;
+    wind_gusts_10m: number;
+    weather_code: number;
+  };
+  daily: {
+    time: string[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    apparent_temperature_max: number[];
+    apparent_temperature_min: number[];
+    precipitation_sum: number[];
+    precipitation_probability_max: number[];
+    wind_speed_10m_max: number[];
+    wind_gusts_10m_max: number[];
+    weather_code: number[];
+    et0_fao_evapotranspiration?: number[];
+  };
+  hourly: {
+    time: string[];
+    temperature_2m: number[];
+    relative_humidity_2m: number[];
+    precipitation: number[];
+    precipitation_probability: number[];
+    wind_speed_10m: number[];
+  };
+}
+
+const CURRENT_FIELDS = 'temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code';
+const DAILY_FIELDS = 'temperature_2m_max,temperature_2m_min,apparent_temperature_max,apparent_temperature_min,precipitation_sum,precipitation_probability_max,wind_speed_10m_max,wind_gusts_10m_max,weather_code,et0_fao_evapotranspiration';
+const HOURLY_FIELDS = 'temperature_2m,relative_humidity_2m,precipitation,precipitation_probability,wind_speed_10m';
+
+export function parseOpenMeteoForecast(data: OpenMeteoForecastResponse): ProviderForecast {
+  return {
+    current: {
+      time: data.current.time,
+      temperature: data.current.temperature_2m,
+      feelsLike: data.current.apparent_temperature,
+      humidity: data.current.relative_humidity_2m,
+      windSpeed: data.current.wind_speed_10m,
+      windGust: data.current.wind_gusts_10m,
+      weatherCode: data.current.weather_code,
+    },
+    daily: data.daily.time.map((date, index) => ({
+      date,
+      maxTemp: data.daily.temperature_2m_max[index],
+      minTemp: data.daily.temperature_2m_min[index],
+      maxFeelsLike: data.daily.apparent_temperature_max[index],
+      minFeelsLike: data.daily.apparent_temperature_min[index],
+      precipitation: data.daily.precipitation_sum[index],
+      precipitationChance: data.daily.precipitation_probability_max[index],
+      maxWindSpeed: data.daily.wind_speed_10m_max[index],
+      maxWindGust: data.daily.wind_gusts_10m_max[index],
+      weatherCode: data.daily.weather_code[index],
+      et0: data.daily.et0_fao_evapotranspiration?.[index] ?? null,
+    })),
+    hourly: data.hourly.time.map((time, index) => ({
+      time,
+      temperature: data.hourly.temperature_2m[index],
+      humidity: data.hourly.relative_humidity_2m[index],
+      precipitation: data.hourly.precipitation[index] ?? 0,
+      precipitationChance: data.hourly.precipitation_probability[index] ?? 0,
+      windSpeed: data.hourly.wind_speed_10m[index],
+    })),
+  };
+}
+
+// DNS failures, resets and timeouts surface as an upstream error, like a bad status
+async function fetchOpenMeteo(url: string, service: string): Promise<Response> {
+  try {
+    return await fetch(url);
+  } catch (error) {
+    throw new WeatherServiceError(
+      `${service} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'network-error',
+      502,
+    );
+  }
+}
+
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  readonly name = 'open-meteo';
+
+  async geocode(place: string) {
+    const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(place)}&count=1`;
+    const response = await fetchOpenMeteo(geocodingUrl, 'Geocoding');
+    if (!response.ok) {
+      throw new WeatherServiceError(`Geocoding failed with status ${response.status}`, 'upstream-error', 502);
+    }
+    const data = (await response.json()) as OpenMeteoGeocodingResponse;
+    return data.results?.[0] || null;
+  }
+
+  async forecast({ latitude, longitude, days }: { latitude: number; longitude: number; days: number }) {
+    const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=${CURRENT_FIELDS}&daily=${DAILY_FIELDS}&hourly=${HOURLY_FIELDS}&timezone=auto&forecast_days=${days}`;
+    const response = await fetchOpenMeteo(weatherUrl, 'Open-Meteo');
+    if (!response.ok) {
+      throw new WeatherServiceError(`Open-Meteo returned status ${response.status}`, 'upstream-error', 502);
+    }
+    return parseOpenMeteoForecast((await response.json()) as OpenMeteoForecastResponse);
+  }
+}
+
+interface WeatherFixture {
+  location: GeoLocation;
+  forecast: OpenMeteoForecastResponse;
+}
+
+export const DEFAULT_WEATHER_FIXTURE_PATH = path.join(process.cwd(), 'mastra', 'fixtures', 'open-meteo-forecast.json');
+
+// Recorded Open-Meteo response; every place geocodes to the fixture's location
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = 'fixture';
+  private fixture: Promise<WeatherFixture> | null = null;
+
+  constructor(private readonly source: string | WeatherFixture = DEFAULT_WEATHER_FIXTURE_PATH) {}
+
+  private load(): Promise<WeatherFixture> {
+    if (!this.fixture) {
+      const source = this.source;
+      this.fixture = typeof source === 'string'
+        ? fs.readFile(source, 'utf8').then(text => JSON.parse(text) as WeatherFixture)
+        : Promise.resolve(source);
+    }
+    return this.fixture;
+  }
+
+  async geocode() {
+    return (await this.load()).location;
+  }
+
+  async forecast({ days }: { days: number }) {
+    const forecast = parseOpenMeteoForecast((await this.load()).forecast);
+    return { ...forecast, daily: forecast.daily.slice(0, days) };
+  }
+}
+
+let provider: WeatherProvider | null = null;
+
+// Provider selected by WEATHER_PROVIDER: "open-meteo" (default) or "fixture" (WEATHER_FIXTURE_PATH)
+export function getWeatherProvider(): WeatherProvider {
+  if (!provider) {
+    const selected = (process.env.WEATHER_PROVIDER || 'open-meteo').trim().toLowerCase();
+    provider = selected === 'fixture'
+      ? new FixtureWeatherProvider(process.env.WEATHER_FIXTURE_PATH || DEFAULT_WEATHER_FIXTURE_PATH)
+      : new OpenMeteoWeatherProvider();
+  }
+  return provider;
+}
+
+export function setWeatherProvider(next: WeatherProvider | null): void {
+  provider = next;
+}
+
+export async function resolveWeatherLocation(query: Pick<WeatherQuery, 'location' | 'latitude' | 'longitude'>, weatherProvider = getWeatherProvider()): Promise<GeoLocation> {
+  if (typeof query.latitude === 'number' && typeof query.longitude === 'number'
+    && Number.isFinite(query.latitude) && Number.isFinite(query.longitude)) {
+    return {
+      latitude: query.latitude,
+      longitude: query.longitude,
+      name: `${query.latitude.toFixed(4)}, ${query.longitude.toFixed(4)}`,
+    };
+  }
+  if (!query.location) {
+    throw new WeatherServiceError('Either location name or coordinates (latitude/longitude) must be provided', 'missing-location', 400);
+  }
+
+  // Geocoding only understands the place name, not "Nashik, Maharashtra, India"
+  const cleanLocation = query.location.split(',')[0].trim();
+  const found = await weatherProvider.geocode(cleanLocation);
+  if (!found) {
+    throw new WeatherServiceError(`Location '${cleanLocation}' not found. Please provide only the city name.`, 'location-not-found', 404);
+  }
+  return found;
+}
+
+/**
+ * Current conditions and a daily forecast with agronomic indices; with
+ * granularity "hourly", also the next hours and best field-operation windows.
+ */
+export async function getWeather(query: WeatherQuery, weatherProvider = getWeatherProvider()): Promise<WeatherReport> {
+  const place = await resolveWeatherLocation(query, weatherProvider);
+  const days = Math.min(Math.max(query.days || DEFAULT_FORECAST_DAYS, 1), MAX_FORECAST_DAYS);
+  const data = await weatherProvider.forecast({ latitude: place.latitude, longitude: place.longitude, days });
+  const crops = query.crops || [];
+
+  return {
+    location: place.name,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    currentWeather: {
+      temperature: data.current.temperature,
+      feelsLike: data.current.feelsLike,
+      humidity: data.current.humidity,
+      windSpeed: data.current.windSpeed,
+      windGust: data.current.windGust,
+      conditions: weatherConditionFromCode(data.current.weatherCode),
+    },
+    forecast: data.daily.map(({ weatherCode, et0, ...day }) => ({
+      ...day,
+      conditions: weatherConditionFromCode(weatherCode),
+      agronomy: computeAgronomicIndices({ date: day.date, maxTemp: day.maxTemp, minTemp: day.minTemp, et0 }, data.hourly, crops),
+    })),
+    hourly: query.granularity === 'hourly'
+      ? hourlyOutlook(data.hourly, data.current.time, { hours: query.hours, operation: query.operation })
+      : undefined,
+  };
+}
@@ -0,0 +1,70 @@
+import { InMemoryStore, type WorkflowRun, type WorkflowRuns } from '@mastra/core/storage';
+import type { WorkflowRunState } from '@mastra/core/workflows';
+
+// Oldest runs are dropped beyond this, so abandoned diagnoses do not pile up
+const MAX_SNAPSHOTS = 500;
+
+/**
+ * Process-memory storage for workflow runs, so a suspended run (e.g. a diagnosis waiting
+ * for the farmer's answer) can be resumed by the next request. Mastra's InMemoryStore
+ * prints every snapshot write to the console, so its workflow methods are replaced here;
+ * everything else is inherited. Runs are lost when the server restarts.
+ */
+export class WorkflowSnapshotStore extends InMemoryStore {
+  private readonly runs = new Map<string, WorkflowRun>();
+
+  private key(workflowName: string, runId: string): string {
+    return `${workflowName}:${runId}`;
+  }
+
+  override async persistWorkflowSnapshot({ workflowName, runId, snapshot }: {
+    workflowName: string;
+    runId: string;
+    snapshot: WorkflowRunState;
+  }): Promise<void> {
+    const key = this.key(workflowName, runId);
+    const existing = this.runs.get(key);
+    const now = new Date();
+    // Re-insert so the map stays ordered by last update
+    this.runs.delete(key);
+    this.runs.set(key, { workflowName, runId, snapshot, createdAt: existing?.createdAt ?? now, updatedAt: now });
+
+    while (this.runs.size > MAX_SNAPSHOTS) {
+      this.runs.delete(this.runs.keys().next().value!);
+    }
+  }
+
+  override async loadWorkflowSnapshot({ workflowName, runId }: {
+    workflowName: string;
+    runId: string;
+  }): Promise<WorkflowRunState | null> {
+    return (this.runs.get(this.key(workflowName, runId))?.snapshot as WorkflowRunState | undefined) ?? null;
+  }
+
+  override async getWorkflowRunById({ runId, workflowName }: {
+    runId: string;
+    workflowName?: string;
+  }): Promise<WorkflowRun | null> {
+    if (workflowName) return this.runs.get(this.key(workflowName, runId)) ?? null;
+    return Array.from(this.runs.values()).find(run => run.runId === runId) ?? null;
+  }
+
+  override async getWorkflowRuns({ workflowName, fromDate, toDate, limit, offset = 0, resourceId }: {
+    workflowName?: string;
+    fromDate?: Date;
+    toDate?: Date;
+    limit?: number;
+    offset?: number;
+    resourceId?: string;
+  } = {}): Promise<WorkflowRuns> {
+    const runs = Array.from(this.runs.values())
+      .filter(run => !workflowName || run.workflowName === workflowName)
+      .filter(run => !resourceId || run.resourceId === resourceId)
+      .filter(run => (!fromDate || run.createdAt >= fromDate) && (!toDate || run.createdAt <= toDate))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return {
+      runs: limit === undefined ? runs.slice(offset) : runs.slice(offset, offset + limit),
+      total: runs.length,
+    };
+  }
+}
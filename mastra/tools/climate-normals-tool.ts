@@ -0,0 +1,68 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { TOOL_CACHE_TTL, withToolCache } from '../services/tool-cache';
+import { getUserContext } from '../services/user-context';
+import { DEFAULT_BASELINE_YEARS, MAX_BASELINE_YEARS, compareWithClimateNormals } from '../services/climate-normals';
+
+const temperatureStat = z.number().nullable();
+
+export const climateNormalsTool = withToolCache(createTool({
+  id: 'compare-climate-normals',
+  description: "Compare this season's rainfall and temperature so far at the farmer's location with the multi-year normal for the same dates. Use this for questions like \"is this monsoon below normal?\", rainfall deficit, or whether the season is running hot or cold.",
+  inputSchema: z.object({
+    latitude: z.number().optional().describe('Latitude; defaults to the user context location'),
+    longitude: z.number().optional().describe('Longitude; defaults to the user context location'),
+    baselineYears: z.number().min(1).max(MAX_BASELINE_YEARS).optional().describe(`Years in the baseline (default: ${DEFAULT_BASELINE_YEARS})`),
+  }),
+  outputSchema: z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    season: z.object({
+      name: z.enum(['winter', 'preMonsoon', 'monsoon', 'postMonsoon']).describe('IMD season: winter Jan-Feb, pre-monsoon Mar-May, monsoon Jun-Sep, post-monsoon Oct-Dec'),
+      startDate: z.string(),
+      throughDate: z.string().describe('Last day with archive data, a few days behind today'),
+      days: z.number(),
+    }),
+    baseline: z.object({
+      firstYear: z.number(),
+      lastYear: z.number(),
+      years: z.number(),
+    }),
+    rainfall: z.object({
+      seasonToDate: z.number().describe('mm since the season started'),
+      normal: z.number().describe('Baseline average mm over the same dates'),
+      departurePercent: z.number().nullable(),
+      category: z.enum(['largeExcess', 'excess', 'normal', 'deficient', 'largeDeficient', 'noRain']).nullable()
+        .describe('IMD category: large excess >= +60%, excess +20 to +59%, normal -19 to +19%, deficient -20 to -59%, large deficient -60 to -99%'),
+      rainyDays: z.number().describe('Days with 2.5 mm or more'),
+      normalRainyDays: z.number(),
+    }),
+    temperature: z.object({
+      mean: temperatureStat,
+      normalMean: temperatureStat,
+      departure: temperatureStat.describe('Season mean minus normal mean, °C'),
+      meanMax: temperatureStat,
+      normalMeanMax: temperatureStat,
+      meanMin: temperatureStat,
+      normalMeanMin: temperatureStat,
+    }),
+    provider: z.string(),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    const userContext = getUserContext(runtimeContext);
+    const latitude = context.latitude ?? userContext?.latitude;
+    const longitude = context.longitude ?? userContext?.longitude;
+
+    if (latitude === undefined || longitude === undefined) {
+      throw new Error('Farmer location is not available; ask the farmer for their village or nearest town');
+    }
+
+    return await compareWithClimateNormals({ latitude, longitude, baselineYears: context.baselineYears });
+  },
+}), {
+  ttlMs: TOOL_CACHE_TTL.climate,
+  keyExtras: ({ runtimeContext }) => {
+    const userContext = getUserContext(runtimeContext);
+    return { latitude: userContext?.latitude, longitude: userContext?.longitude };
+  },
+});
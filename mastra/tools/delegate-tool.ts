@@ -0,0 +1,43 @@
+import { createTool } from '@mastra/core/tools';
+import type { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+
+/**
+ * A tool through which the supervisor agent hands a sub-question to a specialist agent.
+ * The specialist runs with the same runtime context, so it sees the farmer's profile
+ * and its KCC searches count towards the research source policy.
+ */
+export function createDelegateTool({ id, description, agent }: { id: string; description: string; agent: Agent }) {
+  return createTool({
+    id,
+    description,
+    inputSchema: z.object({
+      task: z.string().describe('The sub-question in simple English, with the crop, place, dates, quantities and anything else the farmer said that matters'),
+    }),
+    outputSchema: z.object({
+      status: z.enum(['ok', 'failed']),
+      specialist: z.string(),
+      findings: z.string().describe("The specialist's report; merge it into the answer"),
+      toolsUsed: z.array(z.string()),
+    }),
+    execute: async ({ context, runtimeContext }) => {
+      try {
+        const result = await agent.generate(context.task, { runtimeContext });
+        return {
+          status: 'ok' as const,
+          specialist: agent.name,
+          findings: result.text,
+          toolsUsed: Array.from(new Set(result.steps.flatMap(step => step.toolCalls.map(call => call.toolName)))),
+        };
+      } catch (error) {
+        console.error(`${agent.name} failed:`, error);
+        return {
+          status: 'failed' as const,
+          specialist: agent.name,
+          findings: 'The specialist could not answer right now; answer from the other sources and say this part could not be checked.',
+          toolsUsed: [],
+        };
+      }
+    },
+  });
+}
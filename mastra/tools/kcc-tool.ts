@@ -1,140 +1,224 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import {
+  getKccSearchProvider,
+  type KCCApiResult,
+  type KCCSearchFilters,
+} from '../services/kcc-search-provider';
+import { scoreTexts } from '../services/bm25';
+import { clusterByAnswer, describeCluster } from '../services/kcc-clustering';
+import {
+  findCombinationConflicts,
+  findDosageConflicts,
+  findProductMentions,
+  parseDosages,
+  SPRAY_VOLUME_LITRES_PER_ACRE,
+} from '../services/kcc-dosage-parser';
+import { annotateRestrictedAgrochemicals, isBannedAgrochemical, logSafetyIntervention } from '../services/pesticide-safety';
+import { TOOL_CACHE_TTL, withToolCache } from '../services/tool-cache';
+import { getUserContext, getUserCrops, type UserContext } from '../services/user-context';
+import { recordKccRelevance } from '../services/source-policy';
 
-// KCC API Base URL
-const KCC_API_BASE_URL = 'https://kishancallvectordb-816972702925.asia-south1.run.app';
-
-interface KCCApiResult {
-  id: string;
-  similarity: number;
-  StateName: string;
-  DistrictName: string;
-  Category: string;
-  QueryType: string;
-  QueryText: string;
-  KccAns: string;
-  Crop: string;
-  Season: string;
-  CreatedOn: string;
-}
+// Filters are relaxed in this order (tightest first) when a filtered search comes back thin
+const FILTER_RELAXATION_ORDER: Array<keyof KCCSearchFilters> = [
+  'DistrictName',
+  'Category',
+  'Season',
+  'Crop',
+  'StateName',
+];
 
-interface KCCApiResponse {
-  success: boolean;
-  query: string;
-  topK: number;
-  filters?: Record<string, string>;
-  resultsCount: number;
-  searchTime: string;
-  results: KCCApiResult[];
-}
+// Minimum hits a filtered search must return before we stop relaxing filters
+const MIN_FILTERED_RESULTS = 3;
+
+const KCC_ERROR_SUMMARY_PREFIX = 'Error querying KCC search';
+
+// Candidates fetched per requested result, so re-ranking has something to choose from
+const CANDIDATE_MULTIPLIER = 3;
+const MAX_CANDIDATES = 40;
+// Keeps the candidate pool (up to MAX_CANDIDATES) larger than the results asked for
+const MAX_TOP_K = 20;
+
+// Weights of each re-ranking signal; they sum to 1 so relevanceScore stays within 0..1
+const RANKING_WEIGHTS = {
+  semantic: 0.45,
+  lexical: 0.2,
+  crop: 0.12,
+  state: 0.1,
+  season: 0.08,
+  recency: 0.05,
+};
+
+// Relevance tiers on the combined score
+const HIGH_RELEVANCE_SCORE = 0.7;
+const MODERATE_RELEVANCE_SCORE = 0.45;
+
+// Common KCC crop labels that differ from the names farmers pick in their profile
+const CROP_ALIASES: Record<string, string[]> = {
+  rice: ['paddy', 'dhan'],
+  paddy: ['rice', 'dhan'],
+  bajra: ['pearl millet'],
+  jowar: ['sorghum'],
+  mustard: ['rapeseed', 'sarson'],
+  groundnut: ['peanut'],
+  pulses: ['gram', 'arhar', 'tur', 'moong', 'urd', 'lentil', 'masoor'],
+};
+
+const scoreBreakdownSchema = z.object({
+  semantic: z.number().describe('Vector similarity from the search backend'),
+  lexical: z.number().describe('Share of query keywords (BM25-weighted) found in the record'),
+  crop: z.number().describe('1 when the record crop matches the requested or profile crops, 0 when it differs, 0.5 when unknown'),
+  state: z.number().describe('1 when the record state matches the requested or profile state, 0 when it differs, 0.5 when unknown'),
+  season: z.number().describe('1 when the record season is the current season, 0 when it is another season, 0.5 when unknown'),
+  recency: z.number().describe('Decays with the age of the record (half-life of 4 years)'),
+});
+
+const dosageSchema = z.object({
+  activeIngredient: z.string(),
+  dose: z.number(),
+  unit: z.enum(['ml', 'l', 'g', 'kg']),
+  per: z.enum(['litre', 'tank', 'acre', 'hectare', 'kg-seed']),
+  perAcre: z.object({
+    value: z.number(),
+    unit: z.enum(['ml', 'l', 'g', 'kg']),
+    assumption: z.string().optional(),
+  }).optional().describe('Dose converted to an amount per acre'),
+  intervalDays: z.object({ min: z.number(), max: z.number() }).optional().describe('Spray/application repeat interval'),
+  waitingPeriodDays: z.number().optional().describe('Pre-harvest waiting period'),
+  text: z.string().describe('The dose as written in the answer'),
+});
+
+const kccResultSchema = z.object({
+  id: z.string(),
+  similarity: z.number(),
+  relevanceScore: z.number().describe('Weighted combination of the score breakdown, used for ordering'),
+  scoreBreakdown: scoreBreakdownSchema,
+  queryType: z.string(),
+  queryText: z.string(),
+  answer: z.string(),
+  createdOn: z.string(),
+  state: z.string().optional(),
+  district: z.string().optional(),
+  category: z.string().optional(),
+  crop: z.string().optional(),
+  season: z.string().optional(),
+  duplicates: z.object({
+    count: z.number().describe('Number of retrieved records giving this same advice, including this one'),
+    districts: z.array(z.string()),
+    states: z.array(z.string()),
+    memberIds: z.array(z.string()),
+    summary: z.string().describe('e.g. "Seen 14 times across 3 districts"'),
+  }),
+  dosages: z.array(dosageSchema).describe('Products, doses and timings extracted from the answer text (banned products removed)'),
+  products: z.array(z.object({
+    name: z.string().describe('As written: a trade name or the active ingredient'),
+    activeIngredient: z.string(),
+  })).describe('Every known product named in the answer, with or without a dose (banned products removed)'),
+  safetyFlags: z.array(z.object({
+    name: z.string(),
+    status: z.enum(['banned', 'restricted']),
+    since: z.number(),
+    notes: z.string(),
+    saferAlternatives: z.array(z.string()),
+  })).describe('Banned or restricted agrochemicals mentioned in the answer; the answer text is annotated inline'),
+});
 
-export const kccDatabaseTool = createTool({
+const kccToolOutputSchema = z.object({
+  totalFound: z.number(),
+  relevantResults: z.array(kccResultSchema),
+  searchSummary: z.string(),
+  recommendations: z.array(z.string()),
+  hasRelevantData: z.boolean(),
+  searchTime: z.string(),
+  appliedFilters: z.record(z.string()).describe('Filters actually applied to the search that produced these results'),
+  droppedFilters: z.array(z.string()).describe('Requested filters that were dropped because they returned too few results'),
+  dosageConflicts: z.array(z.object({
+    kind: z.enum(['dose', 'duplicate-active', 'tank-mix']),
+    activeIngredient: z.string().describe('For tank mixes, the two ingredients joined with " + "'),
+    resultIds: z.array(z.string()),
+    doses: z.array(z.string()),
+    products: z.array(z.string()),
+    reason: z.string(),
+  })).describe('Doses that disagree across results ("dose"), one active ingredient under several names ("duplicate-active") and products that must not be mixed ("tank-mix")'),
+});
+
+type KCCResult = z.infer<typeof kccResultSchema>;
+type KCCToolOutput = z.infer<typeof kccToolOutputSchema>;
+type ScoreBreakdown = z.infer<typeof scoreBreakdownSchema>;
+
+export const kccDatabaseTool = withToolCache(createTool({
   id: 'query-kcc-database',
   description: 'Query the Kisan Call Center database to retrieve relevant information from previous queries and answers. This tool should be called first for every user query to provide context and improve response accuracy.',
   inputSchema: z.object({
     query: z.string().describe('The user query to search for in the KCC database'),
-    topK: z.number().int().positive().optional().describe('Maximum number of results to return (default: 5)'),
+    topK: z.number().int().positive().max(MAX_TOP_K).optional().describe(`Maximum number of results to return (default: 5, at most ${MAX_TOP_K})`),
     stateName: z.string().optional().describe('Filter by state name'),
     districtName: z.string().optional().describe('Filter by district name'),
     category: z.string().optional().describe('Filter by category'),
     season: z.string().optional().describe('Filter by season (Kharif, Rabi, Summer)'),
     crop: z.string().optional().describe('Filter by crop name'),
   }),
-  outputSchema: z.object({
-    totalFound: z.number(),
-    relevantResults: z.array(z.object({
-      id: z.string(),
-      similarity: z.number(),
-      queryType: z.string(),
-      queryText: z.string(),
-      answer: z.string(),
-      createdOn: z.string(),
-      state: z.string().optional(),
-      district: z.string().optional(),
-      category: z.string().optional(),
-      crop: z.string().optional(),
-      season: z.string().optional(),
-    })),
-    searchSummary: z.string(),
-    recommendations: z.array(z.string()),
-    hasRelevantData: z.boolean(),
-    searchTime: z.string(),
-  }),
-  execute: async ({ context }) => {
-    return await queryKCCAPI(context);
+  outputSchema: kccToolOutputSchema,
+  execute: async ({ context, runtimeContext }) => {
+    return await queryKCCAPI(context, getUserContext(runtimeContext));
   },
+}), {
+  ttlMs: TOOL_CACHE_TTL.kcc,
+  // Re-ranking depends on the farmer's state and crops
+  keyExtras: ({ runtimeContext }) => {
+    const userContext = getUserContext(runtimeContext);
+    return { stateName: userContext?.stateName, crops: getUserCrops(userContext) };
+  },
+  shouldCache: result => !result.searchSummary.startsWith(KCC_ERROR_SUMMARY_PREFIX),
+  // Cached answers also tell the research source policy how well KCC matched
+  onResult: (result, { runtimeContext }) => recordKccRelevance(runtimeContext, result),
 });
 
 const queryKCCAPI = async (params: {
   query: string;
   topK?: number;
-}): Promise<{
-  totalFound: number;
-  relevantResults: Array<{
-    id: string;
-    similarity: number;
-    queryType: string;
-    queryText: string;
-    answer: string;
-    createdOn: string;
-    state?: string;
-    district?: string;
-    category?: string;
-    crop?: string;
-    season?: string;
-  }>;
-  searchSummary: string;
-  recommendations: string[];
-  hasRelevantData: boolean;
-  searchTime: string;
-}> => {
-  const topK = params.topK || 5;
+  stateName?: string;
+  districtName?: string;
+  category?: string;
+  season?: string;
+  crop?: string;
+}, userContext?: UserContext): Promise<KCCToolOutput> => {
+  const topK = Math.min(params.topK || 5, MAX_TOP_K);
+  const candidateCount = Math.min(Math.max(topK * CANDIDATE_MULTIPLIER, topK), MAX_CANDIDATES);
+  const requestedFilters = buildSearchFilters(params);
 
-  try {
-    // Build request body
-    const requestBody: any = {
-      query: params.query,
-      topK: topK,
-    };
+  let providerName = 'unknown';
 
-    // Make API call
-    const response = await fetch(`${KCC_API_BASE_URL}/api/search`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+  try {
+    const provider = getKccSearchProvider();
+    providerName = provider.name;
 
-    if (!response.ok) {
-      throw new Error(`API request failed with status ${response.status}: ${response.statusText}`);
-    }
+    // Search with all requested filters, then drop the tightest one while results are too thin
+    let appliedFilters: KCCSearchFilters = { ...requestedFilters };
+    const droppedFilters: string[] = [];
+    let apiResponse = await provider.search({ query: params.query, topK: candidateCount, filters: appliedFilters });
 
-    const apiResponse: KCCApiResponse = await response.json();
+    for (const key of FILTER_RELAXATION_ORDER) {
+      if (apiResponse.resultsCount >= Math.min(MIN_FILTERED_RESULTS, topK)) break;
+      if (!appliedFilters[key]) continue;
 
-    if (!apiResponse.success) {
-      throw new Error('API returned unsuccessful response');
+      appliedFilters = { ...appliedFilters };
+      delete appliedFilters[key];
+      droppedFilters.push(key);
+      apiResponse = await provider.search({ query: params.query, topK: candidateCount, filters: appliedFilters });
     }
 
-    // Process results
-    const processedResults = apiResponse.results.map((result: KCCApiResult) => ({
-      id: result.id,
-      similarity: result.similarity,
-      queryType: result.QueryType,
-      queryText: result.QueryText,
-      answer: result.KccAns,
-      createdOn: result.CreatedOn,
-      state: result.StateName || undefined,
-      district: result.DistrictName || undefined,
-      category: result.Category || undefined,
-      crop: result.Crop || undefined,
-      season: result.Season || undefined,
-    }));
+    // Re-rank candidates on semantic, lexical and context signals, then collapse repeated advice
+    // so each of the topK slots carries a distinct answer
+    const rankedResults = rerankResults(apiResponse.results, params, userContext);
+    const processedResults = collapseDuplicates(rankedResults).slice(0, topK).map(applySafetyGuard);
 
     // Generate search summary and recommendations
-    const searchSummary = `Found ${apiResponse.resultsCount} relevant records in KCC database for query: "${params.query}" in ${apiResponse.searchTime}. ${processedResults.length > 0 ? `Top result has ${Math.round(processedResults[0].similarity * 100)}% similarity.` : ''}`;
+    const filterSummary = describeFilters(appliedFilters, droppedFilters);
+    const searchSummary = `Found ${apiResponse.resultsCount} relevant records in KCC database for query: "${params.query}" in ${apiResponse.searchTime}. ${processedResults.length > 0 ? `Top result has ${Math.round(processedResults[0].relevanceScore * 100)}% relevance (${Math.round(processedResults[0].similarity * 100)}% similarity).` : ''}${filterSummary ? ` ${filterSummary}` : ''}`;
     
-    const recommendations = generateRecommendations(processedResults, params.query);
+    const dosageConflicts = [...findDosageConflicts(processedResults), ...findCombinationConflicts(processedResults)];
+    const recommendations = generateRecommendations(processedResults, dosageConflicts);
 
     return {
       totalFound: apiResponse.resultsCount,
@@ -143,14 +227,17 @@ const queryKCCAPI = async (params: {
       recommendations,
       hasRelevantData: apiResponse.resultsCount > 0,
       searchTime: apiResponse.searchTime,
+      appliedFilters: { ...appliedFilters },
+      droppedFilters,
+      dosageConflicts,
     };
 
   } catch (error) {
-    console.error('KCC API query error:', error);
+    console.error('KCC search error:', error);
     return {
       totalFound: 0,
       relevantResults: [],
-      searchSummary: `Error querying KCC API: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      searchSummary: `${KCC_ERROR_SUMMARY_PREFIX} (${providerName} provider): ${error instanceof Error ? error.message : 'Unknown error'}`,
       recommendations: [
         'API connection failed',
         'Check network connectivity',
@@ -158,35 +245,243 @@ const queryKCCAPI = async (params: {
       ],
       hasRelevantData: false,
       searchTime: '0ms',
+      appliedFilters: {},
+      droppedFilters: [],
+      dosageConflicts: [],
     };
   }
 };
 
-// Helper function to generate recommendations based on results
-function generateRecommendations(results: Array<{
-  id: string;
-  similarity: number;
-  queryType: string;
-  queryText: string;
-  answer: string;
-  createdOn: string;
-  state?: string;
-  district?: string;
+// Map tool inputs onto the field names used by the KCC search service
+function buildSearchFilters(params: {
+  stateName?: string;
+  districtName?: string;
   category?: string;
-  crop?: string;
   season?: string;
-}>, originalQuery: string): string[] {
+  crop?: string;
+}): KCCSearchFilters {
+  const filters: KCCSearchFilters = {};
+  if (params.stateName?.trim()) filters.StateName = params.stateName.trim();
+  if (params.districtName?.trim()) filters.DistrictName = params.districtName.trim();
+  if (params.category?.trim()) filters.Category = params.category.trim();
+  if (params.season?.trim()) filters.Season = params.season.trim();
+  if (params.crop?.trim()) filters.Crop = params.crop.trim();
+  return filters;
+}
+
+function describeFilters(applied: KCCSearchFilters, dropped: string[]): string {
+  const parts: string[] = [];
+  const appliedEntries = Object.entries(applied);
+  if (appliedEntries.length > 0) {
+    parts.push(`Filters applied: ${appliedEntries.map(([k, v]) => `${k}=${v}`).join(', ')}.`);
+  }
+  if (dropped.length > 0) {
+    parts.push(`Filters relaxed due to few matches: ${dropped.join(', ')}.`);
+  }
+  return parts.join(' ');
+}
+
+function rerankResults(
+  results: KCCApiResult[],
+  params: { query: string; stateName?: string; crop?: string },
+  userContext?: UserContext,
+): KCCResult[] {
+  const lexicalScores = scoreTexts(params.query, results.map(r => `${r.QueryText} ${r.KccAns} ${r.Crop ?? ''}`));
+  const targetCrops = params.crop ? [params.crop] : getUserCrops(userContext);
+  const targetState = params.stateName || userContext?.stateName;
+  const currentSeason = getCropSeason(new Date());
+
+  return results
+    .map((result, index) => {
+      const scoreBreakdown: ScoreBreakdown = {
+        semantic: clamp01(result.similarity),
+        lexical: lexicalScores[index]?.coverage ?? 0,
+        crop: scoreCropMatch(result.Crop, targetCrops),
+        state: scoreTextMatch(result.StateName, targetState),
+        season: scoreSeasonMatch(result.Season, currentSeason),
+        recency: scoreRecency(result.CreatedOn),
+      };
+      const relevanceScore = (Object.keys(RANKING_WEIGHTS) as Array<keyof ScoreBreakdown>).reduce(
+        (sum, key) => sum + RANKING_WEIGHTS[key] * scoreBreakdown[key],
+        0,
+      );
+
+      return {
+        id: result.id,
+        similarity: result.similarity,
+        relevanceScore: round3(relevanceScore),
+        scoreBreakdown: {
+          semantic: round3(scoreBreakdown.semantic),
+          lexical: round3(scoreBreakdown.lexical),
+          crop: scoreBreakdown.crop,
+          state: scoreBreakdown.state,
+          season: scoreBreakdown.season,
+          recency: round3(scoreBreakdown.recency),
+        },
+        queryType: result.QueryType,
+        queryText: result.QueryText,
+        answer: result.KccAns,
+        createdOn: result.CreatedOn,
+        state: result.StateName || undefined,
+        district: result.DistrictName || undefined,
+        category: result.Category || undefined,
+        crop: result.Crop || undefined,
+        season: result.Season || undefined,
+        duplicates: {
+          count: 1,
+          districts: result.DistrictName ? [result.DistrictName] : [],
+          states: result.StateName ? [result.StateName] : [],
+          memberIds: [result.id],
+          summary: 'Seen once',
+        },
+        dosages: parseDosages(result.KccAns),
+        products: findProductMentions(result.KccAns),
+        safetyFlags: [],
+      };
+    })
+    .sort((a, b) => b.relevanceScore - a.relevanceScore);
+}
+
+function collapseDuplicates(results: KCCResult[]): KCCResult[] {
+  return clusterByAnswer(results).map(cluster => {
+    const districts = [...new Set(cluster.members.map(m => m.district).filter((d): d is string => !!d))];
+    const states = [...new Set(cluster.members.map(m => m.state).filter((s): s is string => !!s))];
+    return {
+      ...cluster.representative,
+      duplicates: {
+        count: cluster.members.length,
+        districts,
+        states,
+        memberIds: cluster.members.map(m => m.id),
+        summary: describeCluster(cluster),
+      },
+    };
+  });
+}
+
+// Annotate banned/restricted agrochemicals in the answer and keep banned products out of the dosage table
+function applySafetyGuard(result: KCCResult): KCCResult {
+  const { text, findings } = annotateRestrictedAgrochemicals(result.answer);
+  if (findings.length === 0) return result;
+
+  logSafetyIntervention({
+    source: 'kcc-tool',
+    action: 'annotated',
+    reference: result.id,
+    findings: findings.map(({ name, status, matchedText }) => ({ name, status, matchedText })),
+  });
+
+  return {
+    ...result,
+    answer: text,
+    dosages: result.dosages.filter(d => !isBannedAgrochemical(d.activeIngredient)),
+    products: result.products.filter(p => !isBannedAgrochemical(p.activeIngredient)),
+    safetyFlags: findings.map(({ name, status, since, notes, saferAlternatives }) => ({
+      name,
+      status,
+      since,
+      notes,
+      saferAlternatives,
+    })),
+  };
+}
+
+// "Bengal Gram (gram)(whole)" → ["bengal gram", "gram", "whole"]
+function cropNames(crop: string): string[] {
+  const inner = [...crop.matchAll(/\(([^)]*)\)/g)].map(match => match[1]);
+  return [crop.replace(/\(.*?\)/g, ' '), ...inner]
+    .map(name => name.toLowerCase().replace(/[^a-z]+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * A record matches when one of its names is the crop ("gram" ↔ "Bengal Gram (gram)") or
+ * starts with it ("paddy" ↔ "Paddy Dhan"). A crop word later in the name is another crop:
+ * "gram" is not "Black Gram", "pea" is not "Pigeon Pea" or "Peach".
+ */
+function scoreCropMatch(recordCrop: string, targetCrops: string[]): number {
+  if (!recordCrop || targetCrops.length === 0) return 0.5;
+  const recordNames = cropNames(recordCrop);
+  const matches = targetCrops.some(target => {
+    const base = cropNames(target)[0] ?? '';
+    const names = [base, ...(CROP_ALIASES[base] || [])].filter(Boolean);
+    return names.some(name => recordNames.some(record => record === name || record.startsWith(`${name} `)));
+  });
+  return matches ? 1 : 0;
+}
+
+function scoreTextMatch(recordValue: string, target?: string): number {
+  if (!recordValue || !target) return 0.5;
+  return recordValue.trim().toLowerCase() === target.trim().toLowerCase() ? 1 : 0;
+}
+
+type CropSeason = 'kharif' | 'rabi' | 'summer';
+
+// Indian cropping seasons: Kharif Jun-Oct, Rabi Nov-Feb, Summer (Zaid) Mar-May
+function getCropSeason(date: Date): CropSeason {
+  const month = date.getMonth() + 1;
+  if (month >= 6 && month <= 10) return 'kharif';
+  if (month >= 3 && month <= 5) return 'summer';
+  return 'rabi';
+}
+
+function scoreSeasonMatch(recordSeason: string, currentSeason: CropSeason): number {
+  // The remote API returns null for records without a season
+  if (!recordSeason) return 0.5;
+  const season = recordSeason.toLowerCase();
+  let normalized: CropSeason | null = null;
+  if (season.includes('kharif')) normalized = 'kharif';
+  else if (season.includes('rabi')) normalized = 'rabi';
+  else if (season.includes('summer') || season.includes('zaid') || season.includes('jayad')) normalized = 'summer';
+  if (!normalized) return 0.5;
+  return normalized === currentSeason ? 1 : 0;
+}
+
+function scoreRecency(createdOn: string): number {
+  const created = Date.parse(createdOn);
+  if (Number.isNaN(created)) return 0.5;
+  const ageYears = Math.max(0, (Date.now() - created) / (365.25 * 24 * 60 * 60 * 1000));
+  return Math.pow(0.5, ageYears / 4);
+}
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(1, Math.max(0, value));
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Helper function to generate recommendations based on results
+function generateRecommendations(results: KCCResult[], dosageConflicts: KCCToolOutput['dosageConflicts']): string[] {
   const recommendations: string[] = [];
   
   if (results.length > 0) {
     const topResult = results[0];
     
-    if (topResult.similarity && topResult.similarity > 0.8) {
-      recommendations.push('High similarity match found in KCC database - use this as primary reference');
-    } else if (topResult.similarity && topResult.similarity > 0.5) {
-      recommendations.push('Moderate similarity match found - combine with current research');
+    if (topResult.relevanceScore >= HIGH_RELEVANCE_SCORE) {
+      recommendations.push('High relevance match found in KCC database - use this as primary reference');
+    } else if (topResult.relevanceScore >= MODERATE_RELEVANCE_SCORE) {
+      recommendations.push('Moderate relevance match found - combine with current research');
     } else {
-      recommendations.push('Low similarity matches found - supplement with current information');
+      recommendations.push('Low relevance matches found - supplement with current information');
+    }
+
+    const flagged = [...new Set(results.flatMap(r => r.safetyFlags.map(f => `${f.name} (${f.status})`)))];
+    if (flagged.length > 0) {
+      recommendations.push(`Some answers mention banned or restricted products: ${flagged.join(', ')} - never recommend these; use the listed safer alternatives`);
+    }
+
+    if (topResult.duplicates.count > 1) {
+      recommendations.push(`Top advice is well established: ${topResult.duplicates.summary.toLowerCase()}`);
+    }
+
+    if (topResult.scoreBreakdown.crop === 0) {
+      recommendations.push('Top match is for a different crop than the farmer grows - adapt with care');
+    }
+    if (topResult.scoreBreakdown.state === 0) {
+      recommendations.push('Top match comes from another state - check that it suits local conditions');
     }
     
     if (topResult.crop) {
@@ -206,6 +501,18 @@ function generateRecommendations(results: Array<{
     }
   }
   
+  if (results.some(r => r.dosages.length > 0)) {
+    recommendations.push(`Dosages extracted; per-acre amounts for per-litre doses assume ${SPRAY_VOLUME_LITRES_PER_ACRE} litres of spray per acre`);
+  }
+
+  for (const conflict of dosageConflicts) {
+    if (conflict.kind === 'dose') {
+      recommendations.push(`Conflicting ${conflict.activeIngredient} doses across answers (${conflict.doses.join(', ')}) - advise the label dose or the local agriculture officer`);
+    } else {
+      recommendations.push(`Do not combine ${conflict.products.join(' and ')}: ${conflict.reason}`);
+    }
+  }
+
   recommendations.push('Always verify current conditions with weather and market data');
   recommendations.push('Consider using additional research tools for the most up-to-date information');
   
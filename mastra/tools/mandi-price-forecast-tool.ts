@@ -0,0 +1,46 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { forecastMandiPrice } from '../services/mandi-price-forecast';
+
+export const mandiPriceForecastTool = createTool({
+  id: 'forecast-mandi-price',
+  description: 'Forecast the weekly modal price of a commodity 1-4 weeks ahead, with 80% confidence bands, from stored mandi price history. Use when a farmer asks whether to sell now or hold. Returns status "insufficient-history" when there is not enough data - never invent numbers in that case.',
+  inputSchema: z.object({
+    commodity: z.string().describe('Commodity name exactly as in the mandi index (e.g., "Wheat", "Onion")'),
+    state: z.string().optional().describe('State name'),
+    district: z.string().optional().describe('District name'),
+    market: z.string().optional().describe('Market/mandi name'),
+    variety: z.string().optional().describe('Commodity variety'),
+    weeks: z.number().int().min(1).max(4).optional().describe('Forecast horizon in weeks (1-4, default: 4)'),
+  }),
+  outputSchema: z.object({
+    commodity: z.string(),
+    filters: z.object({
+      state: z.string().optional(),
+      district: z.string().optional(),
+      market: z.string().optional(),
+      variety: z.string().optional(),
+    }),
+    status: z.enum(['ok', 'insufficient-history']),
+    reason: z.string().optional(),
+    model: z.enum(['holt-damped', 'seasonal-naive']).nullable(),
+    history: z.object({
+      weeks: z.number(),
+      firstDate: z.string().optional(),
+      lastDate: z.string().optional(),
+    }),
+    latestModalPrice: z.number().nullable(),
+    forecast: z.array(z.object({
+      week: z.number(),
+      weekEnding: z.string(),
+      modalPrice: z.number(),
+      lower80: z.number(),
+      upper80: z.number(),
+    })),
+    outlook: z.enum(['rising', 'falling', 'stable', 'unknown']),
+  }),
+  execute: async ({ context }) => {
+    const { weeks, ...filter } = context;
+    return await forecastMandiPrice(filter, weeks);
+  },
+});
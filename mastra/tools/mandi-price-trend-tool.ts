@@ -0,0 +1,51 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getMandiPriceTrend } from '../services/mandi-price-history';
+
+const pricePointSchema = z.object({
+  date: z.string(),
+  modalPrice: z.number(),
+  markets: z.number().describe('Number of market/variety records behind this day\'s median'),
+});
+
+export const mandiPriceTrendTool = createTool({
+  id: 'get-mandi-price-trend',
+  description: 'Get the stored price history of a commodity: 7/30/90-day modal price series, percent change, same week last year and volatility. Use this to judge whether the current price is good or whether waiting may pay off.',
+  inputSchema: z.object({
+    commodity: z.string().describe('Commodity name exactly as in the mandi index (e.g., "Wheat", "Tomato")'),
+    state: z.string().optional().describe('State name'),
+    district: z.string().optional().describe('District name'),
+    market: z.string().optional().describe('Market/mandi name'),
+    variety: z.string().optional().describe('Commodity variety'),
+  }),
+  outputSchema: z.object({
+    commodity: z.string(),
+    filters: z.object({
+      state: z.string().optional(),
+      district: z.string().optional(),
+      market: z.string().optional(),
+      variety: z.string().optional(),
+    }),
+    hasHistory: z.boolean().describe('False when no price history has been collected for these filters yet'),
+    dataPoints: z.number(),
+    firstDate: z.string().optional(),
+    latest: pricePointSchema.optional(),
+    windows: z.array(z.object({
+      days: z.union([z.literal(7), z.literal(30), z.literal(90)]),
+      series: z.array(pricePointSchema),
+      percentChange: z.number().nullable().describe('Change from the first to the latest modal price in the window, in percent'),
+    })),
+    sameWeekLastYear: z.object({
+      thisWeekAverage: z.number().nullable(),
+      lastYearAverage: z.number().nullable(),
+      percentChange: z.number().nullable(),
+    }),
+    volatility: z.object({
+      dailyChangeStdDevPercent: z.number().nullable(),
+      level: z.enum(['low', 'moderate', 'high', 'unknown']),
+    }),
+  }),
+  execute: async ({ context }) => {
+    return await getMandiPriceTrend(context);
+  },
+});
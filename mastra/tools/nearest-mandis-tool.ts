@@ -0,0 +1,57 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { TOOL_CACHE_TTL, withToolCache } from '../services/tool-cache';
+import { getUserContext } from '../services/user-context';
+import { DEFAULT_NEAREST_MANDI_LIMIT, MAX_NEAREST_MANDI_LIMIT, findNearestMandis } from '../services/mandi-locator';
+
+export const nearestMandisTool = withToolCache(createTool({
+  id: 'find-nearest-mandis',
+  description: 'Find the mandis (markets) nearest to the farmer, with distance, the latest modal price of a commodity at each and the net price after transport cost. Use this for "where should I sell" questions.',
+  inputSchema: z.object({
+    commodity: z.string().optional().describe('Commodity name exactly as in the mandi index (e.g., "Wheat", "Tomato"); omit to list markets only'),
+    latitude: z.number().optional().describe('Farmer latitude; defaults to the user context location'),
+    longitude: z.number().optional().describe('Farmer longitude; defaults to the user context location'),
+    limit: z.number().min(1).max(MAX_NEAREST_MANDI_LIMIT).optional().describe(`Number of markets to return (default: ${DEFAULT_NEAREST_MANDI_LIMIT})`),
+    transportCostPerKm: z.number().min(0).optional().describe('Transport cost in rupees per quintal per km of road'),
+  }),
+  outputSchema: z.object({
+    commodity: z.string().optional(),
+    transportCostPerKm: z.number(),
+    markets: z.array(z.object({
+      market: z.string(),
+      district: z.string(),
+      state: z.string(),
+      latitude: z.number(),
+      longitude: z.number(),
+      distanceKm: z.number().describe('Straight-line distance'),
+      roadDistanceKm: z.number().describe('Estimated road distance used for the transport cost'),
+      latestPrice: z.object({
+        date: z.string(),
+        modalPrice: z.number(),
+        minPrice: z.number().optional(),
+        maxPrice: z.number().optional(),
+        source: z.enum(['live', 'history']),
+      }).nullable().describe('Null when the market has no recent price for the commodity'),
+      transportCost: z.number().describe('Rupees per quintal'),
+      netPrice: z.number().nullable().describe('Modal price minus transport cost, in rupees per quintal'),
+    })),
+    bestNetPrice: z.object({ market: z.string(), netPrice: z.number() }).nullable(),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    const userContext = getUserContext(runtimeContext);
+    const latitude = context.latitude ?? userContext?.latitude;
+    const longitude = context.longitude ?? userContext?.longitude;
+
+    if (latitude === undefined || longitude === undefined) {
+      throw new Error('Farmer location is not available; ask the farmer for their village or nearest town');
+    }
+
+    return await findNearestMandis({ ...context, latitude, longitude });
+  },
+}), {
+  ttlMs: TOOL_CACHE_TTL.mandi,
+  keyExtras: ({ runtimeContext }) => {
+    const userContext = getUserContext(runtimeContext);
+    return { latitude: userContext?.latitude, longitude: userContext?.longitude };
+  },
+});
@@ -1,36 +1,43 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import axios from 'axios';
+import { checkResearchPolicy, uniqueSources, type ResearchSource } from '../services/source-policy';
+
+const researchReasonSchema = z.enum(['low-kcc-relevance', 'time-sensitive']);
 
 export const perplexityResearch = createTool({
   id: 'perplexity-research',
-  description: 'Research topics using Perplexity AI for real-time web data',
+  description: 'Research real-time web data (market reports, schemes, outbreaks) using Perplexity AI. Only for questions KCC cannot answer (low KCC relevance) or time-sensitive topics.',
   inputSchema: z.object({
     query: z.string().describe('Research query or topic'),
+    reason: researchReasonSchema.describe('low-kcc-relevance: KCC search found nothing close; time-sensitive: new schemes, outbreaks, bans, announcements or current market reports'),
     maxResults: z.number().optional().default(5)
   }),
   outputSchema: z.object({
+    status: z.enum(['ok', 'skipped', 'unavailable']).describe('skipped: the source policy did not allow web research; unavailable: research service not configured or failed'),
     research: z.string(),
-    sources: z.array(z.string()),
-    keyInsights: z.array(z.string())
+    sources: z.array(z.object({ url: z.string(), title: z.string() })).describe('Web pages the research cites; cite them'),
+    keyInsights: z.array(z.string()),
+    policy: z.object({
+      allowed: z.boolean(),
+      reason: researchReasonSchema,
+      detail: z.string(),
+    }),
   }),
-  execute: async ({ context }) => {
-    const { query } = context;
-  
-    try {
-      // If no Perplexity API key is provided, use a mock research response
-      if (!process.env.PERPLEXITY_API_KEY) {
-        return {
-          research: `Research on "${query}": This is a mock research response since no Perplexity API key is configured. In a real implementation, this would contain comprehensive research data from Perplexity AI.`,
-          sources: ['https://example.com/source1', 'https://example.com/source2'],
-          keyInsights: [
-            'Key insight 1 about the topic',
-            'Important trend related to the query',
-            'Actionable takeaway for content creation'
-          ]
-        };
-      }
+  execute: async ({ context, runtimeContext }) => {
+    const { query, reason, maxResults } = context;
+
+    const policy = checkResearchPolicy({ reason }, runtimeContext);
+    if (!policy.allowed) {
+      return { status: 'skipped' as const, research: policy.detail, sources: [], keyInsights: [], policy };
+    }
+
+    // Never make up research or sources; the agent answers from KCC instead
+    if (!process.env.PERPLEXITY_API_KEY) {
+      return { status: 'unavailable' as const, research: 'Web research is not configured (PERPLEXITY_API_KEY is missing).', sources: [], keyInsights: [], policy };
+    }
 
+    try {
       const response = await axios.post('https://api.perplexity.ai/chat/completions', {
         model: 'sonar-pro',
         messages: [
@@ -53,27 +60,30 @@ export const perplexityResearch = createTool({
       });
 
       const content = response.data.choices[0].message.content;
-    
+
       return {
+        status: 'ok' as const,
         research: content,
-        sources: extractSources(content),
-        keyInsights: extractKeyInsights(content)
+        sources: extractSources(response.data, content).slice(0, maxResults),
+        keyInsights: extractKeyInsights(content),
+        policy
       };
     } catch (error) {
       console.error('Perplexity API error:', error);
-      // Fallback to mock data if API fails
-      return {
-        research: `Research on "${query}": API request failed, using fallback research data. This would contain real research in production.`,
-        sources: ['https://example.com/fallback'],
-        keyInsights: ['Fallback insight about the topic']
-      };
+      return { status: 'unavailable' as const, research: 'Web research failed; answer from KCC and say recent information could not be checked.', sources: [], keyInsights: [], policy };
     }
   }
 });
 
-function extractSources(content: string): string[] {
-  const urlRegex = /https?:\/\/[^\s)]+/g;
-  return content.match(urlRegex) || [];
+// Prefer the structured search results, then the citation list, then URLs in the text
+function extractSources(data: { search_results?: Array<{ url?: string; title?: string }>; citations?: string[] }, content: string): ResearchSource[] {
+  const fromResults = (data.search_results || [])
+    .filter(result => result.url)
+    .map(result => ({ url: result.url!, title: result.title || result.url! }));
+  const fromCitations = (data.citations || []).map(url => ({ url, title: url }));
+  const urlRegex = /https?:\/\/[^\s)\]]+/g;
+  const fromText = (content.match(urlRegex) || []).map(url => ({ url, title: url }));
+  return uniqueSources([...fromResults, ...fromCitations, ...fromText]);
 }
 
 function extractKeyInsights(content: string): string[] {
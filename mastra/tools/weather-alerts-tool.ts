@@ -0,0 +1,57 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { TOOL_CACHE_TTL, withToolCache } from '../services/tool-cache';
+import { getUserContext, getUserCrops } from '../services/user-context';
+import { ALERT_FORECAST_DAYS, PROTECTIVE_ACTIONS, WEATHER_HAZARDS, getWeatherAlerts } from '../services/weather-alerts';
+
+export const weatherAlertsTool = withToolCache(createTool({
+  id: 'get-weather-alerts',
+  description: `Check the next ${ALERT_FORECAST_DAYS} days for severe weather (heavy rain, hailstorm, heat wave, cold wave, strong gusts) at a location, with the farmer's crops at risk and protective steps. Use this when the farmer asks about weather risks, storms or how to protect crops.`,
+  inputSchema: z.object({
+    location: z.string().optional().describe('City name only - no state codes, country names, or extra details'),
+    latitude: z.number().optional().describe('Latitude; defaults to the user context location'),
+    longitude: z.number().optional().describe('Longitude; defaults to the user context location'),
+    crops: z.array(z.string()).optional().describe("Crops to match alerts against; defaults to the farmer's main crops"),
+  }),
+  outputSchema: z.object({
+    location: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
+    // Hazard and action keys are language-neutral; explain them in the farmer's language
+    alerts: z.array(z.object({
+      id: z.string(),
+      hazard: z.enum(WEATHER_HAZARDS),
+      severity: z.enum(['warning', 'severe']),
+      startDate: z.string(),
+      endDate: z.string(),
+      peak: z.object({
+        value: z.number(),
+        unit: z.enum(['mm', '°C', 'km/h']),
+      }).nullable().describe('Worst day: rain total, max temperature (heat), min temperature (cold) or gust speed'),
+      affectedCrops: z.array(z.string()),
+      actions: z.array(z.enum(PROTECTIVE_ACTIONS)).describe('Protective steps, general ones first'),
+    })),
+  }),
+  execute: async ({ context, runtimeContext }) => {
+    const userContext = getUserContext(runtimeContext);
+    // A named place wins over the stored coordinates
+    const useStored = !context.location && context.latitude === undefined;
+    return await getWeatherAlerts({
+      location: context.location || userContext?.cityName,
+      latitude: useStored ? userContext?.latitude : context.latitude,
+      longitude: useStored ? userContext?.longitude : context.longitude,
+      crops: context.crops?.length ? context.crops : getUserCrops(userContext),
+    });
+  },
+}), {
+  ttlMs: TOOL_CACHE_TTL.weather,
+  keyExtras: ({ runtimeContext }) => {
+    const userContext = getUserContext(runtimeContext);
+    return {
+      latitude: userContext?.latitude,
+      longitude: userContext?.longitude,
+      cityName: userContext?.cityName,
+      crops: getUserCrops(userContext),
+    };
+  },
+});
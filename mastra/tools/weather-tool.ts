@@ -1,68 +1,84 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
+import { TOOL_CACHE_TTL, withToolCache } from '../services/tool-cache';
+import { getUserContext, getUserCrops } from '../services/user-context';
+import { FIELD_OPERATIONS, MAX_HOURLY_HOURS } from '../services/agronomic-indices';
+import { getWeather } from '../services/weather-service';
+import { WEATHER_CONDITIONS } from '../../lib/weather-conditions';
 
-interface GeocodingResponse {
-  results: {
-    latitude: number;
-    longitude: number;
-    name: string;
-  }[];
-}
-interface WeatherResponse {
-  current: {
-    time: string;
-    temperature_2m: number;
-    apparent_temperature: number;
-    relative_humidity_2m: number;
-    wind_speed_10m: number;
-    wind_gusts_10m: number;
-    weather_code: number;
-  };
-  daily: {
-    time: string[];
-    temperature_2m_max: number[];
-    temperature_2m_min: number[];
-    apparent_temperature_max: number[];
-    apparent_temperature_min: number[];
-    precipitation_sum: number[];
-    precipitation_probability_max: number[];
-    wind_speed_10m_max: number[];
-    wind_gusts_10m_max: number[];
-    weather_code: number[];
-  };
-}
+const sprayWindowSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  hours: z.number(),
+});
+
+const agronomySchema = z.object({
+  spray: z.object({
+    suitable: z.boolean(),
+    suitableHours: z.number(),
+    windows: z.array(sprayWindowSchema),
+    bestWindow: sprayWindowSchema.nullable(),
+  }).describe('Daylight hours with wind 3-15 km/h, humidity 40-90% and no rain in the next 6 hours'),
+  growingDegreeDays: z.array(z.object({
+    crop: z.string(),
+    baseTemp: z.number(),
+    gdd: z.number(),
+  })).describe("Growing degree days for the farmer's crops"),
+  et0: z.number().nullable().describe('Reference evapotranspiration (FAO-56), mm/day'),
+  heatStress: z.boolean().describe('Max temperature at or above 35°C'),
+  frostRisk: z.boolean().describe('Min temperature at or below 2°C'),
+  diseaseFavourable: z.boolean().describe('10+ leaf-wet hours at 15-30°C mean temperature'),
+  leafWetnessHours: z.number(),
+});
+
+const operationWindowSchema = sprayWindowSchema.extend({
+  date: z.string(),
+  day: z.enum(['today', 'tomorrow']),
+});
 
-interface DailyForecast {
-  date: string;
-  maxTemp: number;
-  minTemp: number;
-  maxFeelsLike: number;
-  minFeelsLike: number;
-  precipitation: number;
-  precipitationChance: number;
-  maxWindSpeed: number;
-  maxWindGust: number;
-  conditions: string;
-}
+const hourlySchema = z.object({
+  hours: z.array(z.object({
+    time: z.string(),
+    temperature: z.number(),
+    humidity: z.number(),
+    precipitation: z.number(),
+    precipitationChance: z.number(),
+    windSpeed: z.number(),
+  })),
+  bestWindows: z.array(z.object({
+    operation: z.enum(FIELD_OPERATIONS),
+    windows: z.array(operationWindowSchema),
+    best: operationWindowSchema.nullable(),
+  })),
+}).describe('Hour-by-hour forecast from now, with the windows today and tomorrow that suit each field operation');
 
-export const weatherTool = createTool({
+// Condition keys are language-neutral; reply to the farmer in their own words and language
+const conditionSchema = z.enum(WEATHER_CONDITIONS);
+
+export const weatherTool = withToolCache(createTool({
   id: 'get-weather-forecast',
   description: 'Get 7-day weather forecast for a location. Can use coordinates (lat/lng) for current location or city name for other locations.',
   inputSchema: z.object({
     location: z.string().optional().describe('City name only - no state codes, country names, or extra details'),
     latitude: z.number().optional().describe('Latitude coordinate for precise location'),
     longitude: z.number().optional().describe('Longitude coordinate for precise location'),
-    useCurrentLocation: z.boolean().optional().describe('Whether to use user current location coordinates')
+    useCurrentLocation: z.boolean().optional().describe('Whether to use user current location coordinates'),
+    crops: z.array(z.string()).optional().describe("Crops to compute growing degree days for; defaults to the farmer's main crops"),
+    granularity: z.enum(['daily', 'hourly']).optional().describe('Use "hourly" for spray, irrigation, harvest or drying timing today/tomorrow'),
+    operation: z.enum(FIELD_OPERATIONS).optional().describe('Field operation to find the best hourly windows for; all operations when omitted'),
+    hours: z.number().min(24).max(MAX_HOURLY_HOURS).optional().describe('Hours of hourly forecast to return (default 48, max 72)'),
   }),
   outputSchema: z.object({
     location: z.string(),
+    latitude: z.number(),
+    longitude: z.number(),
     currentWeather: z.object({
       temperature: z.number(),
       feelsLike: z.number(),
       humidity: z.number(),
       windSpeed: z.number(),
       windGust: z.number(),
-      conditions: z.string(),
+      conditions: conditionSchema,
     }),
     forecast: z.array(z.object({
       date: z.string(),
@@ -74,135 +90,25 @@ export const weatherTool = createTool({
       precipitationChance: z.number(),
       maxWindSpeed: z.number(),
       maxWindGust: z.number(),
-      conditions: z.string(),
+      conditions: conditionSchema,
+      agronomy: agronomySchema,
     })),
+    hourly: hourlySchema.optional(),
   }),
-  execute: async ({ context }) => {
-    // If coordinates are provided, use them directly
-    if (context.latitude && context.longitude) {
-      return await getWeatherByCoordinates(context.latitude, context.longitude);
-    }
-    // Otherwise, use location name
-    if (context.location) {
-      return await getWeatherForecast(context.location);
-    }
-    throw new Error('Either location name or coordinates (latitude/longitude) must be provided');
+  execute: async ({ context, runtimeContext }) => {
+    // Coordinates win over the location name when both are given
+    return await getWeather({
+      location: context.location,
+      latitude: context.latitude,
+      longitude: context.longitude,
+      crops: context.crops?.length ? context.crops : getUserCrops(getUserContext(runtimeContext)),
+      granularity: context.granularity,
+      hours: context.hours,
+      operation: context.operation,
+    });
   },
+}), {
+  ttlMs: TOOL_CACHE_TTL.weather,
+  // Growing degree days depend on the farmer's crops
+  keyExtras: ({ runtimeContext }) => getUserCrops(getUserContext(runtimeContext)),
 });
-
-const getWeatherForecast = async (location: string) => {
-  // Clean the location input to extract only the city name
-  const cleanLocation = location.split(',')[0].trim();
-  
-  const geocodingUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(cleanLocation)}&count=1`;
-  const geocodingResponse = await fetch(geocodingUrl);
-  const geocodingData = (await geocodingResponse.json()) as GeocodingResponse;
-
-  if (!geocodingData.results?.[0]) {
-    throw new Error(`Location '${cleanLocation}' not found. Please provide only the city name.`);
-  }
-
-  const { latitude, longitude, name } = geocodingData.results[0];
-
-  // Get both current weather and 7-day forecast
-  const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code&daily=temperature_2m_max,temperature_2m_min,apparent_temperature_max,apparent_temperature_min,precipitation_sum,precipitation_probability_max,wind_speed_10m_max,wind_gusts_10m_max,weather_code&timezone=auto&forecast_days=7`;
-
-  const response = await fetch(weatherUrl);
-  const data = (await response.json()) as WeatherResponse;
-
-  // Process daily forecast
-  const forecast: DailyForecast[] = data.daily.time.map((date, index) => ({
-    date,
-    maxTemp: data.daily.temperature_2m_max[index],
-    minTemp: data.daily.temperature_2m_min[index],
-    maxFeelsLike: data.daily.apparent_temperature_max[index],
-    minFeelsLike: data.daily.apparent_temperature_min[index],
-    precipitation: data.daily.precipitation_sum[index],
-    precipitationChance: data.daily.precipitation_probability_max[index],
-    maxWindSpeed: data.daily.wind_speed_10m_max[index],
-    maxWindGust: data.daily.wind_gusts_10m_max[index],
-    conditions: getWeatherCondition(data.daily.weather_code[index]),
-  }));
-
-  return {
-    location: name,
-    currentWeather: {
-      temperature: data.current.temperature_2m,
-      feelsLike: data.current.apparent_temperature,
-      humidity: data.current.relative_humidity_2m,
-      windSpeed: data.current.wind_speed_10m,
-      windGust: data.current.wind_gusts_10m,
-      conditions: getWeatherCondition(data.current.weather_code),
-    },
-    forecast,
-  };
-};
-
-const getWeatherByCoordinates = async (latitude: number, longitude: number) => {
-  // Get both current weather and 7-day forecast using coordinates
-  const weatherUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,apparent_temperature,relative_humidity_2m,wind_speed_10m,wind_gusts_10m,weather_code&daily=temperature_2m_max,temperature_2m_min,apparent_temperature_max,apparent_temperature_min,precipitation_sum,precipitation_probability_max,wind_speed_10m_max,wind_gusts_10m_max,weather_code&timezone=auto&forecast_days=7`;
-
-  const response = await fetch(weatherUrl);
-  const data = (await response.json()) as WeatherResponse;
-
-  // Process daily forecast
-  const forecast: DailyForecast[] = data.daily.time.map((date, index) => ({
-    date,
-    maxTemp: data.daily.temperature_2m_max[index],
-    minTemp: data.daily.temperature_2m_min[index],
-    maxFeelsLike: data.daily.apparent_temperature_max[index],
-    minFeelsLike: data.daily.apparent_temperature_min[index],
-    precipitation: data.daily.precipitation_sum[index],
-    precipitationChance: data.daily.precipitation_probability_max[index],
-    maxWindSpeed: data.daily.wind_speed_10m_max[index],
-    maxWindGust: data.daily.wind_gusts_10m_max[index],
-    conditions: getWeatherCondition(data.daily.weather_code[index]),
-  }));
-
-  return {
-    location: `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
-    currentWeather: {
-      temperature: data.current.temperature_2m,
-      feelsLike: data.current.apparent_temperature,
-      humidity: data.current.relative_humidity_2m,
-      windSpeed: data.current.wind_speed_10m,
-      windGust: data.current.wind_gusts_10m,
-      conditions: getWeatherCondition(data.current.weather_code),
-    },
-    forecast,
-  };
-};
-
-function getWeatherCondition(code: number): string {
-  const conditions: Record<number, string> = {
-    0: 'Clear sky',
-    1: 'Mainly clear',
-    2: 'Partly cloudy',
-    3: 'Overcast',
-    45: 'Foggy',
-    48: 'Depositing rime fog',
-    51: 'Light drizzle',
-    53: 'Moderate drizzle',
-    55: 'Dense drizzle',
-    56: 'Light freezing drizzle',
-    57: 'Dense freezing drizzle',
-    61: 'Slight rain',
-    63: 'Moderate rain',
-    65: 'Heavy rain',
-    66: 'Light freezing rain',
-    67: 'Heavy freezing rain',
-    71: 'Slight snow fall',
-    73: 'Moderate snow fall',
-    75: 'Heavy snow fall',
-    77: 'Snow grains',
-    80: 'Slight rain showers',
-    81: 'Moderate rain showers',
-    82: 'Violent rain showers',
-    85: 'Slight snow showers',
-    86: 'Heavy snow showers',
-    95: 'Thunderstorm',
-    96: 'Thunderstorm with slight hail',
-    99: 'Thunderstorm with heavy hail',
-  };
-  return conditions[code] || 'Unknown';
-}
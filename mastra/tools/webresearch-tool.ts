@@ -1,21 +1,23 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
+import { checkResearchPolicy, uniqueSources, type ResearchSource } from "../services/source-policy";
 
 /**
  * ENV required:
  *   GOOGLE_GENERATIVE_AI_API_KEY
  *
  * Example usage:
- * const result = await googleSearchGeminiTool.execute({
+ * const result = await webResearch.execute({
  *   context: {
- *     prompt: "Weather today in Kothri",
- *     model: "gemini-1.5-flash",
+ *     prompt: "PM-KISAN installment date this year",
+ *     reason: "time-sensitive",
+ *     model: "gemini-2.5-flash",
  *     useGoogleSearch: true,
  *     dynamicThreshold: 0.7
- *   }
+ *   },
+ *   runtimeContext
  * });
- * console.log(result.text);
- * console.dir(result.response, { depth: null });
+ * console.log(result.text, result.sources);
  */
 
 /* =========================
@@ -61,13 +63,18 @@ const InputSchema = z.object({
   // Primary convenience input
   prompt: z.string().min(1).describe("Single-turn text prompt."),
 
+  // Why KCC is not enough; checked against the source policy before any call
+  reason: z
+    .enum(["low-kcc-relevance", "time-sensitive"])
+    .describe("low-kcc-relevance: KCC search found nothing close; time-sensitive: new schemes, outbreaks, bans or announcements"),
+
   // Optional: override model
-  model: z.string().default("gemini-1.5-flash"),
+  model: z.string().default("gemini-2.5-flash"),
 
-  // Enable Google Search grounding (dynamic retrieval)
+  // Enable Google Search grounding
   useGoogleSearch: z.boolean().default(true),
 
-  // 0..1 threshold; higher = only use retrieval when model is less confident
+  // 0..1 threshold; higher = only use retrieval when model is less confident (Gemini 1.5 only)
   dynamicThreshold: z.number().min(0).max(1).default(0.7),
 
   // Advanced: full contents to support multi-turn or multi-part messages
@@ -82,8 +89,14 @@ const InputSchema = z.object({
 });
 
 const OutputSchema = z.object({
+  status: z.enum(["ok", "skipped"]).describe("skipped: the source policy did not allow web research; answer from KCC"),
   text: z.string().nullable(),
-  response: z.any(), // full raw JSON response from Gemini
+  sources: z.array(z.object({ url: z.string(), title: z.string() })).describe("Web pages the answer is grounded on; cite them"),
+  policy: z.object({
+    allowed: z.boolean(),
+    reason: z.enum(["low-kcc-relevance", "time-sensitive"]),
+    detail: z.string(),
+  }),
 });
 
 /* =========================
@@ -111,19 +124,25 @@ function extractPrimaryText(json: GeminiResponse): string | null {
 export const webResearch = createTool({
   id: "web-research",
   description:
-    "Research topics using Google Gemini with optional dynamic retrieval from Google Search.",
+    "Research recent agricultural information on the web using Gemini with Google Search grounding. Only for questions KCC cannot answer (low KCC relevance) or time-sensitive topics such as new schemes, outbreaks or bans.",
   inputSchema: InputSchema,
   outputSchema: OutputSchema,
 
-  execute: async ({ context }) => {
+  execute: async ({ context, runtimeContext }) => {
     const {
       prompt,
-      model = "gemini-1.5-flash",
+      reason,
+      model = "gemini-2.5-flash",
       useGoogleSearch = true,
       dynamicThreshold = 0.7,
       contents,
     } = context;
 
+    const policy = checkResearchPolicy({ reason }, runtimeContext);
+    if (!policy.allowed) {
+      return { status: "skipped" as const, text: null, sources: [], policy };
+    }
+
     const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
     if (!apiKey) {
       throw new Error(
@@ -145,16 +164,19 @@ export const webResearch = createTool({
     };
 
     if (useGoogleSearch) {
-      body.tools = [
-        {
-          google_search_retrieval: {
-            dynamic_retrieval_config: {
-              mode: "MODE_DYNAMIC",
-              dynamic_threshold: dynamicThreshold,
+      // Gemini 1.5 uses dynamic retrieval; 2.x models only accept the google_search tool
+      body.tools = model.startsWith("gemini-1.5")
+        ? [
+            {
+              google_search_retrieval: {
+                dynamic_retrieval_config: {
+                  mode: "MODE_DYNAMIC",
+                  dynamic_threshold: dynamicThreshold,
+                },
+              },
             },
-          },
-        },
-      ];
+          ]
+        : [{ google_search: {} }];
     }
 
     const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(
@@ -183,27 +205,29 @@ export const webResearch = createTool({
     const text = parsed.success ? extractPrimaryText(parsed.data) : null;
 
     // Extract URLs and titles from groundingChunks if available
-    let urls: Array<{ uri: string; title: string }> = [];
+    let sources: ResearchSource[] = [];
     try {
       const candidates = raw?.candidates ?? [];
       if (candidates.length > 0) {
         const groundingChunks = candidates[0]?.groundingMetadata?.groundingChunks ?? [];
-        urls = groundingChunks
+        sources = groundingChunks
           .map((chunk: any) => {
-            if (chunk?.web?.uri && chunk?.web?.title) {
-              return { uri: chunk.web.uri, title: chunk.web.title };
+            if (chunk?.web?.uri) {
+              return { url: chunk.web.uri, title: chunk.web.title || chunk.web.uri };
             }
             return null;
           })
           .filter(Boolean);
       }
-    } catch (e) {
-      // fail silently, urls will be empty
+    } catch {
+      // fail silently, sources will be empty
     }
 
     return {
+      status: "ok" as const,
       text,
-      urls,
+      sources: uniqueSources(sources),
+      policy,
     };
   },
 });
@@ -0,0 +1,258 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { kccDatabaseTool } from '../tools/kcc-tool';
+import { getWeather } from '../services/weather-service';
+import { classifyIntent } from '../services/intent';
+import {
+  applyClarification,
+  buildTreatmentPlan,
+  clarifyingQuestion,
+  CROP_STAGES,
+  detectCropStage,
+  extractSymptoms,
+  needsClarification,
+  rankCauses,
+  summarizeDiagnosisWeather,
+  SYMPTOMS,
+  type DiagnosisWeather,
+} from '../services/crop-diagnosis';
+
+// Forecast days checked for disease-favourable conditions
+const DIAGNOSIS_FORECAST_DAYS = 5;
+const DIAGNOSIS_KCC_RESULTS = 5;
+
+const stageSchema = z.enum(CROP_STAGES);
+const symptomSchema = z.enum(SYMPTOMS);
+
+const diagnosisInputSchema = z.object({
+  query: z.string().describe("The farmer's description of the problem"),
+  crop: z.string().optional(),
+  stage: stageSchema.optional(),
+  symptoms: z.array(symptomSchema).optional(),
+  photoProvided: z.boolean().optional().describe('The farmer attached a photo (the chat model looks at it)'),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  location: z.string().optional(),
+  stateName: z.string().optional(),
+  districtName: z.string().optional(),
+});
+
+const caseSchema = z.object({
+  query: z.string(),
+  crop: z.string().nullable(),
+  stage: stageSchema.nullable(),
+  symptoms: z.array(symptomSchema),
+  photoProvided: z.boolean(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  location: z.string().optional(),
+  stateName: z.string().optional(),
+  districtName: z.string().optional(),
+});
+
+const kccEvidenceSchema = z.object({
+  id: z.string(),
+  queryText: z.string(),
+  answer: z.string(),
+  relevanceScore: z.number(),
+  summary: z.string(),
+  dosages: z.array(z.object({
+    activeIngredient: z.string(),
+    text: z.string(),
+    intervalDays: z.object({ min: z.number(), max: z.number() }).optional(),
+    waitingPeriodDays: z.number().optional(),
+  })),
+  safetyFlags: z.array(z.object({
+    name: z.string(),
+    status: z.enum(['banned', 'restricted']),
+    saferAlternatives: z.array(z.string()),
+  })),
+});
+
+const weatherSchema = z.object({
+  available: z.boolean(),
+  location: z.string().optional(),
+  diseaseFavourableDays: z.number(),
+  hotDryDays: z.number(),
+  sprayWindow: z.object({ date: z.string(), start: z.string(), end: z.string() }).nullable(),
+});
+
+const rankedCauseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: z.enum(['fungal', 'bacterial', 'viral', 'insect', 'mite', 'nutrient', 'water']),
+  confidence: z.number(),
+  matchedSymptoms: z.array(symptomSchema),
+  kccEvidenceId: z.string().nullable(),
+  weatherFit: z.enum(['favourable', 'unfavourable', 'neutral']),
+});
+
+const clarificationSchema = z.object({ question: z.string(), answer: z.string() }).nullable();
+
+const withKccSchema = z.object({ case: caseSchema, kcc: z.array(kccEvidenceSchema) });
+const withWeatherSchema = withKccSchema.extend({ weather: weatherSchema });
+const rankedSchema = withWeatherSchema.extend({ causes: z.array(rankedCauseSchema) });
+const clarifiedSchema = rankedSchema.extend({ clarification: clarificationSchema });
+
+export const treatmentPlanSchema = z.object({
+  crop: z.string().nullable(),
+  stage: stageSchema.nullable(),
+  likelyCause: rankedCauseSchema.nullable(),
+  alternatives: z.array(rankedCauseSchema),
+  confidence: z.enum(['high', 'medium', 'low']),
+  actions: z.array(z.string()),
+  products: kccEvidenceSchema.shape.dosages,
+  safetyFlags: kccEvidenceSchema.shape.safetyFlags,
+  kccAdvice: z.object({ answer: z.string(), summary: z.string(), relevanceScore: z.number() }).nullable(),
+  sprayTiming: z.string().nullable(),
+  weatherRisk: z.string().nullable(),
+  recheckInDays: z.number(),
+  photoProvided: z.boolean(),
+  clarification: clarificationSchema,
+});
+
+const collectCase = createStep({
+  id: 'collect-case',
+  description: 'Collect crop, stage, symptoms and photo from the input and the description',
+  inputSchema: diagnosisInputSchema,
+  outputSchema: caseSchema,
+  execute: async ({ inputData }) => {
+    const symptoms = new Set([...(inputData.symptoms || []), ...extractSymptoms(inputData.query)]);
+    return {
+      query: inputData.query,
+      crop: inputData.crop?.toLowerCase() || classifyIntent(inputData.query).crop,
+      stage: inputData.stage || detectCropStage(inputData.query),
+      symptoms: SYMPTOMS.filter(symptom => symptoms.has(symptom)),
+      photoProvided: !!inputData.photoProvided,
+      latitude: inputData.latitude,
+      longitude: inputData.longitude,
+      location: inputData.location,
+      stateName: inputData.stateName,
+      districtName: inputData.districtName,
+    };
+  },
+});
+
+const searchKcc = createStep({
+  id: 'search-kcc',
+  description: 'Find past KCC answers for the problem on this crop',
+  inputSchema: caseSchema,
+  outputSchema: withKccSchema,
+  execute: async ({ inputData, runtimeContext }) => {
+    const result = await kccDatabaseTool.execute!({
+      context: {
+        query: [inputData.crop, inputData.query].filter(Boolean).join(' '),
+        topK: DIAGNOSIS_KCC_RESULTS,
+        stateName: inputData.stateName,
+        districtName: inputData.districtName,
+        crop: inputData.crop ?? undefined,
+      },
+      runtimeContext,
+    });
+    return {
+      case: inputData,
+      kcc: result.relevantResults.map(record => ({
+        id: record.id,
+        queryText: record.queryText,
+        answer: record.answer,
+        relevanceScore: record.relevanceScore,
+        summary: record.duplicates.summary,
+        dosages: record.dosages.map(({ activeIngredient, text, intervalDays, waitingPeriodDays }) => ({ activeIngredient, text, intervalDays, waitingPeriodDays })),
+        safetyFlags: record.safetyFlags.map(({ name, status, saferAlternatives }) => ({ name, status, saferAlternatives })),
+      })),
+    };
+  },
+});
+
+const checkWeather = createStep({
+  id: 'check-weather',
+  description: 'Check the coming days for weather that favours disease or pests',
+  inputSchema: withKccSchema,
+  outputSchema: withWeatherSchema,
+  execute: async ({ inputData }) => {
+    const { latitude, longitude, location, crop } = inputData.case;
+    let weather: DiagnosisWeather = { available: false, diseaseFavourableDays: 0, hotDryDays: 0, sprayWindow: null };
+    if ((latitude !== undefined && longitude !== undefined) || location) {
+      try {
+        const report = await getWeather({ latitude, longitude, location, days: DIAGNOSIS_FORECAST_DAYS, crops: crop ? [crop] : [] });
+        weather = summarizeDiagnosisWeather(report.forecast, report.location);
+      } catch (error) {
+        // Diagnose without the weather rather than fail the run
+        console.error('Crop diagnosis weather check failed:', error);
+      }
+    }
+    return { ...inputData, weather };
+  },
+});
+
+const rankLikelyCauses = createStep({
+  id: 'rank-causes',
+  description: 'Rank likely causes by confidence',
+  inputSchema: withWeatherSchema,
+  outputSchema: rankedSchema,
+  execute: async ({ inputData }) => ({
+    ...inputData,
+    causes: rankCauses(inputData.case, inputData.kcc, inputData.weather),
+  }),
+});
+
+const clarify = createStep({
+  id: 'clarify',
+  description: 'Ask the farmer one clarifying question when confidence is low',
+  inputSchema: rankedSchema,
+  outputSchema: clarifiedSchema,
+  suspendSchema: z.object({
+    question: z.string(),
+    options: z.array(z.string()),
+    causes: z.array(rankedCauseSchema),
+  }),
+  resumeSchema: z.object({
+    answer: z.string().describe("The farmer's reply to the clarifying question"),
+  }),
+  execute: async ({ inputData, resumeData, suspend }) => {
+    if (!needsClarification(inputData.causes)) {
+      return { ...inputData, clarification: null };
+    }
+
+    const question = clarifyingQuestion(inputData.case, inputData.causes);
+    if (!resumeData?.answer) {
+      return await suspend({ ...question, causes: inputData.causes });
+    }
+
+    const { diagnosisCase, causes } = applyClarification(
+      inputData.case, inputData.causes, question, resumeData.answer, inputData.kcc, inputData.weather);
+    return {
+      ...inputData,
+      case: diagnosisCase,
+      causes,
+      clarification: { question: question.question, answer: resumeData.answer },
+    };
+  },
+});
+
+const planTreatment = createStep({
+  id: 'plan-treatment',
+  description: 'Turn the most likely cause into a treatment plan',
+  inputSchema: clarifiedSchema,
+  outputSchema: treatmentPlanSchema,
+  execute: async ({ inputData }) =>
+    buildTreatmentPlan(inputData.case, inputData.causes, inputData.kcc, inputData.weather, inputData.clarification),
+});
+
+/**
+ * Crop problem diagnosis: case → KCC → weather → ranked causes → (one clarifying
+ * question, suspending the run until the farmer replies) → treatment plan.
+ */
+export const cropDiagnosisWorkflow = createWorkflow({
+  id: 'crop-diagnosis',
+  description: 'Diagnose a crop disease or pest problem and propose a treatment plan',
+  inputSchema: diagnosisInputSchema,
+  outputSchema: treatmentPlanSchema,
+})
+  .then(collectCase)
+  .then(searchKcc)
+  .then(checkWeather)
+  .then(rankLikelyCauses)
+  .then(clarify)
+  .then(planTreatment)
+  .commit();
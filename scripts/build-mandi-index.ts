@@ -0,0 +1,35 @@
+/**
+ * Rebuild mastra/index/mandi-index.json from the live data.gov.in feed.
+ *
+ *   MANDI_PRICE_API_KEY=... npm run build:mandi-index -- [--pages 50] [--out path]
+ *
+ * New states, districts, markets and commodities are folded into the existing
+ * index, so running it on different days gradually fills in the hierarchy.
+ */
+import { BUNDLED_MANDI_INDEX_PATH, crawlMandiIndex, writeMandiIndex } from '../mastra/services/mandi-index';
+
+function argument(name: string): string | undefined {
+  const position = process.argv.indexOf(`--${name}`);
+  return position >= 0 ? process.argv[position + 1] : undefined;
+}
+
+async function main() {
+  const pages = Number(argument('pages')) || undefined;
+  const out = argument('out') || BUNDLED_MANDI_INDEX_PATH;
+
+  const { index, records, pages: crawled } = await crawlMandiIndex(pages);
+  if (records === 0) {
+    throw new Error('data.gov.in returned no records; the index was not changed');
+  }
+  await writeMandiIndex(index, out);
+
+  const districts = index.states.flatMap(state => state.districts);
+  const markets = districts.flatMap(district => district.markets);
+  console.log(`Crawled ${records} records over ${crawled} pages into ${out}`);
+  console.log(`${index.states.length} states, ${districts.length} districts, ${markets.length} markets, ${index.commodities.length} commodities, ${index.varieties.length} varieties`);
+}
+
+main().catch(error => {
+  console.error('Failed to build mandi index:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});